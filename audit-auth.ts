@@ -0,0 +1,376 @@
+import * as fs from "fs";
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { AuditRequest, MIN_CHUNK_TOKENS } from "./audit-common.js";
+import { estimateTokens } from "./audit-diff.js";
+import { getContextTokenBudget } from "./audit-context.js";
+import { estimateFixCalls } from "./audit-patches.js";
+import { ChatMessage, CompletionProvider, getProvider } from "./audit-providers.js";
+import { UsageSummary } from "./audit-usage.js";
+import { JsonRpcError, JSON_RPC_ERRORS } from "./audit-jsonrpc.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-auth.ts
+ *
+ * HTTP JSON-RPCサーバーの認証・レート制限・利用量の上限を扱うモジュールです。
+ *
+ *  - APIキー（Authorization: Bearer <キー> または X-API-Key ヘッダ）による認証
+ *    キーは名前付きで複数登録でき、キーごとにレート制限と1日の上限を設定できる
+ *  - キーごとのレート制限（1分あたりのリクエスト数）
+ *  - キーごとの1日のトークン数・コストの上限（監査・追加の質問の受付時に見積もりで確認・計上し、
+ *    完了後に実際の利用量に置き換える。失敗・キャンセルした場合は取り消す。UTCの日付で集計）
+ *  - 監査する差分のサイズの上限
+ *
+ * キーの設定は AUDIT_API_KEYS_CONFIG（デフォルトは audit-api-keys.json）または
+ * 環境変数 AUDIT_API_KEYS（"名前:キー" のカンマ区切り）で指定します。
+ * キーが1つも設定されていない場合は認証を行いません（全リクエストを "anonymous" として扱う）。
+ *
+ * 設定ファイルの例:
+ *   {
+ *     "keys": {
+ *       "ci":    { "key_env": "AUDIT_KEY_CI", "rate_limit_per_minute": 30, "daily_token_quota": 2000000 },
+ *       "alice": { "key": "...", "daily_cost_quota": 5 }
+ *     }
+ *   }
+ */
+
+/**
+ * APIキーの設定（設定ファイルの各エントリ）
+ */
+export const ApiKeyConfigSchema = z.object({
+  key: z.string().optional(),
+  key_env: z.string().optional(),
+  rate_limit_per_minute: z.number().int().positive().optional(),
+  daily_token_quota: z.number().int().positive().optional(),
+  daily_cost_quota: z.number().positive().optional(),
+});
+export type ApiKeyConfig = z.infer<typeof ApiKeyConfigSchema>;
+
+export const ApiKeysFileSchema = z.object({
+  keys: z.record(ApiKeyConfigSchema).default({}),
+});
+
+/**
+ * 認証済みのクライアント
+ */
+export interface ApiClient {
+  name: string;
+  rateLimitPerMinute: number;
+  dailyTokenQuota?: number;
+  dailyCostQuota?: number;
+}
+
+/**
+ * 1日の利用量
+ */
+export interface DailyUsage {
+  date: string;      // UTCの日付（YYYY-MM-DD）
+  tokens: number;
+  cost: number;
+  requests: number;
+}
+
+/**
+ * 受付時に見積もりで計上した利用量（完了後に settleUsage で実際の利用量に置き換える）
+ */
+export interface UsageReservation {
+  client: ApiClient;
+  date: string;
+  tokens: number;
+  cost: number;
+  settled: boolean;
+}
+
+interface RegisteredKey {
+  client: ApiClient;
+  digest: Buffer;    // キーのSHA-256（比較時の長さを揃えるため）
+}
+
+const ANONYMOUS_CLIENT_NAME = "anonymous";
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+let registeredKeys: RegisteredKey[] | null = null;
+const requestTimes = new Map<string, number[]>();
+const dailyUsage = new Map<string, DailyUsage>();
+
+function parseEnvNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function digestKey(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+/**
+ * 設定からクライアントを作成する（未指定の項目は環境変数の既定値）
+ */
+function createClient(name: string, config: ApiKeyConfig = {}): ApiClient {
+  return {
+    name,
+    rateLimitPerMinute: config.rate_limit_per_minute ?? parseEnvNumber("AUDIT_RATE_LIMIT_PER_MINUTE") ?? 60,
+    dailyTokenQuota: config.daily_token_quota ?? parseEnvNumber("AUDIT_DAILY_TOKEN_QUOTA"),
+    dailyCostQuota: config.daily_cost_quota ?? parseEnvNumber("AUDIT_DAILY_COST_QUOTA"),
+  };
+}
+
+/**
+ * 設定ファイルを読み込む
+ */
+function loadApiKeysFile(): Record<string, ApiKeyConfig> {
+  const configPath = process.env.AUDIT_API_KEYS_CONFIG || "audit-api-keys.json";
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(`APIキー設定ファイルを読み込めませんでした (${configPath}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = ApiKeysFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`APIキー設定ファイルの形式が不正です (${configPath}): ${issues}`);
+  }
+  return parsed.data.keys;
+}
+
+/**
+ * 設定ファイルと環境変数からAPIキーを読み込む（初回のみ）
+ */
+function getRegisteredKeys(): RegisteredKey[] {
+  if (registeredKeys) return registeredKeys;
+
+  const keys: RegisteredKey[] = [];
+  Object.entries(loadApiKeysFile()).forEach(([name, config]) => {
+    const key = config.key || (config.key_env ? process.env[config.key_env] : undefined);
+    if (!key) {
+      logger.warn(`APIキー "${name}" のキーが設定されていないため無視します。`);
+      return;
+    }
+    keys.push({ client: createClient(name, config), digest: digestKey(key) });
+  });
+
+  (process.env.AUDIT_API_KEYS || "").split(",").map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      logger.warn("AUDIT_API_KEYS は \"名前:キー\" のカンマ区切りで指定してください。");
+      return;
+    }
+    keys.push({ client: createClient(entry.slice(0, separator)), digest: digestKey(entry.slice(separator + 1)) });
+  });
+
+  registeredKeys = keys;
+  return keys;
+}
+
+/**
+ * 認証が有効か（APIキーが1つ以上設定されているか）
+ */
+export function isAuthEnabled(): boolean {
+  return getRegisteredKeys().length > 0;
+}
+
+/**
+ * リクエストヘッダからクライアントを認証する
+ * 認証が無効な場合は anonymous クライアントを返す
+ */
+export function authenticate(headers: Record<string, string | string[] | undefined>): ApiClient {
+  const keys = getRegisteredKeys();
+  if (keys.length === 0) {
+    return createClient(ANONYMOUS_CLIENT_NAME);
+  }
+
+  const authorization = String(headers["authorization"] || "");
+  const presented = authorization.match(/^Bearer\s+(.+)$/i)?.[1] || String(headers["x-api-key"] || "");
+  if (!presented) {
+    throw new JsonRpcError(JSON_RPC_ERRORS.UNAUTHORIZED, "Unauthorized: APIキーが指定されていません", undefined, 401);
+  }
+
+  const digest = digestKey(presented);
+  const matched = keys.find(key => timingSafeEqual(key.digest, digest));
+  if (!matched) {
+    throw new JsonRpcError(JSON_RPC_ERRORS.UNAUTHORIZED, "Unauthorized: APIキーが不正です", undefined, 401);
+  }
+  return matched.client;
+}
+
+/**
+ * レート制限を確認し、リクエストを記録する（直近1分間のリクエスト数で判定）
+ */
+export function checkRateLimit(client: ApiClient): void {
+  const now = Date.now();
+  const times = (requestTimes.get(client.name) || []).filter(time => time > now - RATE_LIMIT_WINDOW_MS);
+  if (times.length >= client.rateLimitPerMinute) {
+    const retryAfterMs = times[0] + RATE_LIMIT_WINDOW_MS - now;
+    requestTimes.set(client.name, times);
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.RATE_LIMITED,
+      `Rate limited: 1分あたりのリクエスト数の上限（${client.rateLimitPerMinute}件）を超えました`,
+      { retry_after_ms: retryAfterMs },
+      429
+    );
+  }
+  times.push(now);
+  requestTimes.set(client.name, times);
+}
+
+/**
+ * 当日の利用量を取得する
+ */
+export function getDailyUsage(client: ApiClient): DailyUsage {
+  const date = new Date().toISOString().slice(0, 10);
+  const usage = dailyUsage.get(client.name);
+  if (usage && usage.date === date) {
+    return usage;
+  }
+  const fresh = { date, tokens: 0, cost: 0, requests: 0 };
+  dailyUsage.set(client.name, fresh);
+  return fresh;
+}
+
+/**
+ * 監査リクエストのトークン数とコストを見積もる
+ * LLM呼び出しごとに、入力（リクエスト・修正内容・function_list・差分）のトークン数に出力の上限を加えた値で見積もる
+ *  - providers を複数指定した場合は、プロバイダごとの料金と出力の上限で見積もって合計する
+ *  - 差分がコンテキスト長に収まらない場合は、チャンクごとの呼び出しと結果をまとめる呼び出しを加える
+ *  - enrich_context: コンテキストのトークン数の上限を各呼び出しの入力に加える
+ *  - suggest_fixes: 修正案の作成（最初のプロバイダで、指摘ごとに1回）を加える
+ */
+export function estimateAuditUsage(params: AuditRequest): { tokens: number; cost: number } {
+  const total = { tokens: 0, cost: 0 };
+  if (params.llm === false) {
+    return total;
+  }
+  const addCalls = (provider: CompletionProvider, calls: number, inputTokens: number) => {
+    const outputTokens = calls * provider.maxOutputTokens;
+    total.tokens += inputTokens + outputTokens;
+    total.cost += (inputTokens / 1000) * (provider.inputCostPer1k ?? 0)
+      + (outputTokens / 1000) * (provider.outputCostPer1k ?? 0);
+  };
+
+  const providers = params.providers?.length ? params.providers.map(name => getProvider(name)) : [getProvider()];
+  const promptTokens = estimateTokens([params.request, params.modification_description, params.function_list].join("\n"));
+  const diffTokens = estimateTokens(params.code_changes);
+  providers.forEach(provider => {
+    const contextTokens = params.enrich_context ? getContextTokenBudget(provider) : 0;
+    const overhead = promptTokens + contextTokens;
+    const chunkBudget = Math.max(provider.contextTokens - provider.maxOutputTokens - overhead, MIN_CHUNK_TOKENS);
+    const chunks = Math.max(Math.ceil(diffTokens / chunkBudget), 1);
+    addCalls(provider, chunks, chunks * overhead + diffTokens);
+    if (chunks > 1) {
+      // チャンクごとの結果をまとめる呼び出し
+      addCalls(provider, 1, promptTokens + chunks * provider.maxOutputTokens);
+    }
+  });
+
+  if (params.suggest_fixes) {
+    const fixes = estimateFixCalls(params.code_changes);
+    addCalls(providers[0], fixes.calls, fixes.calls * fixes.inputTokens);
+  }
+  return total;
+}
+
+/**
+ * 送信するメッセージのトークン数とコストを見積もる（入力に出力の上限を加えた値）
+ */
+export function estimateCompletionUsage(provider: CompletionProvider, messages: ChatMessage[]): { tokens: number; cost: number } {
+  const inputTokens = estimateTokens(messages.map(message => message.content).join("\n"));
+  const outputTokens = provider.maxOutputTokens;
+  const cost = (inputTokens / 1000) * (provider.inputCostPer1k ?? 0)
+    + (outputTokens / 1000) * (provider.outputCostPer1k ?? 0);
+  return { tokens: inputTokens + outputTokens, cost };
+}
+
+/**
+ * 見積もった利用量が1日の上限を超えないか確認し、計上する
+ */
+function reserveUsage(client: ApiClient, estimate: { tokens: number; cost: number }): UsageReservation {
+  const usage = getDailyUsage(client);
+  if (client.dailyTokenQuota !== undefined && usage.tokens + estimate.tokens > client.dailyTokenQuota) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.QUOTA_EXCEEDED,
+      `Quota exceeded: 1日のトークン数の上限（${client.dailyTokenQuota}）を超えます`,
+      { used_tokens: usage.tokens, estimated_tokens: estimate.tokens, daily_token_quota: client.dailyTokenQuota }
+    );
+  }
+  if (client.dailyCostQuota !== undefined && usage.cost + estimate.cost > client.dailyCostQuota) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.QUOTA_EXCEEDED,
+      `Quota exceeded: 1日のコストの上限（${client.dailyCostQuota}）を超えます`,
+      { used_cost: usage.cost, estimated_cost: estimate.cost, daily_cost_quota: client.dailyCostQuota }
+    );
+  }
+
+  usage.tokens += estimate.tokens;
+  usage.cost += estimate.cost;
+  usage.requests += 1;
+  return { client, date: usage.date, tokens: estimate.tokens, cost: estimate.cost, settled: false };
+}
+
+/**
+ * 見積もりで計上した利用量を、実際の利用量（LLM呼び出しの記録）に置き換える
+ * usage を省略した場合（監査の失敗・キャンセル）は計上を取り消す。キャッシュを再利用した分は実際の利用量に含まれない
+ * 受付と日付が変わっている場合は、当日の利用量に実際の利用量を加える
+ */
+export function settleUsage(reservation: UsageReservation | undefined, usage?: Pick<UsageSummary, "totalTokens" | "cost">): void {
+  if (!reservation || reservation.settled) return;
+  reservation.settled = true;
+
+  const daily = getDailyUsage(reservation.client);
+  if (daily.date === reservation.date) {
+    daily.tokens = Math.max(daily.tokens - reservation.tokens, 0);
+    daily.cost = Math.max(daily.cost - reservation.cost, 0);
+  }
+  daily.tokens += usage?.totalTokens ?? 0;
+  daily.cost += usage?.cost ?? 0;
+}
+
+/**
+ * 処理を実行し、結果の利用量で計上を確定する（例外の場合は計上を取り消す）
+ */
+export async function runWithReservation<T extends { usage: UsageSummary }>(
+  reservation: UsageReservation | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await run();
+    settleUsage(reservation, result.usage);
+    return result;
+  } catch (err) {
+    settleUsage(reservation);
+    throw err;
+  }
+}
+
+/**
+ * 1回のLLM呼び出し（追加の質問など）の利用量を見積もり、1日の上限を確認して計上する
+ */
+export function reserveCompletionUsage(client: ApiClient, provider: CompletionProvider, messages: ChatMessage[]): UsageReservation {
+  return reserveUsage(client, estimateCompletionUsage(provider, messages));
+}
+
+/**
+ * 差分のサイズと1日の上限を確認し、見積もった利用量を計上する
+ */
+export function reserveAuditUsage(client: ApiClient, params: AuditRequest): UsageReservation {
+  const maxDiffBytes = parseEnvNumber("AUDIT_MAX_DIFF_BYTES") ?? 2 * 1024 * 1024;
+  const diffBytes = Buffer.byteLength(params.code_changes || "", "utf8");
+  if (diffBytes > maxDiffBytes) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.PAYLOAD_TOO_LARGE,
+      `Payload too large: 差分のサイズ（${diffBytes}バイト）が上限（${maxDiffBytes}バイト）を超えています`,
+      { diff_bytes: diffBytes, max_diff_bytes: maxDiffBytes }
+    );
+  }
+
+  return reserveUsage(client, estimateAuditUsage(params));
+}
@@ -0,0 +1,148 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+import { fileURLToPath } from "url";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-cache.ts
+ *
+ * 監査結果をディスクにキャッシュするモジュールです。
+ *
+ * キャッシュのキーは、結果に影響する入力（差分・リクエスト・修正内容・function_list・
+ * プロンプトのバージョン・モデルなど）のSHA-256ハッシュです（コンテンツアドレス方式）。
+ * 入力が1文字でも変われば別のキーになるため、古い結果を誤って再利用することはありません。
+ *
+ * キャッシュは `audits/cache`（AUDIT_CACHE_DIR で変更可能）に保存され、
+ * AUDIT_CACHE=off でキャッシュ全体を無効にできます。
+ */
+
+/**
+ * リクエストごとのキャッシュの扱い
+ *  - use:     キャッシュを読み込み、新しい結果を保存する（デフォルト）
+ *  - refresh: キャッシュを読み込まずに監査し、結果で上書きする
+ *  - bypass:  キャッシュを読み込まず、保存もしない
+ */
+export const CACHE_MODES = ["use", "refresh", "bypass"] as const;
+export type CacheMode = typeof CACHE_MODES[number];
+
+/**
+ * 保存するキャッシュエントリ
+ */
+interface CacheEntry<T> {
+  key: string;
+  kind: string;       // エントリの種類（audit / file など）
+  createdAt: string;
+  value: T;
+}
+
+const CACHE_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * キャッシュの保存先ディレクトリを取得する
+ */
+export function getCacheDir(): string {
+  if (process.env.AUDIT_CACHE_DIR) {
+    return process.env.AUDIT_CACHE_DIR;
+  }
+  const moduleDir = path.dirname(fileURLToPath(import.meta.url));
+  return path.join(moduleDir, "audits", "cache");
+}
+
+/**
+ * キャッシュが有効か（AUDIT_CACHE=off で無効）
+ */
+export function isCacheEnabled(): boolean {
+  return process.env.AUDIT_CACHE !== "off";
+}
+
+/**
+ * キャッシュの読み書きを行うかをリクエストの指定から決める
+ */
+export function resolveCacheMode(mode: CacheMode = "use"): { read: boolean; write: boolean } {
+  if (!isCacheEnabled()) {
+    return { read: false, write: false };
+  }
+  return { read: mode === "use", write: mode !== "bypass" };
+}
+
+/**
+ * 入力からキャッシュキーを計算する
+ */
+export function computeCacheKey(parts: unknown[]): string {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+function entryPath(key: string): string {
+  if (!CACHE_KEY_PATTERN.test(key)) {
+    throw new Error(`不正なキャッシュキーです: ${key}`);
+  }
+  return path.join(getCacheDir(), key.slice(0, 2), `${key}.json`);
+}
+
+/**
+ * キャッシュから値を読み込む（ない場合・読み込めない場合は undefined）
+ */
+export function readCache<T>(key: string): T | undefined {
+  const filePath = entryPath(key);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    const entry = JSON.parse(fs.readFileSync(filePath, "utf8")) as CacheEntry<T>;
+    return entry.key === key ? entry.value : undefined;
+  } catch (err) {
+    logger.warn(`キャッシュを読み込めませんでした (${key}): ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
+/**
+ * 値をキャッシュに保存する
+ * 書き込み途中のファイルを読まないよう、一時ファイルに書き込んでから置き換える
+ */
+export function writeCache<T>(key: string, kind: string, value: T): void {
+  const filePath = entryPath(key);
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const entry: CacheEntry<T> = { key, kind, createdAt: new Date().toISOString(), value };
+    const tempPath = `${filePath}.${randomBytes(4).toString("hex")}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry), "utf8");
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    // キャッシュの保存に失敗しても監査は継続する
+    logger.warn(`キャッシュを保存できませんでした (${key}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * キャッシュを削除する
+ * older_than_days を指定した場合は、それより古いエントリのみ削除する
+ */
+export function purgeCache(options: { older_than_days?: number } = {}): { deleted: number } {
+  const cacheDir = getCacheDir();
+  if (!fs.existsSync(cacheDir)) {
+    return { deleted: 0 };
+  }
+
+  const threshold = options.older_than_days !== undefined
+    ? Date.now() - options.older_than_days * 24 * 60 * 60 * 1000
+    : undefined;
+  let deleted = 0;
+  fs.readdirSync(cacheDir, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory())
+    .forEach(dirent => {
+      const dir = path.join(cacheDir, dirent.name);
+      fs.readdirSync(dir)
+        .filter(file => file.endsWith(".json") || file.endsWith(".tmp"))
+        .forEach(file => {
+          const filePath = path.join(dir, file);
+          if (threshold !== undefined && fs.statSync(filePath).mtimeMs >= threshold) return;
+          fs.unlinkSync(filePath);
+          deleted++;
+        });
+    });
+
+  logger.info(`キャッシュを削除しました: ${deleted}件`);
+  return { deleted };
+}
@@ -0,0 +1,273 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import * as path from "path";
+import { performAudit } from "./audit-common.js";
+import { buildGitAuditRequest, GitAuditRequest, GitDiffSource } from "./audit-git.js";
+import { CACHE_MODES, CacheMode } from "./audit-cache.js";
+import { getAuditProfile } from "./audit-profiles.js";
+import { Severity, SeveritySchema, countFindings, formatFindingLocation } from "./audit-result.js";
+import { meetsSeverity, toJUnit, toSarif } from "./audit-formats.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-cli.ts
+ *
+ * サーバーを起動せずに監査を実行するCI向けのコマンドです。
+ *
+ *  1) Gitリポジトリから差分・task_list.txt・function_list.txt を読み込み（audit-git.ts と同じ処理）
+ *  2) performAudit で監査してレポートを保存
+ *  3) 結果の概要を標準出力に表示し、指定があれば SARIF / JUnit XML を書き出す
+ *  4) しきい値（--fail-on）以上の重要度の指摘がある場合は終了コード 1 で終了
+ *
+ * 終了コード:
+ *   0: しきい値以上の指摘なし
+ *   1: しきい値以上の指摘あり
+ *   2: 引数の誤り・監査の実行エラー・監査できなかった差分がある（status が partial）
+ *      --allow-partial を指定した場合、partial でも監査できた範囲の指摘で 0 / 1 を判定する
+ *
+ * 使用例:
+ *   node dist/audit-cli.js --base origin/main --fail-on medium --sarif audit.sarif --junit audit-junit.xml
+ */
+
+const EXIT_OK = 0;
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `使用方法: audit-cli [オプション]
+
+  --repo <path>           監査するGitリポジトリ（デフォルトはカレントディレクトリ）
+  --base <ref>            比較元のref（指定すると base...head の差分を監査）
+  --head <ref>            比較先のref（デフォルトは HEAD）
+  --source <source>       差分の取得元（auto / staged / working_tree / range）
+  --path <dir>            監査対象をこのディレクトリ配下に限定する
+  --request <text>        監査リクエストの内容
+  --description <text>    修正内容の説明（省略時は task_list.txt、なければコミットメッセージ）
+  --function-list <path>  function_list.txt のパス（リポジトリルートからの相対パス）
+  --profile <name>        監査プロファイル
+  --fail-on <severity>    この重要度以上の指摘で失敗する（high / medium / low / none、デフォルトは high）
+  --sarif <file>          SARIF 2.1.0 を書き出す
+  --junit <file>          JUnit XML を書き出す
+  --cache <mode>          キャッシュの扱い（use / refresh / bypass）
+  --no-llm                LLMを使わずローカルチェックのみ実行する
+  --suggest-fixes         指摘ごとに修正パッチを作成する（適用できるもののみレポートに含める）
+  --enrich-context        変更後のファイル内容・参照しているシンボルの定義・呼び出し箇所を監査に含める
+  --providers <names>     監査に使うプロバイダ（カンマ区切りで複数指定すると各モデルの指摘を突き合わせる）
+  --min-agreement <n>     指摘を採用するのに必要なモデル数（デフォルトは過半数）
+  --allow-partial         監査できなかった差分があっても失敗にしない（監査できた範囲の指摘で判定する）
+  -h, --help              このヘルプを表示する
+`;
+
+/**
+ * コマンドラインの指定
+ */
+interface CliOptions {
+  request: GitAuditRequest;
+  failOn?: Severity;
+  sarifPath?: string;
+  junitPath?: string;
+  allowPartial: boolean;
+  help: boolean;
+}
+
+/**
+ * 引数の誤り
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * コマンドライン引数を解析する
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { request: { repo_path: process.cwd() }, failOn: "high", allowPartial: false, help: false };
+  const takeValue = (index: number, name: string): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new UsageError(`${name} には値を指定してください。`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "--no-llm":
+        options.request.llm = false;
+        break;
+      case "--suggest-fixes":
+        options.request.suggest_fixes = true;
+        break;
+      case "--allow-partial":
+        options.allowPartial = true;
+        break;
+      case "--repo":
+        options.request.repo_path = takeValue(i++, arg);
+        break;
+      case "--base":
+        options.request.base = takeValue(i++, arg);
+        break;
+      case "--head":
+        options.request.head = takeValue(i++, arg);
+        break;
+      case "--source": {
+        const source = takeValue(i++, arg);
+        if (!["auto", "staged", "working_tree", "range"].includes(source)) {
+          throw new UsageError(`不明な差分の取得元です: ${source}`);
+        }
+        options.request.source = source as GitDiffSource;
+        break;
+      }
+      case "--path":
+        options.request.path = takeValue(i++, arg);
+        break;
+      case "--request":
+        options.request.request = takeValue(i++, arg);
+        break;
+      case "--description":
+        options.request.modification_description = takeValue(i++, arg);
+        break;
+      case "--function-list":
+        options.request.function_list_path = takeValue(i++, arg);
+        break;
+      case "--profile":
+        options.request.profile = takeValue(i++, arg);
+        break;
+      case "--cache": {
+        const mode = takeValue(i++, arg);
+        if (!(CACHE_MODES as readonly string[]).includes(mode)) {
+          throw new UsageError(`不明なキャッシュの扱いです: ${mode}`);
+        }
+        options.request.cache = mode as CacheMode;
+        break;
+      }
+      case "--enrich-context":
+        options.request.enrich_context = true;
+        break;
+      case "--providers":
+        options.request.providers = takeValue(i++, arg).split(",").map(name => name.trim()).filter(Boolean);
+        break;
+      case "--min-agreement": {
+        const value = takeValue(i++, arg);
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) {
+          throw new UsageError(`--min-agreement には1以上の整数を指定してください: ${value}`);
+        }
+        options.request.min_agreement = count;
+        break;
+      }
+      case "--fail-on": {
+        const value = takeValue(i++, arg);
+        if (value === "none") {
+          options.failOn = undefined;
+          break;
+        }
+        const parsed = SeveritySchema.safeParse(value);
+        if (!parsed.success) {
+          throw new UsageError(`--fail-on には high / medium / low / none を指定してください: ${value}`);
+        }
+        options.failOn = parsed.data;
+        break;
+      }
+      case "--sarif":
+        options.sarifPath = takeValue(i++, arg);
+        break;
+      case "--junit":
+        options.junitPath = takeValue(i++, arg);
+        break;
+      default:
+        throw new UsageError(`不明なオプションです: ${arg}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * ファイルを書き出す（ディレクトリがなければ作成）
+ */
+function writeOutput(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, content, "utf8");
+  logger.info(`出力しました: ${filePath}`);
+}
+
+/**
+ * 監査を実行し、終了コードを返す
+ */
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  const request = await buildGitAuditRequest(options.request);
+  if (!request.code_changes.trim()) {
+    // 差分がない場合はLLMを呼び出さず、空の結果（ローカルチェックのみ）で出力する
+    logger.warn("監査対象の差分がないため、ローカルチェックのみ実行します。");
+    request.llm = false;
+  }
+
+  const startTime = Date.now();
+  const response = await performAudit(request);
+  const profile = getAuditProfile(request.profile);
+  const context = { reportId: response.reportId, profile, failOn: options.failOn, durationMs: Date.now() - startTime };
+
+  if (options.sarifPath) {
+    writeOutput(options.sarifPath, JSON.stringify(toSarif(response.auditResult, context), null, 2));
+  }
+  if (options.junitPath) {
+    writeOutput(options.junitPath, toJUnit(response.auditResult, context));
+  }
+
+  // 結果の概要を標準出力に表示
+  const findings = response.auditResult.findings;
+  const failing = findings.filter(finding => meetsSeverity(finding.severity, options.failOn));
+  const counts = countFindings(findings);
+  const lines = [
+    `監査結果: ${response.status}（レポートID: ${response.reportId}）`,
+    `指摘: ${findings.length}件（high: ${counts.high}, medium: ${counts.medium}, low: ${counts.low}）`,
+    ...findings.map(finding => {
+      const location = formatFindingLocation(finding);
+      return `  [${finding.severity}] ${location ? `${location}: ` : ""}${finding.message}`;
+    }),
+    `レポート: ${response.reportPath}`,
+  ];
+  if (response.auditResult.errors?.length) {
+    lines.push(`監査できなかった差分: ${response.auditResult.errors.length}件`);
+  }
+  // 監査できなかった差分がある場合は、指摘がなくても結果を信頼できないため失敗とする
+  const incomplete = response.status !== "success" && !options.allowPartial;
+  if (incomplete) {
+    lines.push("判定: 失敗（監査できなかった差分があります。許容する場合は --allow-partial を指定してください）");
+  } else {
+    lines.push(options.failOn
+      ? `判定: ${failing.length > 0 ? `失敗（${options.failOn} 以上の指摘が${failing.length}件）` : "成功"}`
+      : "判定: 成功（--fail-on none）");
+  }
+  process.stdout.write(lines.join("\n") + "\n");
+
+  if (incomplete) {
+    return EXIT_ERROR;
+  }
+  return failing.length > 0 ? EXIT_FINDINGS : EXIT_OK;
+}
+
+try {
+  process.exitCode = await main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof UsageError) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+  } else {
+    logger.error("監査の実行中にエラーが発生しました:", error instanceof Error ? error.message : error);
+  }
+  process.exitCode = EXIT_ERROR;
+}
@@ -1,10 +1,57 @@
 #!/usr/bin/env node
 
-import fetch from "node-fetch";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
+import {
+  AuditResult,
+  AuditError,
+  Finding,
+  Traceability,
+  buildResultFormat,
+  normalizeFindingCategories,
+  parseAuditResult,
+  renderAuditMarkdown,
+  mergeSections,
+  countFindings,
+} from "./audit-result.js";
+import { ChatMessage, CompletionProvider, getProvider } from "./audit-providers.js";
+import { parseUnifiedDiff, renderFileDiff, planAuditChunks, estimateTokens } from "./audit-diff.js";
+import {
+  runWithConcurrency,
+  withRetry,
+  getConcurrency,
+  getRetryOptions,
+  throwIfCancelled,
+} from "./audit-scheduler.js";
+import { BUILTIN_RULES, runLocalRules, mergeRuleFindings, buildRuleOnlyResult } from "./audit-rules.js";
+import { AppliedRulePack, getRulePackRules, renderRulePackGuidance, selectRulePacks, summarizeRulePacks } from "./audit-rule-packs.js";
+import { logger } from "./audit-logger.js";
+import { ReportMetadata, saveReport } from "./audit-reports.js";
+import { notifyAuditCompleted } from "./audit-notifications.js";
+import { UsageSummary, UsageTracker, createUsageTracker } from "./audit-usage.js";
+import { CacheMode, computeCacheKey, readCache, resolveCacheMode, writeCache } from "./audit-cache.js";
+import { AuditProfile, OVERALL_SECTION_KEY, PROFILE_TEXTS, getAuditProfile } from "./audit-profiles.js";
+import { TaskItem, mergeTraceability, normalizeTraceability, parseTaskItems, restrictTraceability } from "./audit-tasks.js";
+import { PatchTarget, suggestFixes } from "./audit-patches.js";
+import { defaultMinAgreement, reconcileFindings } from "./audit-consensus.js";
+import {
+  AuditContext,
+  buildAuditContext,
+  getContextTokenBudget,
+  renderAuditContext,
+  resolveContextTarget,
+  summarizeAuditContext,
+} from "./audit-context.js";
+import {
+  REDACTION_MARKER,
+  assertNoSecrets,
+  redactAuditContext,
+  redactAuditRequest,
+  redactMessages,
+  redactText,
+} from "./audit-redaction.js";
 
 dotenv.config({ path: "./.env" });
 
@@ -14,13 +61,28 @@ dotenv.config({ path: "./.env" });
 export const __filename = fileURLToPath(import.meta.url);
 export const __dirname = path.dirname(__filename);
 
+/**
+ * モジュールが node で直接実行されたか（他のモジュールから読み込まれた場合は false）
+ */
+export function isMainModule(moduleUrl: string): boolean {
+  if (!process.argv[1]) return false;
+  try {
+    return fs.realpathSync(process.argv[1]) === fs.realpathSync(fileURLToPath(moduleUrl));
+  } catch {
+    return false;
+  }
+}
+
 // デフォルトポート設定
 export const DEFAULT_PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 3000;
 
-// AIプロバイダの定義
+// 組み込みAIプロバイダの定義（audit-providers.json で任意の名前のプロバイダを追加できる）
 export enum AIProvider {
   OPENAI = 'openai',
   DEEPSEEK = 'deepseek',
+  ANTHROPIC = 'anthropic',
+  OLLAMA = 'ollama',
+  STUB = 'stub',
 }
 
 // デフォルトのAIプロバイダ
@@ -35,222 +97,527 @@ export interface AuditRequest {
   code_changes: string;      // 差分 (diff)
   function_list: string;     // function_list.txt の内容
   changed_files?: string[];  // 変更ファイル一覧
+  commit_sha?: string;       // 監査対象のコミット（レポートの検索用）
+  branch?: string;           // 監査対象のブランチ（レポートの検索用）
+  llm?: boolean;             // false の場合はLLMを使わずローカルチェックのみ実行
+  cache?: CacheMode;         // 監査結果のキャッシュの扱い（デフォルトは use）
+  profile?: string;          // 監査プロファイル（.auditrc で定義、省略時はデフォルトのプロファイル）
+  suggest_fixes?: boolean;   // true の場合は指摘ごとに修正パッチを作成し、適用できるものを結果に含める
+  patch_target?: PatchTarget; // 修正パッチを検証するリポジトリ（audit_git で設定、なければ差分から復元した内容で検証）
+  providers?: string[];      // 監査に使うプロバイダ（複数指定した場合は各モデルで監査し、指摘を突き合わせる）
+  min_agreement?: number;    // 複数のモデルで監査した場合に、指摘を採用するのに必要なモデル数（デフォルトは過半数）
+  enrich_context?: boolean;  // true の場合はリポジトリから変更後のファイル内容・参照しているシンボルの定義・呼び出し箇所を監査に含める
+  repo_path?: string;        // コンテキストを取得するリポジトリ（audit_git の場合は監査したツリーを使う）
+}
+
+/**
+ * 監査結果（performAudit の戻り値）
+ */
+export interface AuditResponse {
+  status: string;            // success / partial
+  message: string;
+  reportId: string;          // レポートストアでのID
+  reportPath: string;
+  aiReport: string;          // Markdown形式の監査レポート
+  auditResult: AuditResult;  // 構造化された監査結果
+  usage: UsageSummary;       // LLM呼び出しのトークン数・コスト
+}
+
+/**
+ * 監査の進行段階
+ */
+export type AuditStage = "started" | "rules" | "context" | "auditing" | "summarizing" | "fixing" | "saving" | "done";
+
+/**
+ * 監査の進捗情報
+ */
+export interface AuditProgress {
+  stage: AuditStage;
+  filesDone: number;   // 監査が完了したファイル数
+  filesTotal: number;  // 監査対象のファイル数
+  message: string;
+}
+
+/**
+ * 監査実行時のオプション
+ */
+export interface AuditOptions {
+  signal?: AbortSignal;                            // キャンセル用のシグナル
+  onProgress?: (progress: AuditProgress) => void;  // 進捗の通知先
+  usage?: UsageTracker;                            // LLM呼び出しの利用量の記録先
+  profile?: AuditProfile;                          // 解決済みのプロファイル（省略時はリクエストの profile から取得）
+  provider?: CompletionProvider;                   // 使用するプロバイダ（省略時はデフォルトのプロバイダ）
+  context?: AuditContext;                          // 監査に含めるコンテキスト（enrich_context 指定時）
+  rulePacks?: AppliedRulePack[];                   // 差分に適用するルールパック（確認事項をプロンプトに加える）
 }
 
 /**
  * ファイルごとの差分を抽出する
- * @returns ファイルパスとその差分内容のマップ
+ * @returns ファイルパス（リネームの場合は変更後のパス）とその差分内容のマップ
  */
-function splitDiffByFiles(diffContent: string): Map<string, string> {
+export function splitDiffByFiles(diffContent: string): Map<string, string> {
   const fileMap = new Map<string, string>();
-  if (!diffContent) return fileMap;
-  
-  const lines = diffContent.split('\n');
-  let currentFile = '';
-  let currentContent: string[] = [];
-  
-  // diff --git a/path/to/file b/path/to/file パターンを抽出
-  const fileRegex = /^diff --git a\/(.+) b\/(.+)$/;
-  
-  lines.forEach(line => {
-    const match = line.match(fileRegex);
-    if (match) {
-      // 新しいファイルの差分が始まった
-      if (currentFile && currentContent.length > 0) {
-        // 前のファイルの内容を保存
-        fileMap.set(currentFile, currentContent.join('\n'));
-      }
-      
-      // 新しいファイルの情報を設定
-      currentFile = match[1]; // パスを取得
-      currentContent = [line]; // 現在の行を含める
-    } else if (currentFile) {
-      // 現在のファイルの内容に追加
-      currentContent.push(line);
-    }
+  parseUnifiedDiff(diffContent).forEach(file => {
+    fileMap.set(file.path, renderFileDiff(file));
   });
-  
-  // 最後のファイルの内容を保存
-  if (currentFile && currentContent.length > 0) {
-    fileMap.set(currentFile, currentContent.join('\n'));
-  }
-  
   return fileMap;
 }
 
 /**
- * モデル名を環境変数から取得する
- * 環境変数が設定されていない場合はデフォルト値を使用
+ * 1リクエストに含める差分のトークン予算を求める
+ * AUDIT_CHUNK_TOKENS > プロバイダ設定の chunk_tokens >
+ * （コンテキスト長 - 出力上限 - プロンプトや function_list などの差分以外の入力）の順で決定する
  */
-function getOpenAIModelName(): string {
-  return process.env.OPENAI_MODEL || "gpt-4";
+function getChunkTokenBudget(provider: CompletionProvider, inputData: AuditRequest, profile: AuditProfile, contextText = "", guidance = ""): number {
+  if (process.env.AUDIT_CHUNK_TOKENS) {
+    return parseInt(process.env.AUDIT_CHUNK_TOKENS, 10);
+  }
+  if (provider.chunkTokens) {
+    return provider.chunkTokens;
+  }
+  // 修正内容は要件項目としても含めるため2回分を見込む
+  const overhead = estimateTokens(
+    buildSystemPrompt(profile, true, guidance) + inputData.request + inputData.modification_description.repeat(2) + inputData.function_list + contextText
+  ) + PROMPT_MARGIN_TOKENS;
+  return Math.max(provider.contextTokens - provider.maxOutputTokens - overhead, MIN_CHUNK_TOKENS);
 }
 
+// プロンプトの装飾部分や変更ファイル一覧のための余裕
+const PROMPT_MARGIN_TOKENS = 500;
+// 差分に割り当てるトークン数の下限
+export const MIN_CHUNK_TOKENS = 1000;
+
+/**
+ * プロンプトのバージョン
+ * プロンプトや結果の形式を変更した場合は更新する（以前のキャッシュを使わないようにするため）
+ */
+const AUDIT_PROMPT_VERSION = "3";
+
 /**
- * DeepSeekのモデル名を環境変数から取得する
+ * ファイル単位でキャッシュする監査結果
+ * （分割されたファイルはパーツごとの結果を持つ。findings は対象ファイルの指摘のみ）
  */
-function getDeepSeekModelName(): string {
-  return process.env.DEEPSEEK_MODEL || "deepseek-chat";
+interface CachedFileResult {
+  results: { label: string; result: AuditResult }[];
+  findings: Finding[];
 }
 
 /**
- * 使用するAIプロバイダを決定する
+ * 監査結果のキャッシュキーを求める
+ * 差分に加えて、結果に影響する入力（リクエスト・修正内容・function_list・プロンプトのバージョン・プロファイル・モデル・コンテキスト・
+ * ルールパックの確認事項）を含める
  */
-function getAIProvider(): AIProvider {
-  const provider = process.env.AI_PROVIDER as AIProvider;
-  return provider || DEFAULT_PROVIDER;
+function auditCacheKey(
+  provider: CompletionProvider,
+  profile: AuditProfile,
+  inputData: AuditRequest,
+  kind: "audit" | "file",
+  diff: string,
+  contextText = "",
+  guidance = ""
+): string {
+  return computeCacheKey([
+    kind,
+    AUDIT_PROMPT_VERSION,
+    profile,
+    `${provider.name}/${provider.model}`,
+    inputData.request,
+    inputData.modification_description,
+    inputData.function_list,
+    kind === "audit" ? inputData.changed_files ?? [] : [],
+    diff,
+    ...(contextText ? [contextText] : []),
+    ...(guidance ? [guidance] : []),
+  ]);
 }
 
 /**
  * OpenAI GPT に対してコード監査リクエストを行う関数。
- * 大きな差分データは複数のリクエストに分割して処理する
+ * トークン予算を超える差分は、ファイル・ハンク単位のチャンクに分割して処理し、
+ * チャンクごとの結果をファイル単位に統合する。
+ * 前回と内容が変わっていないファイルはキャッシュした結果を再利用し、変更されたファイルのみ監査する
  */
-export async function callOpenAIAudit(inputData: AuditRequest): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("環境変数 OPENAI_API_KEY が設定されていません。");
+export async function callOpenAIAudit(inputData: AuditRequest, options: AuditOptions = {}): Promise<AuditResult> {
+  const { signal, onProgress, usage } = options;
+  const provider = options.provider ?? getProvider();
+  const profile = options.profile ?? getAuditProfile(inputData.profile);
+  const texts = PROFILE_TEXTS[profile.language];
+  // コンテキストは分割した場合もチャンクのファイルに関係するものを含めるため、全体の分を予算から除く
+  const contextText = options.context ? renderAuditContext(options.context, profile) : "";
+  const contextFor = (paths: string[]) => options.context ? renderAuditContext(options.context, profile, paths) : "";
+  // ルールパックの確認事項（差分のファイルの種類に応じたもの）はシステムプロンプトに加える
+  const guidance = renderRulePackGuidance(options.rulePacks ?? [], profile);
+  const budget = getChunkTokenBudget(provider, inputData, profile, contextText, guidance);
+  const files = parseUnifiedDiff(inputData.code_changes);
+  const report = (stage: AuditStage, filesDone: number, message: string) =>
+    onProgress?.({ stage, filesDone, filesTotal: files.length, message });
+  const cache = resolveCacheMode(inputData.cache);
+  const cacheInfo = (hits: string[], audited: string[]) =>
+    cache.read || cache.write ? { cache: { hits, audited } } : {};
+  // 修正内容を要件項目に分解し、要件ごとの対応状況（トレーサビリティ）を監査させる
+  const taskItems = parseTaskItems(inputData.modification_description);
+  // ファイル単位のキャッシュには、そのファイルの指摘と対応状況のみを含める
+  const forFile = (result: AuditResult, file: string): AuditResult => ({
+    ...result,
+    findings: [],
+    ...(result.traceability ? { traceability: restrictTraceability(result.traceability, file) } : {}),
+  });
+
+  // 差分全体が前回と同じ場合は、前回の監査結果をそのまま返す
+  const auditKey = auditCacheKey(provider, profile, inputData, "audit", inputData.code_changes, contextText, guidance);
+  const cachedAudit = cache.read ? readCache<AuditResult>(auditKey) : undefined;
+  if (cachedAudit) {
+    logger.info("差分全体が前回の監査と同じため、キャッシュした監査結果を再利用します");
+    report("auditing", files.length, `${files.length}ファイルの監査結果をキャッシュから取得しました`);
+    return { ...cachedAudit, ...cacheInfo(files.map(file => file.path), []) };
   }
 
-  // 差分データをファイルごとに分割
-  const fileDiffs = splitDiffByFiles(inputData.code_changes);
-  
-  // ファイル数が少ない（1つか2つ）、または差分が小さい場合は分割せずに処理
-  if (fileDiffs.size <= 2 || inputData.code_changes.length < 10000) {
-    return await sendSingleAuditRequest(apiKey, inputData);
+  // ファイルごとにキャッシュを確認し、変更されたファイルのみ監査する
+  const fileKeys = new Map(files.map(file => [file.path, auditCacheKey(provider, profile, inputData, "file", renderFileDiff(file), contextFor([file.path]), guidance)]));
+  const cachedFiles = new Map<string, CachedFileResult>();
+  if (cache.read) {
+    files.forEach(file => {
+      const cached = readCache<CachedFileResult>(fileKeys.get(file.path)!);
+      if (cached) cachedFiles.set(file.path, cached);
+    });
+  }
+  const pendingFiles = files.filter(file => !cachedFiles.has(file.path));
+  const storeFileResult = (file: string, value: CachedFileResult) => {
+    if (cache.write) writeCache(fileKeys.get(file)!, "file", value);
+  };
+
+  // 差分が予算内に収まり、再利用できる結果もない場合は分割せずに処理
+  if (cachedFiles.size === 0 && estimateTokens(inputData.code_changes) <= budget) {
+    report("auditing", 0, `${files.length}ファイルを1リクエストで監査しています`);
+    const result = await sendSingleAuditRequest(inputData, profile, taskItems, provider, contextText, guidance, signal, usage, "single");
+    report("auditing", files.length, `${files.length}ファイルの監査が完了しました`);
+    files.forEach(file => storeFileResult(file.path, {
+      results: [{ label: file.path, result: forFile(result, file.path) }],
+      findings: result.findings
+        .map(finding => ({ ...finding, file: finding.file || (files.length === 1 ? file.path : finding.file) }))
+        .filter(finding => finding.file === file.path),
+    }));
+    if (cache.write) writeCache(auditKey, "audit", result);
+    return { ...result, ...cacheInfo([], files.map(file => file.path)) };
   }
   
-  // 差分が大きい場合、ファイルごとに分割して監査
-  console.log(`大きな差分データを${fileDiffs.size}個のファイルに分割して監査します`);
+  // ファイル・ハンク単位のチャンクに分割して監査（キャッシュを再利用したファイルは除く）
+  const chunks = planAuditChunks(pendingFiles, budget);
+  if (cachedFiles.size > 0) {
+    logger.info(`キャッシュ: ${cachedFiles.size}件のファイルは前回の監査結果を再利用します`);
+  }
+  logger.info(`差分データ（${pendingFiles.length}ファイル）を${chunks.length}個のリクエストに分割して監査します（予算: ${budget}トークン/リクエスト）`);
   
-  // 各ファイルの監査結果
-  const fileResults: {file: string, result: string}[] = [];
+  // ファイルごとの監査結果（分割されたファイルは複数の結果を持つ）
+  const fileResults = new Map<string, { label: string; result: AuditResult }[]>();
+  const findings: Finding[] = [];
+  const errors: AuditError[] = [];
+  const failedFiles = new Set<string>();
+  cachedFiles.forEach((cached, file) => {
+    fileResults.set(file, cached.results);
+    findings.push(...cached.findings);
+  });
   
-  // ファイルごとに監査を実行
-  for (const [filePath, diffContent] of fileDiffs.entries()) {
-    console.log(`ファイル "${filePath}" の監査を実行中...`);
+  // チャンクごとの監査を同時実行数を制限して並列に実行
+  const concurrency = getConcurrency();
+  logger.info(`同時実行数: ${concurrency}`);
+  const chunkLabels = chunks.map(chunk =>
+    chunk.parts.map(part => part.parts > 1 ? `${part.path} (${part.part}/${part.parts})` : part.path)
+  );
+
+  // ファイルごとの未完了パーツ数（すべてのパーツが終わったファイルを完了として数える）
+  const remainingParts = new Map<string, number>();
+  chunks.forEach(chunk => chunk.parts.forEach(part => {
+    remainingParts.set(part.path, (remainingParts.get(part.path) || 0) + 1);
+  }));
+  let filesDone = cachedFiles.size;
+  const markChunkDone = (index: number) => {
+    chunks[index].parts.forEach(part => {
+      const remaining = (remainingParts.get(part.path) || 1) - 1;
+      remainingParts.set(part.path, remaining);
+      if (remaining === 0) filesDone++;
+    });
+    report("auditing", filesDone, `チャンク ${index + 1}/${chunks.length} (${chunkLabels[index].join(", ")}) の監査が完了しました`);
+  };
+  report("auditing", filesDone, `${pendingFiles.length}ファイルを${chunks.length}個のリクエストに分割して監査しています`);
+
+  const settled = await runWithConcurrency(chunks, concurrency, async (chunk, index) => {
+    const labels = chunkLabels[index];
+    const isPartial = chunk.parts.some(part => part.parts > 1);
+    logger.info(`チャンク ${index + 1}/${chunks.length} (${labels.join(", ")}) の監査を実行中...`);
     
-    // ファイル単位のリクエストデータを作成
-    const fileRequest: AuditRequest = {
-      request: `${inputData.request} - ファイル: ${filePath}`,
-      modification_description: `${inputData.modification_description} - このリクエストはファイル "${filePath}" のみを対象としています。`,
-      code_changes: diffContent,
+    // チャンク単位のリクエストデータを作成
+    const chunkRequest: AuditRequest = {
+      request: inputData.request + texts.chunk.request(labels),
+      modification_description: inputData.modification_description + texts.chunk.description(labels)
+        + (isPartial ? texts.chunk.partial : ""),
+      code_changes: chunk.parts.map(part => part.diff).join('\n'),
       function_list: inputData.function_list,
-      changed_files: [filePath]
+      changed_files: chunk.parts.map(part => part.path)
     };
     
     try {
-      // 個別のファイルを監査
-      const fileAuditResult = await sendSingleAuditRequest(apiKey, fileRequest);
-      fileResults.push({
-        file: filePath,
-        result: fileAuditResult
-      });
-    } catch (err) {
-      console.error(`ファイル "${filePath}" の監査中にエラーが発生:`, err);
-      fileResults.push({
-        file: filePath,
-        result: `エラー: ${err instanceof Error ? err.message : String(err)}`
+      return await sendSingleAuditRequest(chunkRequest, profile, taskItems, provider, contextFor(chunkRequest.changed_files!), guidance, signal, usage, `chunk ${index + 1}/${chunks.length}: ${labels.join(", ")}`);
+    } finally {
+      markChunkDone(index);
+    }
+  }, signal);
+  throwIfCancelled(signal);
+  
+  // 結果はチャンクの順序で集計する
+  settled.forEach((outcome, index) => {
+    const chunk = chunks[index];
+    const labels = chunkLabels[index];
+    const paths = chunk.parts.map(part => part.path);
+    
+    if (outcome.status === "rejected") {
+      const err = outcome.reason;
+      logger.error(`チャンク ${index + 1}/${chunks.length} の監査中にエラーが発生:`, err);
+      paths.forEach(file => failedFiles.add(file));
+      labels.forEach(label => {
+        errors.push({
+          file: label,
+          message: err instanceof Error ? err.message : String(err)
+        });
       });
+      return;
     }
+    
+    const chunkResult = outcome.value;
+    chunk.parts.forEach((part, partIndex) => {
+      const results = fileResults.get(part.path) || [];
+      results.push({ label: labels[partIndex], result: chunkResult });
+      fileResults.set(part.path, results);
+    });
+    // 1ファイルのみのチャンクでファイルが特定されていない指摘には対象ファイルを補う
+    findings.push(...chunkResult.findings.map(finding => ({
+      ...finding,
+      file: finding.file || (paths.length === 1 ? paths[0] : finding.file),
+    })));
+  });
+  
+  // すべてのチャンクが失敗した場合は監査全体を失敗とする
+  if (fileResults.size === 0) {
+    throw new Error(`すべてのファイルの監査に失敗しました: ${errors[0]?.message ?? "不明なエラー"}`);
   }
+
+  // すべてのパーツを監査できたファイルの結果をキャッシュする
+  pendingFiles
+    .filter(file => !failedFiles.has(file.path) && fileResults.has(file.path))
+    .forEach(file => storeFileResult(file.path, {
+      results: fileResults.get(file.path)!.map(item => ({ label: item.label, result: forFile(item.result, file.path) })),
+      findings: findings.filter(finding => finding.file === file.path),
+    }));
   
-  // 各ファイルの結果を統合
-  const combinedResults = fileResults.map(item => 
-    `## ${item.file} の監査結果:\n\n${item.result}\n`
-  ).join('\n---\n\n');
+  // チャンクごとの結果をファイル単位に統合
+  const stitched = [...fileResults.entries()].map(([file, results]) => ({
+    file,
+    sections: mergeSections(results.map(item => ({ label: item.label, sections: item.result.sections }))),
+    findings: findings.filter(finding => finding.file === file),
+    function_list_update: [...new Set(results.map(item => item.result.function_list_update).filter(Boolean))].join('\n'),
+  }));
+
+  // チャンク（キャッシュしたファイルを含む）ごとの対応表を統合
+  const traceabilities = [...new Set([...fileResults.values()].flat().map(item => item.result))]
+    .map(result => result.traceability)
+    .filter((traceability): traceability is Traceability => traceability !== undefined);
+  const chunkTraceability = taskItems.length > 0 ? mergeTraceability(taskItems, traceabilities) : undefined;
   
   // 総合サマリーの生成
+  report("summarizing", filesDone, "監査結果のサマリーを生成しています");
   const summaryPrompt = `
-以下は、コード変更の各ファイルに対する監査結果です。これらの結果を総合的に分析し、変更全体に対する簡潔なサマリーを作成してください。
-問題点があれば箇条書きで指摘し、全体の評価を付けてください。
+${texts.summary.intro}
 
-変更の概要: ${inputData.modification_description}
+${texts.summary.description}: ${inputData.modification_description}
 
-ファイル監査結果:
-${fileResults.map(item => `- ${item.file}: ${item.result.substring(0, 100)}...`).join('\n')}
+${texts.summary.fileResults}:
+${JSON.stringify(stitched.map(item => ({ file: item.file, sections: item.sections, findings: item.findings })), null, 2)}
+
+${texts.summary.failedFiles}:
+${errors.map(error => `- ${error.file}: ${error.message}`).join('\n') || texts.userPrompt.none}
+
+${texts.summary.functionListUpdates}:
+${stitched.filter(item => item.function_list_update).map(item => `- ${item.file}: ${item.function_list_update}`).join('\n') || texts.userPrompt.none}
+${chunkTraceability ? `
+${texts.traceability.summaryInput}:
+${JSON.stringify(chunkTraceability, null, 2)}
+
+${texts.traceability.summaryInstruction}
+` : ""}
+${texts.summary.formatInstruction}
+${buildResultFormat(profile, chunkTraceability !== undefined)}
 `;
 
   // サマリー生成リクエスト
-  const summaryResult = await callCompletion([
+  const summaryResult = parseAuditResult(await callCompletion([
     {
       role: "system", 
-      content: "あなたはコード監査の専門家です。複数のファイル監査結果を統合して、全体の評価を提供してください。"
+      content: texts.summary.system
     },
     { role: "user", content: summaryPrompt }
-  ]);
+  ], signal, usage, "summary", provider), profile);
   
-  // 最終的な監査レポート
-  return `# 監査サマリー\n\n${summaryResult}\n\n# 詳細な監査結果\n\n${combinedResults}`;
+  // 最終的な監査結果（監査できなかった差分がない場合は全体の結果もキャッシュする）
+  const result: AuditResult = {
+    sections: summaryResult.sections,
+    findings: [...summaryResult.findings, ...findings],
+    function_list_update: summaryResult.function_list_update,
+    errors,
+    ...(chunkTraceability
+      ? { traceability: mergeTraceability(taskItems, traceabilities, summaryResult.traceability) }
+      : {}),
+  };
+  if (cache.write && errors.length === 0) {
+    writeCache(auditKey, "audit", result);
+  }
+  return {
+    ...result,
+    ...cacheInfo([...cachedFiles.keys()], pendingFiles.map(file => file.path)),
+  };
+}
+
+/**
+ * 複数のプロバイダ（モデル）で同じ監査を行い、指摘を突き合わせる
+ * セクションはモデルごとの判定を統合し、要件トレーサビリティと function_list 更新案は最初のモデルの結果を使う
+ */
+async function callConsensusAudit(inputData: AuditRequest, options: AuditOptions = {}): Promise<AuditResult> {
+  const providers = (inputData.providers || []).map(name => getProvider(name));
+  const minAgreement = inputData.min_agreement ?? defaultMinAgreement(providers.length);
+  if (minAgreement < 1 || minAgreement > providers.length) {
+    throw new Error(`min_agreement は1以上、プロバイダ数（${providers.length}）以下で指定してください: ${minAgreement}`);
+  }
+  const models = providers.map(provider => `${provider.name}/${provider.model}`);
+  logger.info(`合議モード: ${models.join(", ")} で監査します（${minAgreement}モデル以上が指摘したものを採用）`);
+
+  // モデルごとの監査を並列に実行（進捗のメッセージにはモデル名を付ける）
+  const { onProgress } = options;
+  const settled = await Promise.allSettled(providers.map((provider, index) => callOpenAIAudit(inputData, {
+    ...options,
+    provider,
+    onProgress: onProgress && (progress => onProgress({ ...progress, message: `[${models[index]}] ${progress.message}` })),
+  })));
+  throwIfCancelled(options.signal);
+
+  const results: { model: string; result: AuditResult }[] = [];
+  const failed: { model: string; message: string }[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "fulfilled") {
+      results.push({ model: models[index], result: outcome.value });
+    } else {
+      logger.error(`${models[index]} での監査に失敗しました:`, outcome.reason);
+      failed.push({ model: models[index], message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) });
+    }
+  });
+  if (results.length === 0) {
+    throw new Error(`すべてのモデルで監査に失敗しました: ${failed[0]?.message ?? "不明なエラー"}`);
+  }
+  if (results.length < minAgreement) {
+    logger.warn(`監査できたモデルが${results.length}個のため、min_agreement（${minAgreement}）を満たす指摘はありません`);
+  }
+
+  const { accepted, dropped } = reconcileFindings(
+    results.map(item => ({ model: item.model, findings: item.result.findings })),
+    minAgreement
+  );
+  logger.info(`合議モード: ${accepted.length}件の指摘を採用、${dropped.length}件を除外しました`);
+
+  const [primary] = results;
+  return {
+    sections: mergeSections(results.map(item => ({ label: item.model, sections: item.result.sections }))),
+    findings: accepted,
+    function_list_update: primary.result.function_list_update,
+    // 監査できなかったモデルも監査エラーとして扱う（ステータスは partial）
+    errors: [
+      ...results.flatMap(item => (item.result.errors || []).map(error => ({ ...error, file: `[${item.model}] ${error.file}` }))),
+      ...failed.map(item => ({ file: `[${item.model}]`, message: item.message })),
+    ],
+    ...(primary.result.traceability ? { traceability: primary.result.traceability } : {}),
+    consensus: { models: results.map(item => item.model), min_agreement: minAgreement, dropped, failed },
+  };
+}
+
+/**
+ * 監査用のシステムプロンプトをプロファイルから作成する
+ * （監査観点・重要度の基準・プロジェクト固有のルール・ルールパックの確認事項・出力形式）
+ * traceability を指定した場合は要件項目ごとの対応状況も出力させる
+ */
+function buildSystemPrompt(profile: AuditProfile, traceability: boolean, guidance = ""): string {
+  const texts = PROFILE_TEXTS[profile.language];
+  const viewpoints = profile.sections
+    .filter(section => section.key !== OVERALL_SECTION_KEY)
+    .map((section, index) => `${index + 1}. ${section.instruction}`);
+  const severities = (["high", "medium", "low"] as const)
+    .map(severity => `- ${severity}: ${profile.severityScale[severity]}`);
+  const rules = profile.rules.length > 0
+    ? `\n${texts.rulesHeading}\n${profile.rules.map(rule => `- ${rule}`).join("\n")}\n`
+    : "";
+  const guidelines = traceability ? [...texts.guidelines, texts.traceability.guideline] : texts.guidelines;
+
+  return `${texts.systemPromptIntro}
+
+${texts.viewpointsHeading}
+${viewpoints.join("\n")}
+
+${texts.severityHeading}
+${severities.join("\n")}
+${rules}${guidance ? `\n${guidance}\n` : ""}
+${texts.formatInstruction}
+
+${buildResultFormat(profile, traceability)}
+
+${guidelines.map(line => `- ${line}`).join("\n")}`;
 }
 
 /**
  * 単一のOpenAI監査リクエストを送信する
+ * 要件項目がある場合は、結果の対応表を要件項目に合わせて整える
+ * contextText（リポジトリから集めたコンテキスト）は差分の前に含める
+ * guidance（ルールパックの確認事項）はシステムプロンプトに含める
  */
-async function sendSingleAuditRequest(apiKey: string, inputData: AuditRequest): Promise<string> {
+async function sendSingleAuditRequest(
+  inputData: AuditRequest,
+  profile: AuditProfile,
+  taskItems: TaskItem[],
+  provider: CompletionProvider,
+  contextText: string,
+  guidance: string,
+  signal?: AbortSignal,
+  usage?: UsageTracker,
+  label = "single"
+): Promise<AuditResult> {
   // ChatCompletion 用のプロンプトを用意
-  const messages = [
+  const texts = PROFILE_TEXTS[profile.language].userPrompt;
+  const traceability = taskItems.length > 0;
+  const taskItemsPrompt = traceability
+    ? `\n${PROFILE_TEXTS[profile.language].traceability.taskItems}:\n${taskItems.map(item => `${item.id}: ${item.text}`).join("\n")}\n`
+    : "";
+  // 機密情報をマスクした箇所がある場合は、マスクの表記を指摘しないよう伝える
+  const redactionNote = [inputData.code_changes, inputData.function_list, contextText].some(text => text.includes(REDACTION_MARKER))
+    ? `\n${PROFILE_TEXTS[profile.language].redaction.promptNote}\n`
+    : "";
+  const messages: ChatMessage[] = [
     {
       role: "system",
-      content: `あなたはソフトウェア監査ツールです。与えられた「リクエスト」「変更内容」「差分」「function_list」「変更ファイル一覧」を確認し、下記の観点で監査してください：
-
-【重要な監査観点】
-1. 指示していない変更がないか（修正内容に記載されていない変更が行われていないか）
-2. 既存機能が削除されていないか（特にfunction_list.txtに記載されている機能が失われていないか）
-3. TODO / FIXME が残っていないか
-4. 修正内容とコードの差分に整合性があるか（修正内容で述べられていることと実際のコード変更が一致しているか）
-5. 修正内容に記載されている目的が適切に実装されているか
-
-必ず以下の形式で監査レポートを作成してください：
-
-# コード監査レポート
-
-## 1. 指示していない変更
-[指示していない変更の有無とその詳細を記載。なければ「指示していない変更は見つかりませんでした。」と記載]
-
-## 2. 既存機能の削除
-[既存機能が削除されていないか、特にfunction_list.txtに記載されている機能が失われていないか確認した結果を記載]
-
-## 3. TODO/FIXME の残存
-[TODO/FIXMEコメントの有無とその詳細を記載。なければ「残存しているTODO/FIXMEコメントは見つかりませんでした。」と記載]
-
-## 4. 修正内容との整合性
-[修正内容の説明と実際のコード変更が一致しているか詳細に分析した結果を記載]
-
-## 5. 目的の実装状況
-[修正内容に記載されている目的が適切に実装されているか詳細に確認した結果を記載]
-
-## 6. 技術的問題点
-[コード品質、パフォーマンス、セキュリティなどの技術的観点での問題点があれば箇条書きで指摘]
-- 問題点1 [重要度: 高/中/低]
-- 問題点2 [重要度: 高/中/低]
-- ...
-
-## 7. 総合評価
-[監査全体の総合評価と、改善すべき重要な点を簡潔にまとめる]
-
-## function_list.txt更新案
-[今回の修正に関連してfunction_list.txtに追加・更新すべき内容。関数の振る舞いが正確に理解できるような詳細な説明と、変更されたプロンプトがある場合はそのプロンプトも含める]
-
-上記の各セクションは必ず含め、具体的かつ詳細な情報を提供してください。特に修正内容との整合性と目的の実装状況については詳細に分析してください。`,
+      content: buildSystemPrompt(profile, traceability, guidance),
     },
     {
       role: "user",
       content: `
-【リクエスト】:
+${texts.request}:
 ${inputData.request}
 
-【修正内容の概要】:
+${texts.description}:
 ${inputData.modification_description}
+${taskItemsPrompt}
+${texts.changedFiles}:
+${(inputData.changed_files || []).join("\n") || texts.none}
 
-【変更されたファイル】:
-${(inputData.changed_files || []).join("\n") || "（なし）"}
-
-【function_list.txt の内容】:
+${texts.functionList}:
 \`\`\`
 ${inputData.function_list}
 \`\`\`
-
-【コード差分】:
+${contextText ? `\n${contextText}\n` : ""}${redactionNote}
+${texts.diff}:
 \`\`\`diff
 ${inputData.code_changes}
 \`\`\`
@@ -258,202 +625,200 @@ ${inputData.code_changes}
     },
   ];
 
-  return await callCompletion(messages);
+  const { traceability: traced, ...result } = parseAuditResult(await callCompletion(messages, signal, usage, label, provider), profile);
+  return traceability ? { ...result, traceability: normalizeTraceability(traced, taskItems) } : result;
 }
 
 /**
- * AIプロバイダに応じてメッセージを送信する
+ * AIプロバイダ（省略時は設定されたプロバイダ）にメッセージを送信する
+ * 429 / 5xx / タイムアウトなどの一時的なエラーは指数バックオフでリトライする
+ * usage を指定した場合は、トークン数・レイテンシ・コストを label とともに記録する
+ * 送信前にメッセージに含まれる機密情報をマスクする（refuse モードの場合は送信せずにエラー）
  */
-async function callCompletion(messages: any[]): Promise<string> {
-  const provider = getAIProvider();
-  
-  console.log(`AIプロバイダ: ${provider} を使用します`);
-  
-  // プロバイダに応じた関数を呼び出す
-  switch (provider) {
-    case AIProvider.OPENAI:
-      const openAiKey = process.env.OPENAI_API_KEY;
-      if (!openAiKey) throw new Error("環境変数 OPENAI_API_KEY が設定されていません。");
-      return await callOpenAICompletion(openAiKey, messages);
-      
-    case AIProvider.DEEPSEEK:
-      const deepseekKey = process.env.DEEPSEEK_API_KEY;
-      if (!deepseekKey) throw new Error("環境変数 DEEPSEEK_API_KEY が設定されていません。");
-      return await callDeepSeekCompletion(deepseekKey, messages);
-      
-    default:
-      throw new Error(`未対応のAIプロバイダです: ${provider}`);
+export async function callCompletion(
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  usage?: UsageTracker,
+  label = "completion",
+  provider: CompletionProvider = getProvider()
+): Promise<string> {
+
+  logger.info(`AIプロバイダ: ${provider.name} (モデル: ${provider.model}) を使用します`);
+
+  // 監査の入力は performAudit でマスク済みのため、ここで見つかるのは修正案・追加の質問で読み込んだ内容など
+  const redacted = redactMessages(messages);
+  if (redacted.redactions.length > 0) {
+    assertNoSecrets(redacted.redactions);
+    logger.warn(`送信するメッセージに含まれる機密情報らしき値${redacted.redactions.length}件をマスクしました (${label})`);
+    messages = redacted.messages;
   }
-}
-
-/**
- * OpenAI API に対して汎用的なメッセージを送信する
- */
-async function callOpenAICompletion(apiKey: string, messages: any[]): Promise<string> {
-  const apiUrl = "https://api.openai.com/v1/chat/completions";
-  const modelName = getOpenAIModelName();
   
-  console.log(`OpenAI APIにリクエスト送信: モデル=${modelName}`);
-
-  // リクエストボディを作成
-  const requestBody = {
-    model: modelName,
-    messages,
-    max_tokens: 1500,
-    temperature: 0.2,
-  };
-
-  // リクエスト内容をログに出力
-  console.log("===== OpenAI APIリクエスト内容 =====");
-  console.log(JSON.stringify(requestBody, null, 2));
-  console.log("===================================");
-
-  // OpenAI API (ChatCompletion) 呼び出し
-  const response = await fetch(apiUrl, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenAI API エラー: ${response.status}\n${errText}`);
+  const startTime = Date.now();
+  const result = await withRetry(() => provider.complete(messages, { signal }), getRetryOptions(provider.name, signal));
+  const record = usage?.record(label, provider, messages, result.content, result.usage, Date.now() - startTime);
+  if (record) {
+    logger.debug(`トークン数 (${label}): 入力 ${record.promptTokens} / 出力 ${record.completionTokens}${record.estimated ? "（見積もり）" : ""}`);
   }
-
-  // 応答JSONをパース
-  type OpenAIResponse = {
-    choices?: Array<{
-      message?: {
-        content?: string;
-      };
-    }>;
-  };
-
-  const jsonData = (await response.json()) as OpenAIResponse;
-  const responseContent = jsonData.choices?.[0]?.message?.content || "";
-
-  // レスポンス受信のログを出力
-  console.log("===== OpenAI APIレスポンス受信完了 =====");
-  console.log(`レスポンス長: ${responseContent.length}文字`);
-  console.log("レスポンスの先頭100文字: " + responseContent.substring(0, 100) + "...");
-  console.log("========================================");
-
-  return responseContent;
+  return result.content;
 }
 
 /**
- * DeepSeek API に対してメッセージを送信する
+ * 監査を実行し、レポートを生成・保存する
  */
-async function callDeepSeekCompletion(apiKey: string, messages: any[]): Promise<string> {
-  const apiUrl = "https://api.deepseek.com/v1/chat/completions";
-  const modelName = getDeepSeekModelName();
-  
-  console.log(`DeepSeek APIにリクエスト送信: モデル=${modelName}`);
-
-  // リクエストボディを作成
-  const requestBody = {
-    model: modelName,
-    messages,
-    max_tokens: 1500,
-    temperature: 0.2,
-  };
-
-  // リクエスト内容をログに出力
-  console.log("===== DeepSeek APIリクエスト内容 =====");
-  console.log(JSON.stringify(requestBody, null, 2));
-  console.log("======================================");
-
-  // OpenAI互換のリクエスト形式でDeepSeek APIを呼び出し
-  const response = await fetch(apiUrl, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`DeepSeek API エラー: ${response.status}\n${errText}`);
-  }
-
-  // 応答JSONをパース（OpenAI互換のレスポンス形式）
-  type DeepSeekResponse = {
-    choices?: Array<{
-      message?: {
-        content?: string;
-      };
-    }>;
-  };
-
-  const jsonData = (await response.json()) as DeepSeekResponse;
-  const responseContent = jsonData.choices?.[0]?.message?.content || "";
-
-  // レスポンス受信のログを出力
-  console.log("===== DeepSeek APIレスポンス受信完了 =====");
-  console.log(`レスポンス長: ${responseContent.length}文字`);
-  console.log("レスポンスの先頭100文字: " + responseContent.substring(0, 100) + "...");
-  console.log("==========================================");
+export async function performAudit(params: AuditRequest, options: AuditOptions = {}): Promise<AuditResponse> {
+  const { signal, onProgress } = options;
+  try {
+    logger.info("コード監査を開始します...");
+    const startTime = Date.now();
+    const usage = createUsageTracker();
+    const profile = getAuditProfile(params.profile);
+    logger.info(`監査プロファイル: ${profile.name}`);
+    const fileDiffs = splitDiffByFiles(params.code_changes);
+    const report = (stage: AuditStage, filesDone: number, message: string) =>
+      onProgress?.({ stage, filesDone, filesTotal: fileDiffs.size, message });
+    report("started", 0, "監査を開始しました");
+
+    // 変更後のファイル内容・参照しているシンボルの定義・呼び出し箇所を集める（enrich_context 指定時）
+    // (LLMを使用しない場合は移動・名前の変更の検出のみ)
+    const provider = params.llm === false ? undefined : getProvider(params.providers?.[0]);
+    let context: AuditContext | undefined;
+    if (params.enrich_context) {
+      report("context", 0, "コンテキストを収集しています");
+      context = await buildAuditContext(params.code_changes, {
+        target: provider ? resolveContextTarget(params.patch_target, params.repo_path) : undefined,
+        maxTokens: provider ? getContextTokenBudget(provider) : 0,
+        signal,
+      });
+      throwIfCancelled(signal);
+    }
 
-  return responseContent;
-}
+    // LLMへの送信・レポートの保存の前に機密情報をマスク（refuse モードでLLMを使用する場合は監査を中止）
+    // (ローカルチェックと修正パッチの検証はマスク前の差分で行う)
+    const { params: redactedParams, redactions } = redactAuditRequest(params);
+    if (context) {
+      const redactedContext = redactAuditContext(context);
+      context = redactedContext.context;
+      redactions.push(...redactedContext.redactions);
+    }
+    if (provider) {
+      assertNoSecrets(redactions);
+    }
+    if (redactions.length > 0) {
+      logger.warn(`機密情報らしき値${redactions.length}件をマスクしました`);
+    }
 
-/**
- * 監査レポートを保存する
- */
-export function saveAuditReport(aiReport: string): string {
-  // レポートをファイルに保存 (./audits/reports/配下)
-  const reportsDir = path.join(__dirname, "audits", "reports");
-  if (!fs.existsSync(reportsDir)) {
-    fs.mkdirSync(reportsDir, { recursive: true });
-  }
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const reportPath = path.join(reportsDir, `audit-report-${timestamp}.txt`);
+    // 差分のファイルの種類（TypeScript・SQLマイグレーション・Dockerfile など）に応じたルールパックを選ぶ
+    const rulePacks = selectRulePacks(fileDiffs);
+    if (rulePacks.length > 0) {
+      logger.info(`ルールパック: ${rulePacks.map(({ pack }) => pack.id).join(", ")}`);
+    }
 
-  fs.writeFileSync(reportPath, aiReport, "utf8");
-  return reportPath;
-}
+    // LLMを使わずに確認できる観点をローカルルールでチェック（ルールパックのルールは対象のファイルのみ）
+    report("rules", 0, "ローカルチェックを実行しています");
+    // (プロファイルにないセクションの指摘は総合評価に分類)
+    // (指摘のメッセージには追加行の内容を含むものがあるため、メッセージもマスクする)
+    const ruleFindings = normalizeFindingCategories(runLocalRules({
+      fileDiffs,
+      functionList: params.function_list,
+      changedFiles: params.changed_files,
+      moves: context?.moves,
+    }, [...BUILTIN_RULES, ...getRulePackRules(rulePacks)]), profile).map(finding => ({ ...finding, message: redactText(finding.message, "finding").text }));
+    logger.info(`ローカルチェック: ${ruleFindings.length}件の指摘`);
+
+    // LLMへ監査依頼を送り、構造化された結果にローカルチェックの指摘を統合
+    // (llm: false の場合はローカルチェックの結果のみ)
+    // (providers を複数指定した場合は各モデルで監査して指摘を突き合わせる)
+    let auditResult = params.llm === false
+      ? buildRuleOnlyResult(ruleFindings, profile)
+      : mergeRuleFindings(
+        params.providers && params.providers.length > 1
+          ? await callConsensusAudit(redactedParams, { ...options, usage, profile, context, rulePacks })
+          : await callOpenAIAudit(redactedParams, { ...options, usage, profile, provider, context, rulePacks }),
+        ruleFindings
+      );
+    throwIfCancelled(signal);
+    if (context) {
+      auditResult = { ...auditResult, enrichment: summarizeAuditContext(context) };
+    }
+    if (rulePacks.length > 0) {
+      auditResult = { ...auditResult, rule_packs: summarizeRulePacks(rulePacks) };
+    }
+    if (redactions.length > 0) {
+      auditResult = { ...auditResult, redactions };
+    }
 
-/**
- * 監査を実行し、レポートを生成・保存する
- */
-export async function performAudit(params: AuditRequest): Promise<{
-  status: string;
-  message: string;
-  reportPath: string;
-  aiReport: string;
-}> {
-  try {
-    console.log("コード監査を開始します...");
-    const startTime = Date.now();
+    // 指摘ごとの修正パッチ（LLMを使用しない場合は作成しない）
+    if (params.suggest_fixes && params.llm !== false) {
+      report("fixing", fileDiffs.size, "指摘の修正案を作成しています");
+      auditResult = await suggestFixes(auditResult, params, profile,
+        (messages, label) => callCompletion(messages, signal, usage, label, provider), signal);
+    }
 
-    // OpenAI GPT へ監査依頼を送り、結果を取得
-    const aiReport = await callOpenAIAudit(params);
+    // 構造化された結果からMarkdownレポートを生成
+    const aiReport = renderAuditMarkdown(auditResult, profile);
+
+    // 一部のファイルを監査できなかった場合は partial とする
+    const failedCount = auditResult.errors?.length ?? 0;
+    const status = failedCount > 0 ? "partial" : "success";
+
+    // レポートをメタデータとともにレポートストアへ保存
+    report("saving", fileDiffs.size, "監査レポートを保存しています");
+    const usageSummary = usage.summary();
+    const metadata: ReportMetadata = {
+      request: redactedParams.request,
+      modification_description: redactedParams.modification_description,
+      changed_files: params.changed_files?.length ? params.changed_files : [...fileDiffs.keys()],
+      commit_sha: params.commit_sha,
+      branch: params.branch,
+      provider: provider?.name,
+      model: provider?.model,
+      llm: params.llm !== false,
+      profile: profile.name,
+      status,
+      duration_ms: Date.now() - startTime,
+      finding_counts: countFindings(auditResult.findings),
+      usage: usageSummary,
+    };
+    const { id: reportId, reportPath } = saveReport(metadata, auditResult, aiReport, {
+      code_changes: redactedParams.code_changes,
+      function_list: redactedParams.function_list,
+    });
 
-    // レポートをファイルに保存
-    const reportPath = saveAuditReport(aiReport);
+    // 設定した通知先に結果を通知（監査の応答は通知の完了を待たない）
+    void notifyAuditCompleted(reportId, metadata, auditResult, reportPath);
 
     // 処理にかかった時間を計算（秒単位）
     const processingTime = (Date.now() - startTime) / 1000;
 
-    console.log(`===== 監査完了 =====`);
-    console.log(`処理時間: ${processingTime.toFixed(2)}秒`);
-    console.log(`レポート保存先: ${reportPath}`);
-    console.log(`レポート長: ${aiReport.length}文字`);
-    console.log(`====================`);
+    logger.info(`===== 監査完了 =====`);
+    logger.info(`処理時間: ${processingTime.toFixed(2)}秒`);
+    logger.info(`レポートID: ${reportId}`);
+    logger.info(`レポート保存先: ${reportPath}`);
+    logger.info(`レポート長: ${aiReport.length}文字`);
+    logger.info(`指摘件数: ${auditResult.findings.length}件`);
+    if (usageSummary.calls > 0) {
+      logger.info(`トークン数: ${usageSummary.totalTokens}（入力 ${usageSummary.promptTokens} / 出力 ${usageSummary.completionTokens}、${usageSummary.calls}回の呼び出し）`);
+      logger.info(`コスト: ${usageSummary.cost.toFixed(4)}`);
+    }
+    if (failedCount > 0) {
+      logger.info(`監査できなかった差分: ${failedCount}件`);
+    }
+    logger.info(`====================`);
+    report("done", fileDiffs.size, "監査が完了しました");
 
     return {
-      status: "success",
-      message: "監査レポートを生成しました。",
+      status,
+      message: failedCount > 0
+        ? `監査レポートを生成しましたが、${failedCount}件の差分（ファイルまたはその一部）を監査できませんでした。`
+        : "監査レポートを生成しました。",
+      reportId,
       reportPath,
       aiReport,
+      auditResult,
+      usage: usageSummary,
     };
   } catch (error) {
-    console.error("監査中にエラーが発生しました:", error);
+    logger.error("監査中にエラーが発生しました:", error);
     throw error;
   }
-} 
\ No newline at end of file
+}
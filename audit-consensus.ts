@@ -0,0 +1,86 @@
+import { Finding, Severity, SEVERITY_ORDER } from "./audit-result.js";
+
+/**
+ * audit-consensus.ts
+ *
+ * 複数のモデルで同じ監査を行った結果の指摘を突き合わせるモジュールです（監査リクエストの providers）。
+ *
+ * ファイル・カテゴリが同じで、行範囲が重なるか近い指摘（行が特定されていない場合は行のない指摘同士）を
+ * 同じ問題とみなし、何個のモデルが指摘したか（agreement）を数えます。
+ * 指摘したモデル数が min_agreement 未満の指摘は、最終的な結果から除外します。
+ */
+
+/**
+ * モデルごとの指摘
+ */
+export interface ModelFindings {
+  model: string;       // "プロバイダ名/モデル名"
+  findings: Finding[];
+}
+
+/**
+ * 突き合わせの結果
+ */
+export interface ReconciledFindings {
+  accepted: Finding[];  // min_agreement 以上のモデルが指摘したもの
+  dropped: Finding[];   // 指摘したモデルが min_agreement 未満のもの
+}
+
+// 同じ指摘とみなす行範囲のずれの許容行数
+const LOCATION_TOLERANCE_LINES = 3;
+
+/**
+ * 2つの指摘が同じ問題を指しているか
+ */
+function isSameIssue(a: Finding, b: Finding): boolean {
+  if ((a.file || "") !== (b.file || "") || a.category !== b.category) {
+    return false;
+  }
+  if (a.line_start == null || b.line_start == null) {
+    return a.line_start == null && b.line_start == null;
+  }
+  const aEnd = a.line_end ?? a.line_start;
+  const bEnd = b.line_end ?? b.line_start;
+  return a.line_start <= bEnd + LOCATION_TOLERANCE_LINES && b.line_start <= aEnd + LOCATION_TOLERANCE_LINES;
+}
+
+/**
+ * 既定の min_agreement（過半数）
+ */
+export function defaultMinAgreement(modelCount: number): number {
+  return Math.floor(modelCount / 2) + 1;
+}
+
+/**
+ * モデルごとの指摘を突き合わせる
+ * 同じ問題の指摘は最初のモデルの指摘を代表とし、重要度は各モデルのうち最も高いものを採用する
+ * （1つのモデルの近い位置の指摘は、別の問題として扱う）
+ */
+export function reconcileFindings(results: ModelFindings[], minAgreement: number): ReconciledFindings {
+  const clusters: { finding: Finding; severity: Severity; models: string[] }[] = [];
+
+  results.forEach(({ model, findings }) => {
+    findings.forEach(finding => {
+      const cluster = clusters.find(candidate => !candidate.models.includes(model) && isSameIssue(candidate.finding, finding));
+      if (!cluster) {
+        clusters.push({ finding, severity: finding.severity, models: [model] });
+        return;
+      }
+      if (SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(cluster.severity)) {
+        cluster.severity = finding.severity;
+      }
+      cluster.models.push(model);
+    });
+  });
+
+  const reconciled = clusters.map(cluster => ({
+    ...cluster.finding,
+    severity: cluster.severity,
+    agreement: cluster.models.length,
+    models: cluster.models,
+  }));
+  return {
+    accepted: reconciled.filter(finding => finding.agreement >= minAgreement),
+    dropped: reconciled.filter(finding => finding.agreement < minAgreement),
+  };
+}
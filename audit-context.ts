@@ -0,0 +1,494 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { DiffFile, estimateTokens, parseUnifiedDiff } from "./audit-diff.js";
+import { DetectedMove, Enrichment, formatMove } from "./audit-result.js";
+import { PatchTarget, readTargetFile } from "./audit-patches.js";
+import { extractDeclarationName } from "./audit-rules.js";
+import { loadAuditIgnore, resolveRepoPath } from "./audit-git.js";
+import { CompletionProvider } from "./audit-providers.js";
+import { AuditProfile, PROFILE_TEXTS } from "./audit-profiles.js";
+import { throwIfCancelled } from "./audit-scheduler.js";
+import { logger } from "./audit-logger.js";
+import type { AuditRequest } from "./audit-common.js";
+
+/**
+ * audit-context.ts
+ *
+ * 差分だけでは判断できない情報をリポジトリから集めて監査に含めるモジュールです（監査リクエストの enrich_context）。
+ *
+ *  - 変更したファイルの変更後の内容（トークン数の上限を超える場合は変更箇所の周辺のみ）
+ *  - 追加した行が参照しているシンボル（呼び出している関数・クラス）の定義
+ *  - 変更・削除した宣言の呼び出し箇所（git grep でリポジトリ全体から検索）
+ *  - 宣言・ファイルの移動と名前の変更（差分のみから検出し、既存機能の削除として扱わない）
+ *
+ * リポジトリは audit_git の場合は監査したツリー（作業ツリー / ステージング / コミット）、
+ * audit の場合は repo_path で指定した作業ツリーです。リポジトリがない場合は移動・名前の変更のみ検出します。
+ */
+
+/**
+ * 変更後のファイル内容（行番号付き）
+ */
+export interface ContextFile {
+  path: string;
+  content: string;
+  truncated: boolean;  // 変更箇所の周辺のみの場合は true
+}
+
+/**
+ * シンボルの定義または呼び出し箇所
+ */
+export interface ContextSnippet {
+  symbol: string;
+  file: string;
+  line: number;
+  text: string;
+  sources: string[];  // このシンボルを参照・宣言している差分のファイル
+}
+
+/**
+ * 監査に含めるコンテキスト
+ */
+export interface AuditContext {
+  files: ContextFile[];
+  definitions: ContextSnippet[];
+  call_sites: ContextSnippet[];
+  moves: DetectedMove[];
+}
+
+// コンテキストに割り当てるトークン数のデフォルト（AUDIT_CONTEXT_TOKENS で変更可能）
+const DEFAULT_CONTEXT_TOKENS = 6000;
+// 定義・呼び出し箇所を検索するシンボルの上限
+const MAX_SYMBOLS = 20;
+// シンボルごとの呼び出し箇所の上限
+const MAX_CALL_SITES_PER_SYMBOL = 10;
+// 定義として含める行数
+const DEFINITION_LINES = 15;
+// ファイル全体を含められない場合に含める変更箇所の前後の行数
+const EXCERPT_LINES = 20;
+// 定義・呼び出し箇所にそれぞれ割り当てるコンテキストの割合（残りはファイル内容）
+const SNIPPET_SHARE = 0.25;
+// 名前の変更・ファイルの移動とみなす内容の類似度
+const MOVE_SIMILARITY = 0.6;
+// 名前の変更を検出する宣言の最小行数（短い宣言は偶然似ることが多いため）
+const MIN_RENAME_LINES = 3;
+
+// 呼び出しとして検出しても定義を探さない識別子
+const IGNORED_IDENTIFIERS = new Set([
+  "if", "for", "while", "switch", "catch", "function", "return", "typeof", "super", "import", "require",
+  "await", "async", "new", "constructor", "print", "len", "str", "int", "dict", "list", "set",
+]);
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * コンテキストに割り当てるトークン数を求める（差分のための予算を残すため、モデルの入力の1/4まで）
+ */
+export function getContextTokenBudget(provider: CompletionProvider): number {
+  const configured = parseInt(process.env.AUDIT_CONTEXT_TOKENS || "", 10);
+  const limit = Number.isNaN(configured) ? DEFAULT_CONTEXT_TOKENS : configured;
+  return Math.max(Math.min(limit, Math.floor((provider.contextTokens - provider.maxOutputTokens) / 4)), 0);
+}
+
+/**
+ * audit の repo_path（enrich_context でコンテキストを読むリポジトリ）を受け付けられるか、監査の開始前に確認する
+ * remote: HTTP経由のリクエスト（AUDIT_GIT_ROOTS を設定していない場合は repo_path を受け付けない）
+ */
+export function assertContextRepoPath(params: AuditRequest, options: { remote?: boolean }): void {
+  if (params.enrich_context && params.repo_path && !params.patch_target) {
+    resolveRepoPath(params.repo_path, options);
+  }
+}
+
+/**
+ * コンテキストを取得するリポジトリを決める
+ * audit_git の場合は監査したツリー、audit の場合は repo_path の作業ツリー（AUDIT_GIT_ROOTS の範囲外は拒否）
+ */
+export function resolveContextTarget(patchTarget?: PatchTarget, repoPath?: string): PatchTarget | undefined {
+  if (patchTarget) return patchTarget;
+  return repoPath ? { repo_path: resolveRepoPath(repoPath), tree: "working_tree" } : undefined;
+}
+
+/**
+ * 差分に含まれる宣言（追加行・削除行のうち宣言の行と、それに続く同じ種類の行）
+ */
+interface DiffDeclaration {
+  name: string;
+  file: string;
+  type: "add" | "remove";
+  body: string[];
+}
+
+/**
+ * 差分から追加・削除された宣言を取り出す
+ */
+function collectDeclarations(files: DiffFile[]): DiffDeclaration[] {
+  const declarations: DiffDeclaration[] = [];
+  files.forEach(file => file.hunks.forEach(hunk => {
+    let current: DiffDeclaration | undefined;
+    hunk.lines.forEach(line => {
+      if (line.startsWith("\\")) return;
+      const type = line.startsWith("+") ? "add" : line.startsWith("-") ? "remove" : undefined;
+      if (!type) {
+        current = undefined;
+        return;
+      }
+      const content = line.substring(1);
+      const name = extractDeclarationName(content);
+      if (name) {
+        current = { name, file: file.path, type, body: [] };
+        declarations.push(current);
+      } else if (current && current.type !== type) {
+        current = undefined;
+      }
+      if (current && content.trim()) current.body.push(content.trim());
+    });
+  }));
+  return declarations;
+}
+
+/**
+ * 2つの行の集まりの類似度（0〜1）
+ */
+function similarity(a: string[], b: string[]): number {
+  const setA = new Set(a.filter(Boolean));
+  const setB = new Set(b.filter(Boolean));
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const common = [...setA].filter(line => setB.has(line)).length;
+  return (2 * common) / (setA.size + setB.size);
+}
+
+/**
+ * ファイルの差分から追加行または削除行の内容を取り出す
+ */
+function changedLines(file: DiffFile, prefix: "+" | "-"): string[] {
+  return file.hunks.flatMap(hunk => hunk.lines.filter(line => line.startsWith(prefix)).map(line => line.substring(1).trim()));
+}
+
+/**
+ * 差分からファイル・宣言の移動と名前の変更を検出する
+ *  - ファイル: git がリネームとして出力した差分、または削除したファイルとほぼ同じ内容のファイルの追加
+ *  - 宣言: 別のファイルに同じ名前で追加された宣言（移動）、本体がほぼ同じで名前だけ異なる宣言（名前の変更）
+ */
+export function detectMoves(files: DiffFile[]): DetectedMove[] {
+  const moves: DetectedMove[] = [];
+  files
+    .filter(file => file.status === "renamed" && file.oldPath && file.newPath)
+    .forEach(file => moves.push({ kind: "moved", from: file.oldPath!, to: file.newPath! }));
+  const added = files.filter(file => file.status === "added");
+  files.filter(file => file.status === "deleted").forEach(deleted => {
+    const lines = changedLines(deleted, "-");
+    const match = added.find(file =>
+      !moves.some(move => move.to === file.path) && similarity(lines, changedLines(file, "+")) >= MOVE_SIMILARITY);
+    if (match) moves.push({ kind: "moved", from: deleted.path, to: match.path });
+  });
+  const isFileMove = (from: string, to: string) => moves.some(move => !move.symbol && move.from === from && move.to === to);
+
+  const declarations = collectDeclarations(files);
+  const addedDeclarations = declarations.filter(declaration => declaration.type === "add");
+  const removedDeclarations = declarations.filter(declaration => declaration.type === "remove");
+  const removedNames = new Set(removedDeclarations.map(declaration => declaration.name));
+  const renameTargets = addedDeclarations.filter(declaration => !removedNames.has(declaration.name));
+  // 名前を置き換えた本体で比較する
+  const normalizedBody = (declaration: DiffDeclaration) =>
+    declaration.body.map(line => line.split(declaration.name).join("\0"));
+
+  removedDeclarations.forEach(removed => {
+    const sameName = addedDeclarations.filter(declaration => declaration.name === removed.name);
+    if (sameName.length > 0) {
+      // 同じファイル内での書き換え、またはファイルごとの移動は宣言の移動として扱わない
+      if (sameName.some(declaration => declaration.file === removed.file)) return;
+      if (isFileMove(removed.file, sameName[0].file)) return;
+      if (!moves.some(move => move.symbol === removed.name)) {
+        moves.push({ kind: "moved", symbol: removed.name, from: removed.file, to: sameName[0].file });
+      }
+      return;
+    }
+    // 同じファイル内で宣言の行だけを書き換えた場合（本体は差分の前後の行）は、名前以外が同じなら名前の変更とみなす
+    const score = (candidate: DiffDeclaration) => {
+      if (candidate.file === removed.file && normalizedBody(candidate)[0] === normalizedBody(removed)[0]) return 1;
+      return removed.body.length >= MIN_RENAME_LINES ? similarity(normalizedBody(removed), normalizedBody(candidate)) : 0;
+    };
+    const best = renameTargets
+      .map(candidate => ({ candidate, score: score(candidate) }))
+      .sort((a, b) => b.score - a.score)[0];
+    if (best && best.score >= MOVE_SIMILARITY) {
+      renameTargets.splice(renameTargets.indexOf(best.candidate), 1);
+      moves.push({ kind: "renamed", symbol: removed.name, new_symbol: best.candidate.name, from: removed.file, to: best.candidate.file });
+    }
+  });
+  return moves;
+}
+
+/**
+ * git grep の1件の結果
+ */
+interface GrepMatch {
+  file: string;
+  line: number;
+  text: string;
+}
+
+/**
+ * 監査したツリーを git grep で検索する（.auditignore に一致するファイルは除く）
+ */
+async function gitGrep(target: PatchTarget, args: string[], ignorePatterns: RegExp[]): Promise<GrepMatch[]> {
+  const treeArgs = target.tree === "index" ? ["--cached"] : target.tree === "working_tree" ? ["--untracked"] : [];
+  const revision = target.tree === "commit" ? target.commit || "HEAD" : undefined;
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync("git", [
+      "-c", "core.quotepath=false", "grep", "-n", "-I", "-z", "--no-color",
+      ...treeArgs, ...args, ...(revision ? [revision] : []), "--",
+    ], { cwd: target.repo_path, maxBuffer: 16 * 1024 * 1024, encoding: "utf8" }));
+  } catch (err) {
+    // 一致するものがない場合は終了コード 1
+    if ((err as { code?: unknown }).code === 1) return [];
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git grep に失敗しました: ${stderr || (err instanceof Error ? err.message : String(err))}`);
+  }
+
+  return stdout.split("\n").filter(Boolean).flatMap(entry => {
+    const [name, line, ...rest] = entry.split("\0");
+    const file = revision && name.startsWith(`${revision}:`) ? name.substring(revision.length + 1) : name;
+    if (ignorePatterns.some(pattern => pattern.test(file))) return [];
+    return [{ file, line: parseInt(line, 10), text: rest.join("\0").trim() }];
+  });
+}
+
+/**
+ * 行にシンボルが識別子として含まれるか
+ */
+function containsSymbol(text: string, symbol: string): boolean {
+  return new RegExp(`(^|[^\\w$])${symbol.replace(/\$/g, "\\$")}([^\\w$]|$)`).test(text);
+}
+
+/**
+ * 変更・削除した宣言の呼び出し箇所を検索する（宣言の行自体は除く）
+ */
+async function findCallSites(target: PatchTarget, declarations: DiffDeclaration[], ignorePatterns: RegExp[]): Promise<ContextSnippet[]> {
+  const sources = new Map<string, Set<string>>();
+  declarations.forEach(declaration => {
+    sources.set(declaration.name, (sources.get(declaration.name) ?? new Set()).add(declaration.file));
+  });
+  const symbols = [...sources.keys()].filter(symbol => symbol.length >= 3).slice(0, MAX_SYMBOLS);
+  if (symbols.length === 0) return [];
+
+  const matches = await gitGrep(target, ["-w", "-F", ...symbols.flatMap(symbol => ["-e", symbol])], ignorePatterns);
+  return symbols.flatMap(symbol => matches
+    .filter(match => containsSymbol(match.text, symbol) && extractDeclarationName(match.text) !== symbol)
+    .slice(0, MAX_CALL_SITES_PER_SYMBOL)
+    .map(match => ({ ...match, symbol, sources: [...sources.get(symbol)!] })));
+}
+
+/**
+ * 追加した行が呼び出している関数・クラスの定義を検索する
+ * （差分で宣言しているシンボルと、変更したファイル内の定義は除く。ファイル内容として含めるため）
+ */
+async function findDefinitions(
+  target: PatchTarget,
+  files: DiffFile[],
+  declarations: DiffDeclaration[],
+  ignorePatterns: RegExp[],
+  readFile: (file: string) => Promise<string | undefined>
+): Promise<ContextSnippet[]> {
+  const declared = new Set(declarations.map(declaration => declaration.name));
+  const sources = new Map<string, Set<string>>();
+  files.forEach(file => changedLines(file, "+").forEach(line => {
+    [...line.matchAll(/(?<![\w$.])([A-Za-z_$][\w$]*)\s*\(/g), ...line.matchAll(/\bnew\s+([A-Za-z_$][\w$]*)/g)]
+      .map(match => match[1])
+      .filter(symbol => symbol.length >= 3 && !IGNORED_IDENTIFIERS.has(symbol) && !declared.has(symbol))
+      .forEach(symbol => sources.set(symbol, (sources.get(symbol) ?? new Set()).add(file.path)));
+  }));
+  const symbols = [...sources.keys()].slice(0, MAX_SYMBOLS);
+  if (symbols.length === 0) return [];
+
+  const touched = new Set(files.map(file => file.path));
+  const pattern = `(function\\*?|class|def|const|let|var|interface|type|enum)[[:space:]]+(${symbols.map(symbol => symbol.replace(/\$/g, "\\$")).join("|")})([^[:alnum:]_$]|$)`;
+  const matches = await gitGrep(target, ["-E", "-e", pattern], ignorePatterns);
+  const definitions: ContextSnippet[] = [];
+  for (const symbol of symbols) {
+    const match = matches.find(candidate => !touched.has(candidate.file) && extractDeclarationName(candidate.text) === symbol)
+      ?? matches.find(candidate => !touched.has(candidate.file) && new RegExp(`(?:const|let|var|interface|type|enum)\\s+${symbol.replace(/\$/g, "\\$")}\\b`).test(candidate.text));
+    if (!match) continue;
+    const content = await readFile(match.file);
+    const text = content
+      ? content.split("\n").slice(match.line - 1, match.line - 1 + DEFINITION_LINES).join("\n").replace(/\s+$/, "")
+      : match.text;
+    definitions.push({ ...match, symbol, text, sources: [...sources.get(symbol)!] });
+  }
+  return definitions;
+}
+
+/**
+ * 行番号付きのファイル内容を作る（ranges を指定した場合はその範囲のみ）
+ */
+function numberLines(lines: string[], ranges: [number, number][]): string {
+  const width = String(lines.length).length;
+  return ranges
+    .map(([start, end]) => lines.slice(start - 1, end)
+      .map((line, index) => `${String(start + index).padStart(width)}| ${line}`)
+      .join("\n"))
+    .join("\n...\n");
+}
+
+/**
+ * 変更後のファイル内容をトークン数の上限に収まるように作る
+ * 全体が収まらない場合は変更箇所の周辺のみ、それでも収まらない場合は先頭から上限まで含める
+ */
+function buildContextFile(file: DiffFile, content: string, maxTokens: number): ContextFile | undefined {
+  const lines = content.replace(/\n$/, "").split("\n");
+  const full = numberLines(lines, [[1, lines.length]]);
+  if (estimateTokens(full) <= maxTokens) {
+    return { path: file.path, content: full, truncated: false };
+  }
+
+  const ranges: [number, number][] = [];
+  file.hunks
+    .map(hunk => [Math.max(hunk.newStart - EXCERPT_LINES, 1), Math.min(hunk.newStart + hunk.newLines - 1 + EXCERPT_LINES, lines.length)] as [number, number])
+    .sort((a, b) => a[0] - b[0])
+    .forEach(range => {
+      const last = ranges[ranges.length - 1];
+      if (last && range[0] <= last[1] + 1) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        ranges.push(range);
+      }
+    });
+  let excerpt = numberLines(lines, ranges);
+  while (estimateTokens(excerpt) > maxTokens && excerpt.includes("\n")) {
+    excerpt = excerpt.substring(0, excerpt.lastIndexOf("\n", Math.floor(excerpt.length * 0.8)));
+  }
+  return estimateTokens(excerpt) <= maxTokens ? { path: file.path, content: excerpt, truncated: true } : undefined;
+}
+
+/**
+ * 先頭から上限のトークン数に収まる分だけ取り出す
+ */
+function takeWithinBudget<T>(items: T[], maxTokens: number, render: (item: T) => string): T[] {
+  let remaining = maxTokens;
+  return items.filter(item => {
+    const tokens = estimateTokens(render(item));
+    if (tokens > remaining) return false;
+    remaining -= tokens;
+    return true;
+  });
+}
+
+function renderDefinition(snippet: ContextSnippet): string {
+  return `#### ${snippet.symbol} (${snippet.file}:${snippet.line})\n\`\`\`\n${snippet.text}\n\`\`\``;
+}
+
+function renderCallSite(snippet: ContextSnippet): string {
+  return `- ${snippet.file}:${snippet.line} [${snippet.symbol}] ${snippet.text}`;
+}
+
+/**
+ * 差分とリポジトリから監査に含めるコンテキストを作る
+ * target がない場合は差分から移動・名前の変更のみ検出する
+ */
+export async function buildAuditContext(
+  codeChanges: string,
+  options: { target?: PatchTarget; maxTokens: number; signal?: AbortSignal }
+): Promise<AuditContext> {
+  const { target, maxTokens, signal } = options;
+  const files = parseUnifiedDiff(codeChanges);
+  const moves = detectMoves(files);
+  if (moves.length > 0) {
+    logger.info(`移動・名前の変更を${moves.length}件検出しました`);
+  }
+  const context: AuditContext = { files: [], definitions: [], call_sites: [], moves };
+  if (!target || maxTokens <= 0) {
+    if (!target && maxTokens > 0) logger.warn("リポジトリが指定されていないため、コンテキストは移動・名前の変更のみ検出します。");
+    return context;
+  }
+
+  const ignorePatterns = loadAuditIgnore(target.repo_path);
+  const contents = new Map<string, Promise<string | undefined>>();
+  const readFile = (file: string) => {
+    if (!contents.has(file)) {
+      contents.set(file, readTargetFile(target, file).catch(err => {
+        logger.warn(`ファイルを読み込めませんでした: ${file}`, err instanceof Error ? err.message : err);
+        return undefined;
+      }));
+    }
+    return contents.get(file)!;
+  };
+  const declarations = collectDeclarations(files);
+
+  // 呼び出し箇所・定義（取得に失敗した場合はそのまま続ける）
+  try {
+    const callSites = await findCallSites(target, declarations, ignorePatterns);
+    context.call_sites = takeWithinBudget(callSites, maxTokens * SNIPPET_SHARE, renderCallSite);
+  } catch (err) {
+    logger.warn("呼び出し箇所を検索できませんでした:", err instanceof Error ? err.message : err);
+  }
+  throwIfCancelled(signal);
+  try {
+    const definitions = await findDefinitions(target, files, declarations, ignorePatterns, readFile);
+    context.definitions = takeWithinBudget(definitions, maxTokens * SNIPPET_SHARE, renderDefinition);
+  } catch (err) {
+    logger.warn("シンボルの定義を検索できませんでした:", err instanceof Error ? err.message : err);
+  }
+  throwIfCancelled(signal);
+
+  // 変更後のファイル内容（残りの予算をファイル数で分ける）
+  let remaining = maxTokens
+    - context.call_sites.reduce((sum, snippet) => sum + estimateTokens(renderCallSite(snippet)), 0)
+    - context.definitions.reduce((sum, snippet) => sum + estimateTokens(renderDefinition(snippet)), 0);
+  const targets = files.filter(file => file.status !== "deleted" && !file.binary);
+  for (const [index, file] of targets.entries()) {
+    const content = await readFile(file.path);
+    if (content === undefined) continue;
+    const contextFile = buildContextFile(file, content, Math.floor(remaining / (targets.length - index)));
+    if (contextFile) {
+      context.files.push(contextFile);
+      remaining -= estimateTokens(contextFile.content);
+    }
+  }
+
+  logger.info(`コンテキスト: ファイル${context.files.length}件・定義${context.definitions.length}件・呼び出し箇所${context.call_sites.length}件`);
+  return context;
+}
+
+/**
+ * コンテキストをプロンプト用のテキストにする
+ * files を指定した場合は、それらのファイルに関係するものだけを含める（分割して監査する場合のチャンク単位）
+ */
+export function renderAuditContext(context: AuditContext, profile: AuditProfile, files?: string[]): string {
+  const texts = PROFILE_TEXTS[profile.language].context;
+  const relevant = (paths: string[]) => !files || paths.some(file => files.includes(file));
+  const contextFiles = context.files.filter(file => relevant([file.path]));
+  const definitions = context.definitions.filter(snippet => relevant(snippet.sources));
+  const callSites = context.call_sites.filter(snippet => relevant(snippet.sources));
+  const moves = context.moves.filter(move => relevant([move.from, move.to]));
+
+  const parts: string[] = [];
+  if (moves.length > 0) {
+    parts.push(`### ${texts.moves}\n${moves.map(move => `- ${formatMove(move, profile)}`).join("\n")}`);
+  }
+  if (callSites.length > 0) {
+    parts.push(`### ${texts.callSites}\n${callSites.map(renderCallSite).join("\n")}`);
+  }
+  if (definitions.length > 0) {
+    parts.push(`### ${texts.definitions}\n${definitions.map(renderDefinition).join("\n\n")}`);
+  }
+  if (contextFiles.length > 0) {
+    parts.push(`### ${texts.files}\n${contextFiles
+      .map(file => `#### ${file.path}${file.truncated ? ` ${texts.truncated}` : ""}\n\`\`\`\n${file.content}\n\`\`\``)
+      .join("\n\n")}`);
+  }
+  return parts.length > 0 ? `${texts.heading}:\n\n${parts.join("\n\n")}` : "";
+}
+
+/**
+ * 監査結果に含めるコンテキストの概要
+ */
+export function summarizeAuditContext(context: AuditContext): Enrichment {
+  return {
+    files: context.files.map(file => file.path),
+    truncated_files: context.files.filter(file => file.truncated).map(file => file.path),
+    definitions: context.definitions.map(snippet => snippet.symbol),
+    call_sites: context.call_sites.map(snippet => `${snippet.file}:${snippet.line}`),
+    moves: context.moves,
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * audit-diff.ts
+ *
+ * unified diff（git diff 形式）のパーサと、トークン予算に収まるように
+ * 差分をリクエスト単位（チャンク）に詰め込む分割プランナーです。
+ *
+ *  - ファイル単位（追加 / 削除 / 変更 / リネーム / バイナリ）とハンク単位に差分を解析
+ *  - 予算を超えるファイルはハンク単位、さらに大きなハンクは行単位で分割
+ *  - 分割したハンクも各チャンクにファイルヘッダを付けて、差分として単独で読める形にする
+ */
+
+/**
+ * ハンク（@@ ... @@ で始まる変更のまとまり）
+ */
+export interface DiffHunk {
+  header: string;     // "@@ -10,7 +10,8 @@ function foo()" 行
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];    // ヘッダ以降の行（" " / "+" / "-" / "\" で始まる）
+}
+
+export type DiffFileStatus = "added" | "deleted" | "modified" | "renamed";
+
+/**
+ * ファイル単位の差分
+ */
+export interface DiffFile {
+  path: string;          // 変更後のパス（削除の場合は変更前のパス）
+  oldPath: string | null;
+  newPath: string | null;
+  status: DiffFileStatus;
+  binary: boolean;
+  headerLines: string[]; // "diff --git" 行から最初のハンクまでの行
+  hunks: DiffHunk[];
+}
+
+/**
+ * 1リクエストに含めるファイル差分（ファイルが分割された場合はその一部）
+ */
+export interface ChunkPart {
+  path: string;
+  diff: string;
+  part: number;   // ファイル内での分割番号（1始まり）
+  parts: number;  // ファイルの分割数
+}
+
+/**
+ * 1リクエスト分の差分
+ */
+export interface AuditChunk {
+  parts: ChunkPart[];
+  tokens: number;
+}
+
+/**
+ * テキストのトークン数を概算する
+ * 英数字はおよそ4文字、日本語などの非ASCII文字はおよそ1文字で1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * "a/path" / "b/path" の接頭辞を取り除く（/dev/null は null）
+ */
+function stripPathPrefix(value: string): string | null {
+  const trimmed = value.replace(/\t.*$/, "").trim();
+  if (trimmed === "/dev/null") return null;
+  return trimmed.replace(/^[ab]\//, "");
+}
+
+/**
+ * unified diff を解析する
+ */
+export function parseUnifiedDiff(diffContent: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  if (!diffContent) return files;
+
+  let current: DiffFile | null = null;
+  let currentHunk: DiffHunk | null = null;
+
+  const finishFile = () => {
+    if (!current) return;
+    if (!current.path) {
+      current.path = current.newPath || current.oldPath || "";
+    }
+    files.push(current);
+  };
+
+  diffContent.split("\n").forEach(line => {
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitHeader) {
+      finishFile();
+      current = {
+        path: "",
+        oldPath: gitHeader[1],
+        newPath: gitHeader[2],
+        status: "modified",
+        binary: false,
+        headerLines: [line],
+        hunks: [],
+      };
+      currentHunk = null;
+      return;
+    }
+    if (!current) return;
+    const file: DiffFile = current;
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkHeader) {
+      currentHunk = {
+        header: line,
+        oldStart: parseInt(hunkHeader[1], 10),
+        oldLines: hunkHeader[2] !== undefined ? parseInt(hunkHeader[2], 10) : 1,
+        newStart: parseInt(hunkHeader[3], 10),
+        newLines: hunkHeader[4] !== undefined ? parseInt(hunkHeader[4], 10) : 1,
+        lines: [],
+      };
+      file.hunks.push(currentHunk);
+      return;
+    }
+
+    if (currentHunk) {
+      currentHunk.lines.push(line);
+      return;
+    }
+
+    // ファイルヘッダ部分
+    file.headerLines.push(line);
+    if (line.startsWith("new file mode")) {
+      file.status = "added";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "deleted";
+    } else if (line.startsWith("rename from ")) {
+      file.status = "renamed";
+      file.oldPath = line.substring("rename from ".length);
+    } else if (line.startsWith("rename to ")) {
+      file.status = "renamed";
+      file.newPath = line.substring("rename to ".length);
+    } else if (line.startsWith("Binary files ") || line.startsWith("GIT binary patch")) {
+      file.binary = true;
+    } else if (line.startsWith("--- ")) {
+      file.oldPath = stripPathPrefix(line.substring(4));
+    } else if (line.startsWith("+++ ")) {
+      file.newPath = stripPathPrefix(line.substring(4));
+    }
+  });
+  finishFile();
+
+  // 末尾の改行による空行をハンクから取り除く
+  files.forEach(file => {
+    const last = file.hunks[file.hunks.length - 1];
+    while (last && last.lines.length > 0 && last.lines[last.lines.length - 1] === "") {
+      last.lines.pop();
+    }
+    if (file.status === "added") {
+      file.oldPath = null;
+    } else if (file.status === "deleted") {
+      file.newPath = null;
+    }
+    file.path = file.newPath || file.oldPath || file.path;
+  });
+
+  return files;
+}
+
+/**
+ * ファイル差分（または指定したハンクのみ）をテキストに戻す
+ */
+export function renderFileDiff(file: DiffFile, hunks: DiffHunk[] = file.hunks): string {
+  const lines = [...file.headerLines];
+  hunks.forEach(hunk => {
+    lines.push(hunk.header, ...hunk.lines);
+  });
+  return lines.join("\n");
+}
+
+/**
+ * 行数の多すぎるハンクを、変更前/変更後の行番号を保ったまま複数のハンクに分割する
+ */
+function splitHunk(hunk: DiffHunk, maxTokens: number): DiffHunk[] {
+  const result: DiffHunk[] = [];
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  let current: string[] = [];
+  let currentTokens = 0;
+  let startOld = oldLine;
+  let startNew = newLine;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const oldCount = current.filter(line => line.startsWith(" ") || line.startsWith("-") || line === "").length;
+    const newCount = current.filter(line => line.startsWith(" ") || line.startsWith("+") || line === "").length;
+    const suffix = hunk.header.replace(/^@@ [^@]* @@/, "");
+    result.push({
+      header: `@@ -${startOld},${oldCount} +${startNew},${newCount} @@${suffix}`,
+      oldStart: startOld,
+      oldLines: oldCount,
+      newStart: startNew,
+      newLines: newCount,
+      lines: current,
+    });
+    current = [];
+    currentTokens = 0;
+    startOld = oldLine;
+    startNew = newLine;
+  };
+
+  hunk.lines.forEach(line => {
+    const tokens = estimateTokens(line) + 1;
+    // "\ No newline at end of file" は直前の行と同じハンクに残す
+    if (currentTokens + tokens > maxTokens && !line.startsWith("\\")) {
+      flush();
+    }
+    current.push(line);
+    currentTokens += tokens;
+    if (line.startsWith("-")) {
+      oldLine++;
+    } else if (line.startsWith("+")) {
+      newLine++;
+    } else if (!line.startsWith("\\")) {
+      oldLine++;
+      newLine++;
+    }
+  });
+  flush();
+
+  return result;
+}
+
+/**
+ * 1ファイルの差分を予算内に収まる複数のパーツに分割する
+ * 各パーツにはファイルヘッダを含め、ハンク（とその前後のコンテキスト行）単位で詰め込む
+ */
+function splitFile(file: DiffFile, maxTokens: number): string[] {
+  const headerTokens = estimateTokens(file.headerLines.join("\n")) + 1;
+  const hunkBudget = Math.max(maxTokens - headerTokens, 1);
+
+  const hunks = file.hunks.flatMap(hunk =>
+    estimateTokens([hunk.header, ...hunk.lines].join("\n")) > hunkBudget ? splitHunk(hunk, hunkBudget) : [hunk]
+  );
+
+  const parts: DiffHunk[][] = [];
+  let current: DiffHunk[] = [];
+  let currentTokens = 0;
+  hunks.forEach(hunk => {
+    const tokens = estimateTokens([hunk.header, ...hunk.lines].join("\n")) + 1;
+    if (current.length > 0 && currentTokens + tokens > hunkBudget) {
+      parts.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(hunk);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) {
+    parts.push(current);
+  }
+
+  return parts.map(part => renderFileDiff(file, part));
+}
+
+/**
+ * 差分をトークン予算内のチャンクに分割する
+ * 予算に収まるファイルはそのまま複数まとめて1チャンクに詰め、
+ * 収まらないファイルはハンク単位で分割して単独のチャンクにする
+ */
+export function planAuditChunks(files: DiffFile[], maxTokens: number): AuditChunk[] {
+  const chunks: AuditChunk[] = [];
+  let current: AuditChunk = { parts: [], tokens: 0 };
+
+  const flush = () => {
+    if (current.parts.length > 0) {
+      chunks.push(current);
+      current = { parts: [], tokens: 0 };
+    }
+  };
+
+  files.forEach(file => {
+    const diff = renderFileDiff(file);
+    const tokens = estimateTokens(diff);
+
+    if (tokens > maxTokens && file.hunks.length > 0) {
+      flush();
+      const pieces = splitFile(file, maxTokens);
+      pieces.forEach((piece, index) => {
+        chunks.push({
+          parts: [{ path: file.path, diff: piece, part: index + 1, parts: pieces.length }],
+          tokens: estimateTokens(piece),
+        });
+      });
+      return;
+    }
+
+    if (current.tokens + tokens > maxTokens) {
+      flush();
+    }
+    current.parts.push({ path: file.path, diff, part: 1, parts: 1 });
+    current.tokens += tokens;
+  });
+  flush();
+
+  return chunks;
+}
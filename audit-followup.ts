@@ -0,0 +1,248 @@
+import * as path from "path";
+import { ChatMessage, CompletionProvider, getProvider } from "./audit-providers.js";
+import { callCompletion } from "./audit-common.js";
+import { parseUnifiedDiff, renderFileDiff, estimateTokens } from "./audit-diff.js";
+import { getReport, updateReport, ConversationTurn, StoredReport } from "./audit-reports.js";
+import { AuditProfile, PROFILE_TEXTS, getAuditProfile } from "./audit-profiles.js";
+import { Finding, formatFindingLocation, renderAuditMarkdown } from "./audit-result.js";
+import { UsageSummary, createUsageTracker } from "./audit-usage.js";
+import { ApiClient, reserveCompletionUsage, runWithReservation } from "./audit-auth.js";
+import { redactText } from "./audit-redaction.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-followup.ts
+ *
+ * 完了した監査について追加の質問に答えるモジュールです。
+ *
+ * レポートに保存された監査時の入力（差分・function_list）と監査結果をコンテキストとしてLLMに渡し、
+ * 質問と回答はレポートの会話（conversation）とMarkdownレポートの末尾に追記します。
+ * 以前の質問と回答も会話履歴として渡すため、続けて質問できます。
+ *
+ * 差分は質問に関連するファイルのみを含めます:
+ *  - files で指定したファイル
+ *  - 質問中で番号を指定した指摘（「指摘3」「finding 3」「#3」など）のファイル
+ *  - 質問中にパスまたはファイル名が含まれるファイル
+ * 該当するファイルがない場合は差分全体を対象とし、トークン数の上限を超えるファイルは省略します。
+ *
+ * 回答には監査を行ったプロバイダを使います（設定から削除されている場合はデフォルトのプロバイダ）。
+ * HTTP経由の場合は、送信前にクライアントの1日の上限を確認して見積もった利用量を計上します。
+ */
+
+/**
+ * 追加の質問のリクエスト
+ */
+export interface FollowupRequest {
+  report_id: string;
+  question: string;
+  files?: string[];   // 回答に差分を含めるファイル（省略時は質問から判断）
+}
+
+/**
+ * 追加の質問の結果
+ */
+export interface FollowupResponse {
+  report_id: string;
+  turn: number;             // 何番目の質問か（1始まり）
+  answer: string;
+  files: string[];          // 差分を含めたファイル
+  omitted_files: string[];  // トークン数の上限のため差分を含めなかったファイル
+  usage: UsageSummary;
+}
+
+// 会話履歴として渡す直近の質問数
+const MAX_HISTORY_TURNS = 10;
+// 回答や会話履歴のための余裕
+const FOLLOWUP_MARGIN_TOKENS = 1000;
+
+// 質問中の指摘の番号（「指摘3」「指摘 #3」「3番目の指摘」「finding 3」「#3」）
+const FINDING_REFERENCE_PATTERNS = [
+  /(?:指摘|finding)\s*(?:#|No\.?\s*)?(\d+)/gi,
+  /(\d+)\s*(?:番目|つ目)の?指摘/g,
+  /#(\d+)/g,
+];
+
+/**
+ * 質問中で番号を指定された指摘を取り出す（番号は1始まり）
+ */
+function referencedFindings(question: string, findings: Finding[]): Finding[] {
+  const numbers = new Set(FINDING_REFERENCE_PATTERNS.flatMap(pattern =>
+    [...question.matchAll(pattern)].map(match => parseInt(match[1], 10))));
+  return [...numbers]
+    .filter(number => number >= 1 && number <= findings.length)
+    .map(number => findings[number - 1]);
+}
+
+/**
+ * 質問に関連するファイルを選ぶ
+ */
+function selectRelevantFiles(params: FollowupRequest, report: StoredReport, diffFiles: string[]): string[] {
+  const unknown = (params.files || []).filter(file => !diffFiles.includes(file));
+  if (unknown.length > 0) {
+    logger.warn(`監査時の差分に含まれないファイルは無視します: ${unknown.join(", ")}`);
+  }
+  const explicit = (params.files || []).filter(file => diffFiles.includes(file));
+  const fromFindings = referencedFindings(params.question, report.auditResult.findings)
+    .map(finding => finding.file)
+    .filter((file): file is string => !!file && diffFiles.includes(file));
+  const mentioned = diffFiles.filter(file => {
+    const basename = path.posix.basename(file);
+    return params.question.includes(file) || (basename.length >= 3 && params.question.includes(basename));
+  });
+
+  const relevant = [...new Set([...explicit, ...fromFindings, ...mentioned])];
+  return relevant.length > 0 ? relevant : diffFiles;
+}
+
+/**
+ * 監査結果と監査時の入力からシステムプロンプトを作成する
+ */
+function buildFollowupSystemPrompt(report: StoredReport, profile: AuditProfile, diff: string): string {
+  const texts = PROFILE_TEXTS[profile.language];
+  const findings = report.auditResult.findings.map((finding, index) => {
+    const location = formatFindingLocation(finding);
+    return `${index + 1}. [${finding.severity}] [${finding.category}] ${location ? `${location}: ` : ""}${finding.message}`;
+  });
+
+  return `${texts.followup.system}
+
+${texts.userPrompt.request}:
+${report.metadata.request}
+
+${texts.userPrompt.description}:
+${report.metadata.modification_description}
+
+${texts.followup.report}:
+${renderAuditMarkdown(report.auditResult, profile)}
+
+${texts.followup.findings}:
+${findings.join("\n") || texts.userPrompt.none}
+
+${texts.userPrompt.functionList}:
+\`\`\`
+${report.context?.function_list ?? ""}
+\`\`\`
+
+${texts.followup.diff}:
+${diff}`;
+}
+
+/**
+ * レポートのプロファイルを取得する（設定から削除されている場合はデフォルトのプロファイル）
+ */
+function resolveReportProfile(report: StoredReport): AuditProfile {
+  try {
+    return getAuditProfile(report.metadata.profile);
+  } catch (error) {
+    logger.warn(`レポートのプロファイルを取得できないため、デフォルトのプロファイルを使用します: ${error instanceof Error ? error.message : error}`);
+    return getAuditProfile();
+  }
+}
+
+/**
+ * レポートの監査を行ったプロバイダを取得する（設定から削除されている場合・LLMを使用していない場合はデフォルトのプロバイダ）
+ */
+function resolveReportProvider(report: StoredReport): CompletionProvider {
+  if (!report.metadata.provider) {
+    return getProvider();
+  }
+  try {
+    const provider = getProvider(report.metadata.provider);
+    if (report.metadata.model && provider.model !== report.metadata.model) {
+      logger.warn(`プロバイダ ${provider.name} のモデルが監査時（${report.metadata.model}）から変更されているため、${provider.model} で回答します`);
+    }
+    return provider;
+  } catch (error) {
+    logger.warn(`監査を行ったプロバイダを取得できないため、デフォルトのプロバイダを使用します: ${error instanceof Error ? error.message : error}`);
+    return getProvider();
+  }
+}
+
+/**
+ * 監査結果について追加の質問をする
+ * client を指定した場合（HTTP経由）は、LLMに送信する前にそのクライアントの1日の上限を確認する
+ */
+export async function askFollowup(
+  params: FollowupRequest,
+  options: { signal?: AbortSignal; client?: ApiClient } = {}
+): Promise<FollowupResponse> {
+  const question = params.question.trim();
+  if (!question) {
+    throw new Error("パラメータ question が指定されていません。");
+  }
+  const report = getReport(params.report_id);
+  const profile = resolveReportProfile(report);
+  const texts = PROFILE_TEXTS[profile.language];
+  const provider = resolveReportProvider(report);
+
+  // 関連するファイルの差分を、トークン数の上限に収まる分だけ含める
+  const diffFiles = parseUnifiedDiff(report.context?.code_changes ?? "");
+  const relevant = selectRelevantFiles({ ...params, question }, report, diffFiles.map(file => file.path));
+  const history = (report.conversation || []).slice(-MAX_HISTORY_TURNS);
+  const baseTokens = estimateTokens(
+    buildFollowupSystemPrompt(report, profile, "") + question + history.map(turn => turn.question + turn.answer).join("")
+  );
+  let remaining = provider.contextTokens - provider.maxOutputTokens - baseTokens - FOLLOWUP_MARGIN_TOKENS;
+  const included: string[] = [];
+  const omitted: string[] = [];
+  const diffs: string[] = [];
+  diffFiles.filter(file => relevant.includes(file.path)).forEach(file => {
+    const diff = renderFileDiff(file);
+    const tokens = estimateTokens(diff);
+    if (tokens <= remaining) {
+      remaining -= tokens;
+      included.push(file.path);
+      diffs.push(diff);
+    } else {
+      omitted.push(file.path);
+    }
+  });
+
+  const diffSection = !report.context
+    ? texts.followup.noContext
+    : `\`\`\`diff\n${diffs.join("\n")}\n\`\`\`${omitted.length > 0 ? `\n${texts.followup.omitted(omitted)}` : ""}`;
+  const messages: ChatMessage[] = [
+    { role: "system", content: buildFollowupSystemPrompt(report, profile, diffSection) },
+    ...history.flatMap((turn): ChatMessage[] => [
+      { role: "user", content: turn.question },
+      { role: "assistant", content: turn.answer },
+    ]),
+    { role: "user", content: question },
+  ];
+
+  // HTTP経由の場合は見積もりで1日の上限を確認して計上し、回答後に実際の利用量に置き換える
+  const reservation = options.client ? reserveCompletionUsage(options.client, provider, messages) : undefined;
+  return runWithReservation(reservation, async () => {
+    logger.info(`レポート ${report.id} への追加の質問に回答しています（差分: ${included.length}ファイル）`);
+    const usage = createUsageTracker("followup");
+    const answer = (await callCompletion(messages, options.signal, usage, "followup", provider)).trim();
+    const usageSummary = usage.summary();
+
+    // 回答中に他の質問が追記されている場合に備えて、最新のレポートに追記する
+    // 質問・回答に含まれる機密情報はマスクしてから保存する（差分と同様に値そのものはレポートに残さない）
+    const latest = getReport(report.id);
+    const turn: ConversationTurn = {
+      question: redactText(question, "followup").text,
+      answer: redactText(answer, "followup").text,
+      files: included,
+      createdAt: new Date().toISOString(),
+      usage: usageSummary,
+    };
+    const conversation = [...(latest.conversation || []), turn];
+    const heading = latest.conversation?.length ? "" : `\n\n## ${texts.followup.heading}\n`;
+    updateReport({
+      ...latest,
+      conversation,
+      aiReport: `${latest.aiReport}${heading}\n### Q${conversation.length}. ${turn.question}\n\n${turn.answer}\n`,
+    });
+
+    return {
+      report_id: report.id,
+      turn: conversation.length,
+      answer: turn.answer,
+      files: included,
+      omitted_files: omitted,
+      usage: usageSummary,
+    };
+  });
+}
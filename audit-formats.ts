@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+import { AuditResult, Finding, Severity, SEVERITY_ORDER } from "./audit-result.js";
+import { AuditProfile } from "./audit-profiles.js";
+
+/**
+ * audit-formats.ts
+ *
+ * 監査結果をCIで扱える形式に変換するモジュールです。
+ *
+ *  - SARIF 2.1.0: GitHub code scanning などでプルリクエストに指摘を注釈として表示する
+ *  - JUnit XML:   CIのテスト結果画面でセクションごとの合否を表示する
+ */
+
+const TOOL_NAME = "code-audit-server";
+
+/**
+ * CI出力に含める監査の情報
+ */
+export interface AuditOutputContext {
+  reportId: string;
+  profile: AuditProfile;
+  failOn?: Severity;      // この重要度以上の指摘を失敗として扱う（未指定の場合は失敗にしない）
+  durationMs?: number;
+}
+
+/**
+ * 重要度がしきい値以上か
+ */
+export function meetsSeverity(severity: Severity, threshold: Severity | undefined): boolean {
+  return threshold !== undefined && SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+}
+
+/**
+ * 指摘のルールID（ローカルルールの指摘はルールID、LLMの指摘は "audit/<セクション>"）
+ */
+function findingRuleId(finding: Finding): string {
+  return finding.rule ?? `audit/${finding.category}`;
+}
+
+// SARIF の level（high: error / medium: warning / low: note）
+const SARIF_LEVELS: Record<Severity, "error" | "warning" | "note"> = {
+  high: "error",
+  medium: "warning",
+  low: "note",
+};
+
+/**
+ * 監査結果を SARIF 2.1.0 に変換する
+ * 指摘の file はリポジトリルートからの相対パスとして %SRCROOT% 基準で出力する
+ */
+export function toSarif(result: AuditResult, context: AuditOutputContext): object {
+  const sectionTitles = new Map(context.profile.sections.map(section => [section.key, section.title]));
+
+  const rules = [...new Map(result.findings.map(finding => [findingRuleId(finding), finding])).entries()]
+    .map(([id, finding]) => ({
+      id,
+      name: id,
+      shortDescription: { text: finding.rule ?? sectionTitles.get(finding.category) ?? finding.category },
+      properties: { category: finding.category },
+    }));
+
+  const results = result.findings.map(finding => ({
+    ruleId: findingRuleId(finding),
+    level: SARIF_LEVELS[finding.severity],
+    message: { text: finding.message },
+    ...(finding.file
+      ? {
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: finding.file, uriBaseId: "%SRCROOT%" },
+            ...(finding.line_start != null
+              ? { region: { startLine: finding.line_start, endLine: finding.line_end ?? finding.line_start } }
+              : {}),
+          },
+        }],
+      }
+      : {}),
+    partialFingerprints: {
+      auditFinding: createHash("sha256")
+        .update([finding.file ?? "", finding.category, finding.rule ?? "", finding.message].join("\n"))
+        .digest("hex"),
+    },
+    properties: { severity: finding.severity, category: finding.category },
+  }));
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      results,
+      invocations: [{
+        executionSuccessful: !result.errors || result.errors.length === 0,
+        toolExecutionNotifications: (result.errors || []).map(error => ({
+          level: "error",
+          message: { text: `${error.file}: ${error.message}` },
+        })),
+      }],
+      properties: { reportId: context.reportId, profile: context.profile.name },
+    }],
+  };
+}
+
+/**
+ * XMLの属性値・テキストをエスケープする
+ */
+function escapeXml(value: string): string {
+  return value
+    // XML 1.0 で使えない制御文字を除去
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 監査結果を JUnit XML に変換する
+ * セクションごとに1つのテストケースとし、しきい値以上の指摘があるセクションを failure、
+ * 判定が skipped のセクションを skipped、監査できなかった差分を error として出力する
+ */
+export function toJUnit(result: AuditResult, context: AuditOutputContext): string {
+  const formatFinding = (finding: Finding) => {
+    const location = finding.file
+      ? `${finding.file}${finding.line_start != null ? `:${finding.line_start}` : ""}: `
+      : "";
+    return `[${finding.severity}] ${location}${finding.message}${finding.rule ? ` (${finding.rule})` : ""}`;
+  };
+
+  const cases = context.profile.sections.map(section => {
+    const sectionResult = result.sections[section.key];
+    const findings = result.findings.filter(finding => finding.category === section.key);
+    const failing = findings.filter(finding => meetsSeverity(finding.severity, context.failOn));
+    const lines = [`    <testcase classname="audit.${section.key}" name="${escapeXml(section.title)}" time="0">`];
+    if (failing.length > 0) {
+      const message = context.profile.language === "en" ? `${failing.length} finding(s)` : `${failing.length}件の指摘`;
+      lines.push(`      <failure message="${escapeXml(message)}" type="${failing[0].severity}">${escapeXml(failing.map(formatFinding).join("\n"))}</failure>`);
+    } else if (sectionResult?.verdict === "skipped") {
+      lines.push(`      <skipped message="${escapeXml(sectionResult.summary)}"/>`);
+    }
+    const output = [sectionResult?.summary ?? "", ...findings.map(formatFinding)].filter(Boolean).join("\n");
+    if (output) {
+      lines.push(`      <system-out>${escapeXml(output)}</system-out>`);
+    }
+    lines.push("    </testcase>");
+    return { xml: lines.join("\n"), failed: failing.length > 0, skipped: failing.length === 0 && sectionResult?.verdict === "skipped" };
+  });
+
+  const errorCases = (result.errors || []).map(error => [
+    `    <testcase classname="audit.errors" name="${escapeXml(error.file)}" time="0">`,
+    `      <error message="${escapeXml(error.message)}"/>`,
+    "    </testcase>",
+  ].join("\n"));
+
+  const tests = cases.length + errorCases.length;
+  const failures = cases.filter(item => item.failed).length;
+  const skipped = cases.filter(item => item.skipped).length;
+  const time = ((context.durationMs ?? 0) / 1000).toFixed(3);
+  const suiteAttributes = `name="${TOOL_NAME}" tests="${tests}" failures="${failures}" errors="${errorCases.length}" skipped="${skipped}" time="${time}"`;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites ${suiteAttributes}>`,
+    `  <testsuite ${suiteAttributes} timestamp="${new Date().toISOString()}">`,
+    `    <properties>`,
+    `      <property name="reportId" value="${escapeXml(context.reportId)}"/>`,
+    `      <property name="profile" value="${escapeXml(context.profile.name)}"/>`,
+    `    </properties>`,
+    ...cases.map(item => item.xml),
+    ...errorCases,
+    `  </testsuite>`,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
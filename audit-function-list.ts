@@ -0,0 +1,373 @@
+import * as fs from "fs";
+import * as path from "path";
+import ts from "typescript";
+import { loadAuditIgnore, resolveRepoPath, assertRelativePath } from "./audit-git.js";
+import { getReport } from "./audit-reports.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-function-list.ts
+ *
+ * ソースコードから function_list.txt を生成・更新するモジュールです。
+ * TypeScript コンパイラAPIで TypeScript / JavaScript のソースを解析し、
+ *  - export された関数・クラス（とその public メソッド）・定数
+ *  - MCPツール（server.tool("name", ...)）とMCPリソース
+ *  - HTTPルート（app.post("/path", ...) など）
+ *  - JSON-RPCメソッド（registerMethod({ name: "...", description: "..." }) の呼び出しと、switch (request.method) の case）
+ * の一覧を function_list の形式で出力します。
+ *
+ * 生成した一覧はファイル内のマーカー行の間に書き込むため、マーカーの外に手で書いた説明や
+ * 監査結果から取り込んだ更新案（function_list_update）は再生成しても残ります。
+ */
+
+export type InventoryKind = "function" | "class" | "method" | "const" | "mcp-tool" | "mcp-resource" | "http-route" | "json-rpc";
+
+/**
+ * 一覧の1項目
+ */
+export interface InventoryEntry {
+  kind: InventoryKind;
+  name: string;
+  file: string;        // ルートディレクトリからの相対パス
+  line: number;
+  signature?: string;  // 関数・メソッドの引数と戻り値
+  description?: string; // JSDoc またはコメントの1行目
+}
+
+/**
+ * 生成結果
+ */
+export interface FunctionListResult {
+  entries: InventoryEntry[];
+  text: string;
+  files: number;
+}
+
+export const GENERATED_BEGIN = "# ---- 自動生成ここから（audit function_list） ----";
+export const GENERATED_END = "# ---- 自動生成ここまで ----";
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const SKIP_DIRECTORIES = new Set(["node_modules", "dist", "build", "coverage", ".git"]);
+const HTTP_METHODS = new Set(["get", "post", "put", "patch", "delete", "all", "use"]);
+
+const KIND_LABELS: Record<InventoryKind, string> = {
+  "function": "関数",
+  "class": "クラス",
+  "method": "メソッド",
+  "const": "定数",
+  "mcp-tool": "MCPツール",
+  "mcp-resource": "MCPリソース",
+  "http-route": "HTTPルート",
+  "json-rpc": "JSON-RPCメソッド",
+};
+
+/**
+ * 解析対象のソースファイルを再帰的に集める（.d.ts と .auditignore に一致するファイルは除外）
+ */
+function collectSourceFiles(rootDir: string, dir: string, ignorePatterns: RegExp[], files: string[] = []): string[] {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(rootDir, fullPath).split(path.sep).join("/");
+    if (ignorePatterns.some(pattern => pattern.test(relativePath))) return;
+
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRECTORIES.has(entry.name) && !entry.name.startsWith(".")) {
+        collectSourceFiles(rootDir, fullPath, ignorePatterns, files);
+      }
+    } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !/\.d\.[mc]?ts$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  });
+  return files;
+}
+
+/**
+ * 修飾子の有無を判定する
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+/**
+ * JSDoc の1行目を取得する
+ */
+function getJsDocSummary(node: ts.Node): string | undefined {
+  const doc = ts.getJSDocCommentsAndTags(node).find(ts.isJSDoc);
+  const comment = doc ? ts.getTextOfJSDocComment(doc.comment) : undefined;
+  return comment?.split("\n").map(line => line.trim()).find(Boolean);
+}
+
+/**
+ * 直前のコメント（// または /* *\/）の1行目を取得する
+ */
+function getLeadingCommentSummary(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+  const ranges = ts.getLeadingCommentRanges(sourceFile.text, node.getFullStart()) ?? [];
+  const first = ranges[0];
+  if (!first) return undefined;
+  return sourceFile.text.slice(first.pos, first.end)
+    .replace(/^\/\*\*?|\*\/$/g, "")
+    .split("\n")
+    .map(line => line.replace(/^\s*(\/\/|\*)?\s*/, "").trim())
+    .find(Boolean);
+}
+
+/**
+ * 関数の引数と戻り値の型を文字列にする（デフォルト値は省略）
+ */
+function formatSignature(node: ts.SignatureDeclaration, sourceFile: ts.SourceFile): string {
+  const params = node.parameters.map(param => {
+    const name = param.name.getText(sourceFile);
+    const optional = param.questionToken || param.initializer ? "?" : "";
+    const rest = param.dotDotDotToken ? "..." : "";
+    const type = param.type ? `: ${param.type.getText(sourceFile)}` : "";
+    return `${rest}${name}${optional}${type}`;
+  });
+  const returnType = node.type ? `: ${node.type.getText(sourceFile)}` : "";
+  return `(${params.join(", ")})${returnType}`.replace(/\s+/g, " ");
+}
+
+/**
+ * 文字列リテラルの値を取得する
+ */
+function getStringLiteral(node: ts.Node | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+/**
+ * オブジェクトリテラルの文字列のプロパティを取り出す
+ */
+function getStringProperty(node: ts.ObjectLiteralExpression, name: string): string | undefined {
+  const property = node.properties.find((item): item is ts.PropertyAssignment =>
+    ts.isPropertyAssignment(item) && (ts.isIdentifier(item.name) || ts.isStringLiteral(item.name)) && item.name.text === name);
+  return getStringLiteral(property?.initializer);
+}
+
+/**
+ * 1ファイルを解析して一覧の項目を取り出す
+ */
+export function extractInventory(fileName: string, sourceText: string): InventoryEntry[] {
+  const sourceFile = ts.createSourceFile(fileName, sourceText, ts.ScriptTarget.Latest, true);
+  const entries: InventoryEntry[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  const add = (entry: Omit<InventoryEntry, "file" | "line">, node: ts.Node) =>
+    entries.push({ ...entry, file: fileName, line: lineOf(node) });
+
+  // export された宣言
+  sourceFile.statements.forEach(statement => {
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) return;
+
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      add({
+        kind: "function",
+        name: statement.name.text,
+        signature: formatSignature(statement, sourceFile),
+        description: getJsDocSummary(statement),
+      }, statement);
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      const className = statement.name.text;
+      add({ kind: "class", name: className, description: getJsDocSummary(statement) }, statement);
+      statement.members.forEach(member => {
+        if (!(ts.isMethodDeclaration(member) && member.name && ts.isIdentifier(member.name))) return;
+        if (hasModifier(member, ts.SyntaxKind.PrivateKeyword) || hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) return;
+        add({
+          kind: "method",
+          name: `${className}.${member.name.text}`,
+          signature: formatSignature(member, sourceFile),
+          description: getJsDocSummary(member),
+        }, member);
+      });
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name)) return;
+        const initializer = declaration.initializer;
+        const isFunction = initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+        add({
+          kind: isFunction ? "function" : "const",
+          name: declaration.name.text,
+          signature: isFunction ? formatSignature(initializer, sourceFile) : undefined,
+          description: getJsDocSummary(declaration) ?? getLeadingCommentSummary(statement, sourceFile),
+        }, declaration);
+      });
+    }
+  });
+
+  // MCPツール・リソース、HTTPルート、JSON-RPCメソッド
+  const visit = (node: ts.Node, statement?: ts.Node): void => {
+    const currentStatement = ts.isStatement(node) ? node : statement;
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      const firstArg = getStringLiteral(node.arguments[0]);
+      const comment = currentStatement ? getLeadingCommentSummary(currentStatement, sourceFile) : undefined;
+
+      if ((method === "tool" || method === "registerTool") && firstArg) {
+        // 2番目の引数が文字列の場合はツールの説明
+        add({ kind: "mcp-tool", name: firstArg, description: getStringLiteral(node.arguments[1]) ?? comment }, node);
+      } else if ((method === "resource" || method === "registerResource") && firstArg) {
+        add({ kind: "mcp-resource", name: firstArg, description: comment }, node);
+      } else if (HTTP_METHODS.has(method) && firstArg?.startsWith("/")) {
+        add({ kind: "http-route", name: `${method === "use" ? "USE" : method.toUpperCase()} ${firstArg}`, description: comment }, node);
+      }
+    }
+
+    // registerMethod({ name: "...", description: "..." }) で登録したメソッド
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === "registerMethod"
+      && node.arguments[0] && ts.isObjectLiteralExpression(node.arguments[0])) {
+      const name = getStringProperty(node.arguments[0], "name");
+      if (name) {
+        add({ kind: "json-rpc", name, description: getStringProperty(node.arguments[0], "description") }, node);
+      }
+    }
+
+    // switch (request.method) の case で分岐するメソッド
+    if (ts.isSwitchStatement(node) && /\.method$/.test(node.expression.getText(sourceFile))) {
+      node.caseBlock.clauses.forEach(clause => {
+        const name = ts.isCaseClause(clause) ? getStringLiteral(clause.expression) : undefined;
+        if (name) {
+          add({ kind: "json-rpc", name, description: getLeadingCommentSummary(clause.statements[0] ?? clause, sourceFile) }, clause);
+        }
+      });
+    }
+
+    ts.forEachChild(node, child => visit(child, currentStatement));
+  };
+  visit(sourceFile);
+
+  return entries;
+}
+
+/**
+ * 一覧を function_list の形式で出力する
+ */
+export function renderFunctionList(entries: InventoryEntry[]): string {
+  const byFile = new Map<string, InventoryEntry[]>();
+  entries.forEach(entry => {
+    byFile.set(entry.file, [...(byFile.get(entry.file) ?? []), entry]);
+  });
+
+  const sections = [...byFile.keys()].sort().map(file => {
+    const lines = byFile.get(file)!
+      .sort((a, b) => a.line - b.line)
+      .map(entry => {
+        const signature = entry.signature ?? "";
+        const description = entry.description ? ` - ${entry.description}` : "";
+        return `- [${KIND_LABELS[entry.kind]}] ${entry.name}${signature}${description}`;
+      });
+    return [`## ${file}`, ...lines].join("\n");
+  });
+
+  return [GENERATED_BEGIN, ...sections, GENERATED_END].join("\n\n");
+}
+
+/**
+ * ディレクトリ配下のソースから function_list を生成する
+ */
+export function generateFunctionList(rootDir: string): FunctionListResult {
+  const files = collectSourceFiles(rootDir, rootDir, loadAuditIgnore(rootDir));
+  const entries = files.flatMap(file => {
+    const relativePath = path.relative(rootDir, file).split(path.sep).join("/");
+    try {
+      return extractInventory(relativePath, fs.readFileSync(file, "utf8"));
+    } catch (err) {
+      logger.warn(`ソースの解析に失敗したためスキップします: ${relativePath}`, err);
+      return [];
+    }
+  });
+  logger.info(`function_list を生成しました: ${files.length}ファイル / ${entries.length}項目`);
+  return { entries, text: renderFunctionList(entries), files: files.length };
+}
+
+/**
+ * 既存の function_list の自動生成部分を置き換える
+ * マーカーがない場合は、手で書いた内容の前に自動生成部分を追加する
+ */
+export function mergeGeneratedSection(existing: string, generated: string): string {
+  const begin = existing.indexOf(GENERATED_BEGIN);
+  const end = existing.indexOf(GENERATED_END);
+  if (begin >= 0 && end > begin) {
+    return existing.slice(0, begin) + generated + existing.slice(end + GENERATED_END.length);
+  }
+  return existing.trim() ? `${generated}\n\n${existing.trimStart()}` : `${generated}\n`;
+}
+
+/**
+ * 監査結果の更新案（function_list_update）を function_list に追記する
+ * 同じラベルの更新案がすでに追記されている場合は何もしない
+ */
+export function appendFunctionListUpdate(existing: string, update: string, label: string): { text: string; applied: boolean } {
+  const header = `## 監査による更新案 (${label})`;
+  if (!update.trim() || existing.includes(header)) {
+    return { text: existing, applied: false };
+  }
+  return { text: `${existing.trimEnd()}\n\n${header}\n${update.trim()}\n`, applied: true };
+}
+
+/**
+ * function_list の生成・更新リクエスト
+ */
+export interface FunctionListRequest {
+  repo_path: string;    // 対象のディレクトリ（リポジトリ）
+  path?: string;        // 解析対象をこのディレクトリ配下に限定する（repo_path からの相対パス）
+  file?: string;        // 出力先（path からの相対パス、デフォルトは function_list.txt）
+  write?: boolean;      // true の場合はファイルに書き込む
+  report_id?: string;   // 更新案を反映するレポートのID
+}
+
+/**
+ * function_list の生成・更新の呼び出し元
+ * remote: HTTP経由のリクエスト（AUDIT_GIT_ROOTS を設定していない場合は repo_path を受け付けない）
+ */
+export interface FunctionListOptions {
+  remote?: boolean;
+}
+
+/**
+ * リクエストから解析対象のディレクトリと出力先のパスを求める
+ */
+function resolveFunctionListPaths(params: FunctionListRequest, options: FunctionListOptions): { rootDir: string; filePath: string } {
+  assertRelativePath(params.path, "path");
+  assertRelativePath(params.file, "file");
+  const rootDir = path.join(resolveRepoPath(params.repo_path, options), params.path || "");
+  if (!fs.existsSync(rootDir)) {
+    throw new Error(`ディレクトリが見つかりません: ${rootDir}`);
+  }
+  return { rootDir, filePath: path.join(rootDir, params.file || "function_list.txt") };
+}
+
+/**
+ * function_list を生成する（write: true の場合はファイルの自動生成部分を置き換える）
+ */
+export function updateFunctionList(
+  params: FunctionListRequest,
+  options: FunctionListOptions = {}
+): FunctionListResult & { path: string; written: boolean } {
+  const { rootDir, filePath } = resolveFunctionListPaths(params, options);
+  const result = generateFunctionList(rootDir);
+  if (params.write) {
+    const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
+    fs.writeFileSync(filePath, mergeGeneratedSection(existing, result.text), "utf8");
+    logger.info(`function_list を書き込みました: ${filePath}`);
+  }
+  return { ...result, path: filePath, written: !!params.write };
+}
+
+/**
+ * 保存済みレポートの更新案（function_list_update）を function_list に追記する
+ */
+export function applyFunctionListUpdate(
+  params: FunctionListRequest,
+  options: FunctionListOptions = {}
+): { path: string; applied: boolean; update: string } {
+  if (!params.report_id) {
+    throw new Error("パラメータ report_id が指定されていません。");
+  }
+  const { filePath } = resolveFunctionListPaths(params, options);
+  const update = getReport(params.report_id).auditResult.function_list_update;
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
+  const { text, applied } = appendFunctionListUpdate(existing, update, params.report_id);
+  if (applied) {
+    fs.writeFileSync(filePath, text, "utf8");
+    logger.info(`function_list に更新案を追記しました: ${filePath}`);
+  }
+  return { path: filePath, applied, update };
+}
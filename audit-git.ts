@@ -0,0 +1,265 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { AuditRequest, splitDiffByFiles } from "./audit-common.js";
+import { CacheMode } from "./audit-cache.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-git.ts
+ *
+ * サーバー側でGitリポジトリから監査リクエストを組み立てるモジュールです。
+ * pre_audit.sh や Cursor のショートカットがクライアント側で行っていた
+ *  - 差分の取得（ステージング優先、なければ未ステージング / 指定したコミット範囲）
+ *  - 変更ファイル一覧の取得
+ *  - function_list.txt の読み込み
+ *  - .auditignore による除外
+ * をまとめて行い、performAudit に渡せる AuditRequest を作成します。
+ *
+ * AUDIT_GIT_ROOTS（":" 区切り）を設定すると、指定したディレクトリ配下のリポジトリのみ監査できます。
+ * HTTP経由のリクエスト（remote）では、AUDIT_GIT_ROOTS を設定していない場合はリポジトリのパスを受け付けません。
+ */
+
+const execFileAsync = promisify(execFile);
+
+// git の出力の上限（大きな差分でも扱えるよう余裕を持たせる）
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+const DEFAULT_REQUEST = "直近のコード変更の監査をお願いします";
+
+/**
+ * 差分の取得元
+ *  - auto:         ステージングされた差分、なければ未ステージングの差分
+ *  - staged:       ステージングされた差分（git diff --cached）
+ *  - working_tree: 未ステージングの差分（git diff）
+ *  - range:        base と head の差分（git diff base...head）
+ */
+export type GitDiffSource = "auto" | "staged" | "working_tree" | "range";
+
+/**
+ * Gitリポジトリを指定した監査リクエスト
+ */
+export interface GitAuditRequest {
+  repo_path: string;                  // リポジトリのパス
+  source?: GitDiffSource;             // 差分の取得元（base を指定した場合のデフォルトは range、それ以外は auto）
+  base?: string;                      // 比較元のref（range の場合は必須）
+  head?: string;                      // 比較先のref（デフォルトは HEAD）
+  path?: string;                      // 監査対象をこのディレクトリ配下に限定する（リポジトリルートからの相対パス）
+  request?: string;
+  modification_description?: string;  // 省略時は task_list.txt、なければコミットメッセージを使用
+  function_list_path?: string;        // デフォルトは function_list.txt
+  llm?: boolean;
+  cache?: CacheMode;
+  profile?: string;
+  suggest_fixes?: boolean;
+  providers?: string[];
+  min_agreement?: number;
+  enrich_context?: boolean;
+}
+
+/**
+ * git コマンドを実行して標準出力を返す
+ */
+async function runGit(repoPath: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: repoPath,
+      maxBuffer: GIT_MAX_BUFFER,
+      encoding: "utf8",
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} に失敗しました: ${stderr || (err instanceof Error ? err.message : String(err))}`);
+  }
+}
+
+/**
+ * リポジトリのパスを検証し、絶対パスを返す（AUDIT_GIT_ROOTS の範囲外は拒否）
+ * remote: HTTP経由のリクエストの場合は、AUDIT_GIT_ROOTS が設定されていなければ拒否する
+ */
+export function resolveRepoPath(repoPath: string, options: { remote?: boolean } = {}): string {
+  const roots = (process.env.AUDIT_GIT_ROOTS || "").split(":").filter(Boolean).map(root => path.resolve(root));
+  if (options.remote && roots.length === 0) {
+    throw new Error("HTTP経由でリポジトリのパスを指定するには、サーバーで AUDIT_GIT_ROOTS を設定してください。");
+  }
+
+  const resolved = path.resolve(repoPath);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    throw new Error(`リポジトリのディレクトリが見つかりません: ${repoPath}`);
+  }
+
+  if (roots.length > 0 && !roots.some(root => resolved === root || resolved.startsWith(root + path.sep))) {
+    throw new Error(`監査が許可されていないディレクトリです: ${repoPath}`);
+  }
+  return resolved;
+}
+
+/**
+ * ref を検証する（オプションとして解釈される値は受け付けない）
+ */
+function assertValidRef(ref: string, name: string): void {
+  if (!ref || ref.startsWith("-") || /[\s\0]/.test(ref)) {
+    throw new Error(`不正な ${name} です: ${ref}`);
+  }
+}
+
+/**
+ * リポジトリ外を指すパスを受け付けない
+ */
+export function assertRelativePath(value: string | undefined, name: string): void {
+  if (value && (path.isAbsolute(value) || value.split(/[\\/]/).includes(".."))) {
+    throw new Error(`${name} にはリポジトリ内の相対パスを指定してください: ${value}`);
+  }
+}
+
+/**
+ * .auditignore を読み込む（1行1パターンの正規表現、# で始まる行と空行は無視）
+ */
+export function loadAuditIgnore(dir: string): RegExp[] {
+  const ignorePath = path.join(dir, ".auditignore");
+  if (!fs.existsSync(ignorePath)) return [];
+
+  return fs.readFileSync(ignorePath, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"))
+    .flatMap(pattern => {
+      try {
+        return [new RegExp(pattern)];
+      } catch {
+        logger.warn(`.auditignore の不正なパターンを無視します: ${pattern}`);
+        return [];
+      }
+    });
+}
+
+/**
+ * 読み込めればファイルの内容を返す
+ */
+function readIfExists(filePath: string): string | undefined {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : undefined;
+}
+
+/**
+ * 差分の取得に使う git diff の引数を決める
+ */
+async function resolveDiffArgs(repoPath: string, params: GitAuditRequest): Promise<{ args: string[]; source: GitDiffSource }> {
+  const source = params.source ?? (params.base ? "range" : "auto");
+  switch (source) {
+    case "range": {
+      if (!params.base) {
+        throw new Error("source が range の場合は base を指定してください。");
+      }
+      const head = params.head || "HEAD";
+      assertValidRef(params.base, "base");
+      assertValidRef(head, "head");
+      return { args: [`${params.base}...${head}`], source };
+    }
+    case "staged":
+      return { args: ["--cached"], source };
+    case "working_tree":
+      return { args: [], source };
+    case "auto": {
+      const staged = await runGit(repoPath, ["diff", "--cached", "--name-only"]);
+      return staged.trim()
+        ? { args: ["--cached"], source: "staged" }
+        : { args: [], source: "working_tree" };
+    }
+    default:
+      throw new Error(`不明な差分の取得元です: ${source}`);
+  }
+}
+
+/**
+ * rev-parse --symbolic-full-name の結果からブランチ名を取り出す（ブランチ以外の場合はなし）
+ * リモート追跡ブランチ（refs/remotes/origin/x）はリモート名を除いたブランチ名にする
+ */
+function toBranchName(fullName: string): string | undefined {
+  const branch = fullName.match(/^refs\/heads\/(.+)$/)?.[1] ?? fullName.match(/^refs\/remotes\/[^/]+\/(.+)$/)?.[1];
+  return branch && branch !== "HEAD" ? branch : undefined;
+}
+
+/**
+ * Gitリポジトリから監査リクエストを作成する
+ * remote: HTTP経由のリクエスト（AUDIT_GIT_ROOTS を設定していない場合は repo_path を受け付けない）
+ */
+export async function buildGitAuditRequest(params: GitAuditRequest, options: { remote?: boolean } = {}): Promise<AuditRequest> {
+  const repoPath = resolveRepoPath(params.repo_path, options);
+  const topLevel = (await runGit(repoPath, ["rev-parse", "--show-toplevel"])).trim();
+
+  assertRelativePath(params.path, "path");
+  assertRelativePath(params.function_list_path, "function_list_path");
+
+  const { args: diffArgs, source } = await resolveDiffArgs(repoPath, params);
+  const pathspec = params.path ? ["--", params.path] : [];
+  logger.info(`Gitリポジトリから差分を取得します: ${topLevel} (${source}${diffArgs.length ? ` ${diffArgs.join(" ")}` : ""})`);
+
+  // リネームを検出し、パスはリポジトリルートからの相対パスで取得
+  const baseArgs = ["-c", "core.quotepath=false", "diff", "--no-color", "--no-ext-diff", "-M", ...diffArgs];
+  const [diff, nameOnly] = await Promise.all([
+    runGit(topLevel, [...baseArgs, ...pathspec]),
+    runGit(topLevel, [...baseArgs, "--name-only", ...pathspec]),
+  ]);
+
+  // .auditignore に一致するファイルを除外
+  const ignorePatterns = loadAuditIgnore(topLevel);
+  const isIgnored = (file: string) => ignorePatterns.some(pattern => pattern.test(file));
+  const changedFiles = nameOnly.split("\n").filter(Boolean);
+  const targetFiles = changedFiles.filter(file => !isIgnored(file));
+  const codeChanges = [...splitDiffByFiles(diff)]
+    .filter(([file]) => !isIgnored(file))
+    .map(([, fileDiff]) => fileDiff)
+    .join("\n");
+  if (targetFiles.length < changedFiles.length) {
+    logger.info(`監査除外: ${changedFiles.length - targetFiles.length}件のファイルを除外しました`);
+  }
+  if (targetFiles.length === 0) {
+    logger.warn("監査対象のファイルがありません。");
+  }
+
+  // function_list.txt（パス指定がある場合はそのディレクトリのものを優先）
+  const functionListName = params.function_list_path || "function_list.txt";
+  const functionList = (params.path && readIfExists(path.join(topLevel, params.path, functionListName)))
+    || readIfExists(path.join(topLevel, functionListName))
+    || "// function_list.txtが見つかりません";
+
+  // 修正内容の説明: 指定 > task_list.txt > コミットメッセージ
+  const modificationDescription = params.modification_description
+    || readIfExists(path.join(topLevel, params.path || "", "task_list.txt"))?.trim()
+    || (source === "range"
+      ? (await runGit(topLevel, ["log", "--format=%s%n%n%b", `${params.base}..${params.head || "HEAD"}`])).trim()
+      : "");
+  if (!modificationDescription) {
+    throw new Error("modification_description を指定するか、task_list.txt に修正内容を記載してください。");
+  }
+
+  // コミットSHAとブランチは監査したツリーのもの（範囲指定の場合は head、チェックアウト中のブランチではない）
+  const headRef = source === "range" ? params.head || "HEAD" : "HEAD";
+  const [commitSha, branch] = await Promise.all([
+    runGit(topLevel, ["rev-parse", "--verify", `${headRef}^{commit}`]).then(out => out.trim()).catch(() => undefined),
+    runGit(topLevel, ["rev-parse", "--symbolic-full-name", headRef]).then(out => toBranchName(out.trim())).catch(() => undefined),
+  ]);
+
+  return {
+    request: params.request || DEFAULT_REQUEST,
+    modification_description: modificationDescription,
+    code_changes: codeChanges,
+    function_list: functionList,
+    changed_files: targetFiles,
+    commit_sha: commitSha,
+    branch,
+    llm: params.llm,
+    cache: params.cache,
+    profile: params.profile,
+    suggest_fixes: params.suggest_fixes,
+    providers: params.providers,
+    min_agreement: params.min_agreement,
+    enrich_context: params.enrich_context,
+    // 修正パッチは監査したツリー（範囲指定の場合は head のコミット）に対して検証する
+    patch_target: source === "range"
+      ? { repo_path: topLevel, tree: "commit", commit: commitSha }
+      : { repo_path: topLevel, tree: source === "staged" ? "index" : "working_tree" },
+  };
+}
@@ -1,7 +1,13 @@
 #!/usr/bin/env node
 
-import express from "express";
-import { performAudit, AuditRequest, DEFAULT_PORT } from "./audit-common.js";
+import express, { ErrorRequestHandler, Express, RequestHandler } from "express";
+import type { Server } from "http";
+import { DEFAULT_PORT, isMainModule } from "./audit-common.js";
+import { logger } from "./audit-logger.js";
+import { authenticate, checkRateLimit, isAuthEnabled, ApiClient } from "./audit-auth.js";
+import { JsonRpcError, JSON_RPC_ERRORS, toJsonRpcErrorObject, handleJsonRpcPayload, describeMethods } from "./audit-jsonrpc.js";
+import { mountMcpHttp, MCP_ENDPOINT, SSE_ENDPOINT } from "./audit-mcp-http.js";
+import "./audit-rpc-methods.js";
 
 /**
  * audit-http-server.ts
@@ -10,108 +16,189 @@ import { performAudit, AuditRequest, DEFAULT_PORT } from "./audit-common.js";
  *  1) Express.jsを使ってHTTPサーバーを構成
  *  2) JSON-RPCリクエストを受け付けて監査機能を実行
  *  という流れを実装しています。
- * 
+ *
+ * メソッドは audit-rpc-methods.ts でレジストリに登録され、rpc.discover で一覧を取得できます。
+ * JSON-RPC 2.0 のバッチリクエスト（配列）と通知（id のないリクエスト）に対応しています。
+ *
+ * APIキーを設定すると Authorization: Bearer <キー>（または X-API-Key）による認証が必要になり、
+ * キーごとのレート制限と1日の上限が適用されます（audit-auth.ts）。
+ *
+ * createHttpApp の mcp を指定すると、同じサーバーで MCP over HTTP（/mcp・/sse）も公開します（audit-mcp-http.ts）。
+ * 複数のトランスポートをまとめて起動する場合は audit-server.ts を使用してください。
+ *
  * 使用例:
  *   node audit-http-server.js
  *   PORT=8080 node audit-http-server.js  # ポート指定
+ *   AUDIT_HTTP_HOST=0.0.0.0 node audit-http-server.js  # すべてのインターフェースで待ち受け
  */
 
 // 設定
-const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : DEFAULT_PORT;
-
-// Expressアプリケーションを作成
-const app = express();
-app.use(express.json());
-
-// JSON-RPCリクエスト型定義
-interface JsonRpcRequest {
-  jsonrpc: string;
-  id: number | string;
-  method: string;
-  params: any;
+export const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : DEFAULT_PORT;
+export const HOST = process.env.AUDIT_HTTP_HOST || "127.0.0.1";
+const MAX_BODY_BYTES = process.env.AUDIT_MAX_BODY_BYTES ? parseInt(process.env.AUDIT_MAX_BODY_BYTES, 10) : 5 * 1024 * 1024;
+const CORS_ORIGINS = (process.env.AUDIT_CORS_ORIGINS || "").split(",").map(origin => origin.trim()).filter(Boolean);
+
+/**
+ * HTTPで公開するエンドポイント
+ */
+export interface HttpEndpoints {
+  rpc?: boolean;  // JSON-RPC（POST /）
+  mcp?: boolean;  // MCP over HTTP（/mcp・/sse・/messages）
 }
 
-// JSON-RPCエンドポイント
-// @ts-ignore: express 5.0.1との型互換性問題を無視
-app.post('/', async (req, res) => {
-  try {
-    console.log("リクエスト受信:", JSON.stringify(req.body, null, 2));
-    
-    // リクエストのバリデーション
-    if (!req.body || !req.body.method || !req.body.params) {
-      return res.status(400).json({
+/**
+ * Expressアプリケーションを作成する
+ */
+export function createHttpApp(endpoints: HttpEndpoints = { rpc: true }): Express {
+  const app = express();
+
+  // CORS（AUDIT_CORS_ORIGINS に指定したオリジンのみ許可、"*" ですべて許可）
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin && (CORS_ORIGINS.includes("*") || CORS_ORIGINS.includes(origin))) {
+      res.setHeader("Access-Control-Allow-Origin", CORS_ORIGINS.includes("*") ? "*" : origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version");
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    }
+    if (req.method === "OPTIONS") {
+      res.status(204).end();
+      return;
+    }
+    next();
+  });
+
+  // 認証とレート制限（未認証のリクエストの本文は読み込まない）
+  app.use((req, res, next) => {
+    try {
+      const client = authenticate(req.headers);
+      checkRateLimit(client);
+      res.locals.client = client;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.use(express.json({ limit: MAX_BODY_BYTES }));
+
+  // MCP over HTTP のエンドポイント
+  if (endpoints.mcp) {
+    mountMcpHttp(app);
+  }
+
+  // JSON-RPCエンドポイント
+  if (endpoints.rpc) {
+    const handleRpcRequest: RequestHandler = async (req, res): Promise<void> => {
+      try {
+        const client = res.locals.client as ApiClient;
+        const payload = req.body;
+        const calls = Array.isArray(payload) ? payload : [payload];
+
+        // 差分を含むためリクエスト本文はログに出力しない
+        const methodNames = calls.map(call => call?.method ?? "?").join(", ");
+        logger.info(`リクエスト受信: method=${methodNames} client=${client.name} (${req.headers["content-length"] ?? "?"}バイト)`);
+
+        // バッチの場合は2件目以降もレート制限の対象とする
+        calls.slice(1).forEach(() => checkRateLimit(client));
+
+        // JSON-RPCリクエストを処理（通知のみの場合はレスポンスなし）
+        const response = await handleJsonRpcPayload(payload, { client });
+        if (response === null) {
+          res.status(204).end();
+        } else {
+          res.json(response);
+        }
+      } catch (err) {
+        if (err instanceof JsonRpcError) {
+          throw err;
+        }
+        logger.error("エラー発生:", err);
+        res.json({
+          jsonrpc: "2.0",
+          id: null,
+          error: toJsonRpcErrorObject(err, JSON_RPC_ERRORS.INTERNAL_ERROR)
+        });
+      }
+    };
+    app.post('/', handleRpcRequest);
+  }
+
+  // 認証エラー・レート制限・リクエスト本文のエラー（サイズ超過・JSONとして不正）をJSON-RPCのエラーとして返す
+  const handleRequestError: ErrorRequestHandler = (err: unknown, req, res, next) => {
+    if (err instanceof JsonRpcError) {
+      logger.warn(`リクエストを拒否しました: ${err.message}`);
+      const retryAfterMs = (err.data as { retry_after_ms?: number } | undefined)?.retry_after_ms;
+      if (retryAfterMs !== undefined) {
+        res.setHeader("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+      }
+      res.status(err.httpStatus).json({
         jsonrpc: "2.0",
-        id: req.body?.id || null,
+        id: null,
+        error: toJsonRpcErrorObject(err),
+      });
+      return;
+    }
+    // express.json（body-parser）のエラーは type で種類を判別する
+    const type = typeof err === "object" && err !== null ? (err as { type?: unknown }).type : undefined;
+    if (type === "entity.too.large") {
+      res.status(413).json({
+        jsonrpc: "2.0",
+        id: null,
         error: {
-          code: -32600,
-          message: "Invalid Request: JSON-RPCリクエストの形式が不正です"
+          code: JSON_RPC_ERRORS.PAYLOAD_TOO_LARGE,
+          message: `Payload too large: リクエストのサイズが上限（${MAX_BODY_BYTES}バイト）を超えています`,
         }
       });
+      return;
     }
+    if (type === "entity.parse.failed") {
+      res.status(400).json({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: "Parse error: JSONとして解釈できません" }
+      });
+      return;
+    }
+    next(err);
+  };
+  app.use(handleRequestError);
 
-    // JSON-RPCリクエストを処理
-    const result = await processJsonRpcRequest(req.body as JsonRpcRequest);
-    res.json(result);
-  } catch (err) {
-    console.error("エラー発生:", err);
-    res.status(500).json({
-      jsonrpc: "2.0",
-      id: req.body?.id || null,
-      error: {
-        code: -32603,
-        message: err instanceof Error ? err.message : String(err)
-      }
-    });
-  }
-});
-
-// 起動
-app.listen(PORT, () => {
-  console.log(`\n====================================================`);
-  console.log(`🚀 監査サーバーが起動しました！`);
-  console.log(`📋 HTTP Endpoint: http://localhost:${PORT}/`);
-  console.log(`🔍 JSON-RPC監査リクエストはこちらに送信してください`);
-  console.log(`====================================================\n`);
-});
+  return app;
+}
 
 /**
- * JSON-RPCリクエストを処理する関数
+ * HTTPサーバーを起動する
  */
-async function processJsonRpcRequest(request: JsonRpcRequest): Promise<any> {
-  // 実装されているメソッドのチェック
-  if (request.method !== "tool/audit") {
-    return {
-      jsonrpc: "2.0",
-      id: request.id,
-      error: {
-        code: -32601,
-        message: `Method not found: ${request.method}`
+export function startHttpServer(endpoints: HttpEndpoints = { rpc: true }): Promise<Server> {
+  const app = createHttpApp(endpoints);
+  return new Promise((resolve, reject) => {
+    const server = app.listen(PORT, HOST, (error?: Error) => {
+      if (error) {
+        reject(error);
+        return;
       }
-    };
-  }
-
-  try {
-    // リクエストパラメータを取得
-    const params = request.params as AuditRequest;
-    
-    // 監査を実行
-    const result = await performAudit(params);
-    
-    // JSON-RPCレスポンスとして返却
-    return {
-      jsonrpc: "2.0",
-      id: request.id,
-      result: result
-    };
-  } catch (err) {
-    console.error("監査実行エラー:", err);
-    return {
-      jsonrpc: "2.0",
-      id: request.id,
-      error: {
-        code: -32000,
-        message: err instanceof Error ? err.message : String(err)
+      logger.info(`\n====================================================`);
+      logger.info(`🚀 監査サーバーが起動しました！`);
+      if (endpoints.rpc) {
+        logger.info(`📋 HTTP Endpoint: http://${HOST}:${PORT}/`);
+        logger.info(`🔍 JSON-RPC監査リクエストはこちらに送信してください（メソッド: ${describeMethods().length}件）`);
       }
-    };
-  }
-} 
\ No newline at end of file
+      if (endpoints.mcp) {
+        logger.info(`🔌 MCP Endpoint: http://${HOST}:${PORT}${MCP_ENDPOINT}（Streamable HTTP）`);
+        logger.info(`🔌 MCP Endpoint: http://${HOST}:${PORT}${SSE_ENDPOINT}（HTTP+SSE）`);
+      }
+      logger.info(`====================================================\n`);
+      if (!isAuthEnabled()) {
+        logger.warn("APIキーが設定されていないため、認証なしでリクエストを受け付けます。");
+      }
+      resolve(server);
+    });
+  });
+}
+
+// 直接実行された場合は JSON-RPC のエンドポイントのみで起動する
+if (isMainModule(import.meta.url)) {
+  await startHttpServer({ rpc: true });
+}
@@ -0,0 +1,212 @@
+import { randomUUID } from "crypto";
+import { performAudit, AuditRequest, AuditResponse, AuditProgress } from "./audit-common.js";
+import { AuditCancelledError } from "./audit-scheduler.js";
+import { JsonRpcError, JSON_RPC_ERRORS } from "./audit-jsonrpc.js";
+import { ApiClient, UsageReservation, settleUsage } from "./audit-auth.js";
+
+/**
+ * audit-jobs.ts
+ *
+ * 監査を非同期ジョブとしてバックグラウンドで実行するためのモジュールです。
+ * 時間のかかる監査でもリクエストはジョブIDをすぐに返し、
+ * クライアントは進捗の確認・結果の取得・キャンセルを別のリクエストで行います。
+ *
+ *  - 完了したジョブは結果を取得した時点で削除
+ *  - 結果が取得されないまま完了から AUDIT_JOB_TTL_MS が経過したジョブも削除
+ *  - ジョブは開始したクライアント（APIキーの名前）のもので、他のクライアントからは見つからないものとして扱う
+ *    （標準入出力のMCPサーバーなどクライアントのない呼び出しは、クライアントのないジョブのみ扱える）
+ *  - 実行待ち・実行中のジョブはクライアントごとに AUDIT_MAX_JOBS_PER_CLIENT 件（デフォルト2件）まで
+ */
+
+export type AuditJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * ジョブの状態（結果本体は含まない）
+ */
+export interface AuditJobInfo {
+  id: string;
+  status: AuditJobStatus;
+  request: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  expiresAt?: string;
+  progress: AuditProgress;
+  error?: string;
+}
+
+interface AuditJobEntry {
+  info: AuditJobInfo;
+  owner?: string;               // ジョブを開始したクライアントの名前
+  controller: AbortController;
+  result?: AuditResponse;
+}
+
+// 完了したジョブを保持する期間（デフォルト1時間）
+const JOB_TTL_MS = process.env.AUDIT_JOB_TTL_MS ? parseInt(process.env.AUDIT_JOB_TTL_MS, 10) : 60 * 60 * 1000;
+// クライアントごとの実行待ち・実行中のジョブの上限
+const MAX_JOBS_PER_CLIENT = process.env.AUDIT_MAX_JOBS_PER_CLIENT ? parseInt(process.env.AUDIT_MAX_JOBS_PER_CLIENT, 10) : 2;
+// 期限切れジョブを掃除する間隔
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+const jobs = new Map<string, AuditJobEntry>();
+
+/**
+ * 期限切れのジョブを削除する
+ */
+function removeExpiredJobs(): void {
+  const now = Date.now();
+  jobs.forEach((entry, id) => {
+    if (entry.info.expiresAt && Date.parse(entry.info.expiresAt) <= now) {
+      jobs.delete(id);
+    }
+  });
+}
+
+// プロセスの終了を妨げないよう unref しておく
+setInterval(removeExpiredJobs, CLEANUP_INTERVAL_MS).unref();
+
+/**
+ * ジョブの状態を更新する
+ */
+function updateJob(entry: AuditJobEntry, changes: Partial<AuditJobInfo>): void {
+  entry.info = { ...entry.info, ...changes, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * ジョブを完了状態にする
+ */
+function finishJob(entry: AuditJobEntry, status: AuditJobStatus, error?: string): void {
+  const finishedAt = new Date();
+  updateJob(entry, {
+    status,
+    error,
+    finishedAt: finishedAt.toISOString(),
+    expiresAt: new Date(finishedAt.getTime() + JOB_TTL_MS).toISOString(),
+  });
+}
+
+/**
+ * IDを指定してジョブを取得する（他のクライアントのジョブは見つからないものとして扱う）
+ */
+function getJobEntry(id: string, client: ApiClient | undefined): AuditJobEntry {
+  removeExpiredJobs();
+  const entry = jobs.get(id);
+  if (!entry || entry.owner !== client?.name) {
+    throw new Error(`監査ジョブが見つかりません: ${id}`);
+  }
+  return entry;
+}
+
+/**
+ * 監査ジョブを開始し、すぐにジョブの状態を返す
+ * client はジョブを開始したクライアント（HTTP経由の場合）、onProgress を指定するとジョブの進捗をあわせて受け取れる
+ * reservation（受付時に計上した利用量）はジョブの完了時に実際の利用量で確定する（失敗・キャンセルした場合は取り消す）
+ */
+export function startAuditJob(
+  params: AuditRequest,
+  options: { client?: ApiClient; reservation?: UsageReservation; onProgress?: (progress: AuditProgress) => void } = {}
+): AuditJobInfo {
+  const owner = options.client?.name;
+  const active = [...jobs.values()]
+    .filter(entry => entry.owner === owner && (entry.info.status === "queued" || entry.info.status === "running"));
+  if (active.length >= MAX_JOBS_PER_CLIENT) {
+    settleUsage(options.reservation);
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.RATE_LIMITED,
+      `Rate limited: 実行中の監査ジョブの上限（${MAX_JOBS_PER_CLIENT}件）に達しています。完了を待つか、ジョブをキャンセルしてください`,
+      { active_jobs: active.length, max_jobs_per_client: MAX_JOBS_PER_CLIENT },
+      429
+    );
+  }
+
+  const now = new Date().toISOString();
+  const entry: AuditJobEntry = {
+    owner,
+    info: {
+      id: randomUUID(),
+      status: "queued",
+      request: params.request,
+      createdAt: now,
+      updatedAt: now,
+      progress: { stage: "started", filesDone: 0, filesTotal: 0, message: "監査の開始を待っています" },
+    },
+    controller: new AbortController(),
+  };
+  jobs.set(entry.info.id, entry);
+
+  // 監査をバックグラウンドで実行
+  setImmediate(async () => {
+    if (entry.controller.signal.aborted) {
+      settleUsage(options.reservation);
+      return;
+    }
+    updateJob(entry, { status: "running" });
+    try {
+      entry.result = await performAudit(params, {
+        signal: entry.controller.signal,
+        onProgress: progress => {
+          updateJob(entry, { progress });
+          options.onProgress?.(progress);
+        },
+      });
+      settleUsage(options.reservation, entry.result.usage);
+      finishJob(entry, "succeeded");
+    } catch (err) {
+      settleUsage(options.reservation);
+      if (err instanceof AuditCancelledError || entry.controller.signal.aborted) {
+        finishJob(entry, "cancelled", "監査がキャンセルされました。");
+      } else {
+        finishJob(entry, "failed", err instanceof Error ? err.message : String(err));
+      }
+    }
+  });
+
+  return { ...entry.info };
+}
+
+/**
+ * ジョブの状態を取得する
+ */
+export function getAuditJobStatus(id: string, client?: ApiClient): AuditJobInfo {
+  return { ...getJobEntry(id, client).info };
+}
+
+/**
+ * 完了したジョブの結果を取得する
+ * 結果を返したジョブは削除される（実行中のジョブはエラー）
+ */
+export function takeAuditJobResult(id: string, client?: ApiClient): AuditJobInfo & { result?: AuditResponse } {
+  const entry = getJobEntry(id, client);
+  if (entry.info.status === "queued" || entry.info.status === "running") {
+    throw new Error(`監査ジョブはまだ完了していません: ${id} (${entry.info.status})`);
+  }
+  jobs.delete(id);
+  return { ...entry.info, result: entry.result };
+}
+
+/**
+ * ジョブをキャンセルする
+ */
+export function cancelAuditJob(id: string, client?: ApiClient): AuditJobInfo {
+  const entry = getJobEntry(id, client);
+  if (entry.info.status === "queued") {
+    entry.controller.abort();
+    finishJob(entry, "cancelled", "監査がキャンセルされました。");
+  } else if (entry.info.status === "running") {
+    // 実行中のリクエストを中断し、完了時に cancelled となる
+    entry.controller.abort();
+  }
+  return { ...entry.info };
+}
+
+/**
+ * クライアントのジョブの一覧を取得する（新しい順）
+ */
+export function listAuditJobs(client?: ApiClient): AuditJobInfo[] {
+  removeExpiredJobs();
+  return [...jobs.values()]
+    .filter(entry => entry.owner === client?.name)
+    .map(entry => ({ ...entry.info }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
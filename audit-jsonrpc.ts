@@ -0,0 +1,225 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ApiClient } from "./audit-auth.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-jsonrpc.ts
+ *
+ * JSON-RPC 2.0 のディスパッチャとメソッドレジストリを定義するモジュールです。
+ *
+ *  - registerMethod でメソッド（名前・説明・zod スキーマ・ハンドラ）を登録
+ *  - リクエストの形式（jsonrpc: "2.0" など）とパラメータを検証
+ *  - バッチリクエスト（配列）と通知（id のないリクエスト、レスポンスを返さない）に対応
+ *  - rpc.discover で登録されているメソッドとパラメータのJSON Schemaを返す
+ *
+ * エラーコードは仕様の定義に加え、予約されていない -32000〜-32099 をサーバー独自のエラーに使います。
+ * クライアントはエラーコードで認証エラーやレート制限などを区別できます。
+ */
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,        // JSONとして解釈できない
+  INVALID_REQUEST: -32600,    // JSON-RPCリクエストの形式が不正
+  METHOD_NOT_FOUND: -32601,   // 存在しないメソッド
+  INVALID_PARAMS: -32602,     // パラメータが不正
+  INTERNAL_ERROR: -32603,     // サーバー内部のエラー
+  SERVER_ERROR: -32000,       // 監査の実行中のエラー
+  UNAUTHORIZED: -32001,       // APIキーがない・不正
+  RATE_LIMITED: -32002,       // リクエスト数の上限を超えた
+  QUOTA_EXCEEDED: -32003,     // 1日のトークン数・コストの上限を超えた
+  PAYLOAD_TOO_LARGE: -32004,  // リクエスト・差分が大きすぎる
+} as const;
+
+/**
+ * JSON-RPCのエラーとして返すエラー
+ * httpStatus はHTTPレスポンスのステータスコード（JSON-RPCのエラーでも 401 / 429 などを返す場合に指定）
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown,
+    public readonly httpStatus = 200
+  ) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+/**
+ * エラーをJSON-RPCのエラーオブジェクトに変換する
+ */
+export function toJsonRpcErrorObject(err: unknown, defaultCode: number = JSON_RPC_ERRORS.SERVER_ERROR): { code: number; message: string; data?: unknown } {
+  if (err instanceof JsonRpcError) {
+    return err.data === undefined
+      ? { code: err.code, message: err.message }
+      : { code: err.code, message: err.message, data: err.data };
+  }
+  return { code: defaultCode, message: err instanceof Error ? err.message : String(err) };
+}
+
+export type JsonRpcId = string | number | null;
+
+/**
+ * JSON-RPCのレスポンス（単体）
+ */
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId; error: { code: number; message: string; data?: unknown } };
+
+/**
+ * メソッドの実行時に渡される情報
+ */
+export interface JsonRpcContext {
+  client: ApiClient;
+}
+
+/**
+ * 登録するメソッドの定義
+ * params は zod で検証してからハンドラに渡す（不正な場合は -32602 Invalid params）
+ */
+export interface JsonRpcMethod<P> {
+  name: string;
+  description: string;
+  params: z.ZodType<P>;
+  handler: (params: P, context: JsonRpcContext) => unknown | Promise<unknown>;
+}
+
+/**
+ * レジストリに保持するメソッド（パラメータの検証とハンドラの呼び出しをまとめ、パラメータの型を消したもの）
+ */
+interface RegisteredMethod {
+  name: string;
+  description: string;
+  params: z.ZodTypeAny;
+  invoke: (params: unknown, context: JsonRpcContext) => Promise<unknown>;
+}
+
+const JsonRpcRequestSchema = z.object({
+  jsonrpc: z.literal("2.0"),
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string().min(1),
+  params: z.union([z.record(z.unknown()), z.array(z.unknown())]).optional(),
+});
+
+const methods = new Map<string, RegisteredMethod>();
+
+/**
+ * メソッドを登録する
+ */
+export function registerMethod<P>(method: JsonRpcMethod<P>): void {
+  methods.set(method.name, {
+    name: method.name,
+    description: method.description,
+    params: method.params,
+    invoke: async (params, context) => {
+      const parsed = method.params.safeParse(params);
+      if (!parsed.success) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, "Invalid params: パラメータが不正です", formatIssues(parsed.error));
+      }
+      return method.handler(parsed.data, context);
+    },
+  });
+}
+
+/**
+ * 登録されているメソッドの一覧（名前・説明・パラメータのJSON Schema）を返す
+ */
+export function describeMethods(): { name: string; description: string; params: unknown }[] {
+  return [...methods.values()].map(method => ({
+    name: method.name,
+    description: method.description,
+    params: zodToJsonSchema(method.params, { target: "jsonSchema7", $refStrategy: "none" }),
+  }));
+}
+
+/**
+ * 成功レスポンスを作成する
+ */
+function success(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, result: result === undefined ? null : result };
+}
+
+/**
+ * エラーレスポンスを作成する
+ */
+function failure(id: JsonRpcId, err: unknown, defaultCode?: number): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: toJsonRpcErrorObject(err, defaultCode) };
+}
+
+/**
+ * リクエストの id を取り出す（形式が不正な場合は null）
+ */
+function extractId(payload: unknown): JsonRpcId {
+  const id = (payload as { id?: unknown } | null)?.id;
+  return typeof id === "string" || typeof id === "number" ? id : null;
+}
+
+/**
+ * 単体のリクエストを処理する
+ * 通知（id のないリクエスト）の場合は実行だけ行い、null を返す
+ */
+async function handleSingle(payload: unknown, context: JsonRpcContext): Promise<JsonRpcResponse | null> {
+  const parsed = JsonRpcRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    return failure(
+      extractId(payload),
+      new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request: JSON-RPCリクエストの形式が不正です", formatIssues(parsed.error))
+    );
+  }
+
+  const request = parsed.data;
+  const isNotification = !("id" in (payload as object));
+  const id = request.id ?? null;
+
+  try {
+    const method = methods.get(request.method);
+    if (!method) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+
+    const result = await method.invoke(request.params ?? {}, context);
+    return isNotification ? null : success(id, result);
+  } catch (err) {
+    if (err instanceof JsonRpcError) {
+      logger.warn(`JSON-RPCエラー (${request.method}): ${err.message}`);
+    } else {
+      logger.error(`メソッドの実行中にエラーが発生しました (${request.method}):`, err);
+    }
+    return isNotification ? null : failure(id, err);
+  }
+}
+
+/**
+ * JSON-RPCのリクエスト本文（単体またはバッチ）を処理する
+ * 返すレスポンスがない場合（通知のみ）は null を返す
+ */
+export async function handleJsonRpcPayload(
+  payload: unknown,
+  context: JsonRpcContext
+): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+  if (!Array.isArray(payload)) {
+    return handleSingle(payload, context);
+  }
+  if (payload.length === 0) {
+    return failure(null, new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request: バッチが空です"));
+  }
+
+  const responses = (await Promise.all(payload.map(item => handleSingle(item, context))))
+    .filter((response): response is JsonRpcResponse => response !== null);
+  return responses.length > 0 ? responses : null;
+}
+
+/**
+ * zod の検証エラーをレスポンスの data 用に整形する
+ */
+function formatIssues(error: z.ZodError): { path: string; message: string }[] {
+  return error.issues.map(issue => ({ path: issue.path.join(".") || "(root)", message: issue.message }));
+}
+
+registerMethod({
+  name: "rpc.discover",
+  description: "利用できるメソッドの一覧と、パラメータのJSON Schemaを返す",
+  params: z.object({}),
+  handler: () => ({ methods: describeMethods() }),
+});
@@ -0,0 +1,53 @@
+import { format } from "util";
+
+/**
+ * audit-logger.ts
+ *
+ * 診断ログの出力先をまとめたモジュールです。
+ * MCPサーバーを標準入出力モードで動かす場合、標準出力はプロトコルの通信路になるため、
+ * ログはすべて標準エラー出力に書き出します。
+ *
+ * 出力するレベルは AUDIT_LOG_LEVEL（debug / info / warn / error、デフォルトは info）で指定できます。
+ * setLogFilter で登録したフィルタ（機密情報のマスク、audit-redaction.ts）は、Error などの文字列以外の引数も含めて
+ * console と同じ形式で文字列にしてから適用します（エラーのメッセージ・スタックに含まれる値もマスクされます）。
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: LogLevel[] = ["debug", "info", "warn", "error"];
+
+let logFilter: ((text: string) => string) | undefined;
+
+/**
+ * 出力する文字列に適用するフィルタを登録する
+ */
+export function setLogFilter(filter: (text: string) => string): void {
+  logFilter = filter;
+}
+
+/**
+ * 現在の出力レベルを取得する
+ */
+function getLogLevel(): LogLevel {
+  const level = process.env.AUDIT_LOG_LEVEL as LogLevel;
+  return LEVEL_ORDER.includes(level) ? level : "info";
+}
+
+/**
+ * 指定したレベルで標準エラー出力に書き出す
+ */
+function write(level: LogLevel, args: unknown[]): void {
+  if (LEVEL_ORDER.indexOf(level) < LEVEL_ORDER.indexOf(getLogLevel())) return;
+  if (logFilter) {
+    console.error(logFilter(format(...args)));
+  } else {
+    console.error(...args);
+  }
+}
+
+export const logger = {
+  debug: (...args: unknown[]) => write("debug", args),
+  info: (...args: unknown[]) => write("info", args),
+  warn: (...args: unknown[]) => write("warn", args),
+  error: (...args: unknown[]) => write("error", args),
+};
@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+import type { Express, Request, Response } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "./audit-mcp-server.js";
+import { ApiClient } from "./audit-auth.js";
+import { JSON_RPC_ERRORS } from "./audit-jsonrpc.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-mcp-http.ts
+ *
+ * MCPサーバーを HTTP で公開するモジュールです（MCP over HTTP）。
+ *
+ *  - Streamable HTTP: /mcp（POST でリクエスト、GET で通知用のストリーム、DELETE でセッションを終了）
+ *  - 旧来の HTTP+SSE: /sse（GET でストリームを開始）と /messages?sessionId=...（POST でリクエスト）
+ *
+ * セッションごとに createMcpServer でMCPサーバーを作成するため、ツールの定義は標準入出力の場合と共通です。
+ * セッションは作成したクライアント（APIキー）に紐付け、他のクライアントからは使用できません。
+ * 一定時間リクエストのないセッションは閉じます（AUDIT_MCP_SESSION_TTL_MS）。
+ *
+ * 認証・レート制限・リクエスト本文の読み込みは audit-http-server.ts のミドルウェアで行います。
+ */
+
+export const MCP_ENDPOINT = "/mcp";
+export const SSE_ENDPOINT = "/sse";
+export const SSE_MESSAGES_ENDPOINT = "/messages";
+
+// セッションの有効期限（最後のリクエストからの時間）
+const SESSION_TTL_MS = process.env.AUDIT_MCP_SESSION_TTL_MS ? parseInt(process.env.AUDIT_MCP_SESSION_TTL_MS, 10) : 30 * 60 * 1000;
+// 同時に保持するセッション数の上限
+const MAX_SESSIONS = process.env.AUDIT_MCP_MAX_SESSIONS ? parseInt(process.env.AUDIT_MCP_MAX_SESSIONS, 10) : 100;
+// 期限切れのセッションを確認する間隔
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * MCPのセッション
+ */
+interface McpSession {
+  id: string;
+  kind: "streamable-http" | "sse";
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  client: string;     // セッションを作成したクライアント名
+  lastSeen: number;
+}
+
+const sessions = new Map<string, McpSession>();
+
+/**
+ * JSON-RPCのエラーレスポンスを返す
+ */
+function sendError(res: Response, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.status(status).json({ jsonrpc: "2.0", id: null, error: { code, message } });
+}
+
+/**
+ * セッションを閉じて一覧から除く
+ */
+async function closeSession(session: McpSession, reason: string): Promise<void> {
+  if (!sessions.delete(session.id)) return;
+  logger.info(`MCPセッションを閉じました: ${session.id}（${session.kind}、client=${session.client}、${reason}）`);
+  try {
+    await session.server.close();
+  } catch (err) {
+    logger.warn(`MCPセッションを閉じる際にエラーが発生しました: ${session.id}`, err instanceof Error ? err.message : err);
+  }
+}
+
+/**
+ * リクエストのセッションを取得する（存在しない・他のクライアントのセッションの場合はエラーを返して undefined）
+ */
+function findSession(req: Request, res: Response, sessionId: string | undefined, kind: McpSession["kind"]): McpSession | undefined {
+  const client = res.locals.client as ApiClient;
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!sessionId) {
+    sendError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, "Bad Request: セッションIDが指定されていません");
+    return undefined;
+  }
+  // 他のクライアントのセッションは存在しないものとして扱う
+  if (!session || session.kind !== kind || session.client !== client.name) {
+    sendError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found: セッションが存在しないか、期限切れです");
+    return undefined;
+  }
+  session.lastSeen = Date.now();
+  return session;
+}
+
+/**
+ * セッション数の上限を確認する（上限に達している場合はエラーを返して false）
+ */
+function checkSessionLimit(res: Response): boolean {
+  if (sessions.size < MAX_SESSIONS) return true;
+  logger.warn(`MCPセッション数が上限（${MAX_SESSIONS}）に達しているため、新しいセッションを拒否しました`);
+  sendError(res, 503, JSON_RPC_ERRORS.SERVER_ERROR, "Service unavailable: セッション数の上限に達しています");
+  return false;
+}
+
+/**
+ * Streamable HTTP のリクエストを処理する
+ * セッションIDのない initialize リクエストで新しいセッションを作成する
+ */
+async function handleStreamableRequest(req: Request, res: Response): Promise<void> {
+  const sessionId = req.headers["mcp-session-id"] as string | undefined;
+  if (sessionId || req.method !== "POST" || !isInitializeRequest(req.body)) {
+    const session = findSession(req, res, sessionId, "streamable-http");
+    if (!session) return;
+    await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+    return;
+  }
+  if (!checkSessionLimit(res)) return;
+
+  const client = res.locals.client as ApiClient;
+  const server = createMcpServer({ client });
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: id => {
+      sessions.set(id, { id, kind: "streamable-http", transport, server, client: client.name, lastSeen: Date.now() });
+      logger.info(`MCPセッションを開始しました: ${id}（streamable-http、client=${client.name}）`);
+    },
+  });
+  // transport.onclose は connect で置き換えられるため、サーバー側の onclose で検知する
+  server.server.onclose = () => {
+    const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+    if (session) void closeSession(session, "クライアントが終了");
+  };
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * 旧来の HTTP+SSE のストリームを開始する
+ */
+async function handleSseStream(req: Request, res: Response): Promise<void> {
+  if (!checkSessionLimit(res)) return;
+
+  const client = res.locals.client as ApiClient;
+  const server = createMcpServer({ client });
+  const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+  const session: McpSession = {
+    id: transport.sessionId,
+    kind: "sse",
+    transport,
+    server,
+    client: client.name,
+    lastSeen: Date.now(),
+  };
+  sessions.set(session.id, session);
+  res.on("close", () => void closeSession(session, "接続が切断"));
+  logger.info(`MCPセッションを開始しました: ${session.id}（sse、client=${client.name}）`);
+  await server.connect(transport);
+}
+
+/**
+ * 旧来の HTTP+SSE のリクエストを処理する
+ */
+async function handleSseMessage(req: Request, res: Response): Promise<void> {
+  const session = findSession(req, res, req.query.sessionId as string | undefined, "sse");
+  if (!session) return;
+  await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+}
+
+/**
+ * Expressアプリケーションに MCP over HTTP のエンドポイントを追加する
+ * 認証のミドルウェア（res.locals.client を設定）と express.json の後に呼び出す
+ */
+export function mountMcpHttp(app: Express): void {
+  const wrap = (handler: (req: Request, res: Response) => Promise<void>) =>
+    async (req: Request, res: Response) => {
+      try {
+        await handler(req, res);
+      } catch (err) {
+        logger.error("MCP over HTTP のリクエストの処理中にエラーが発生しました:", err);
+        sendError(res, 500, JSON_RPC_ERRORS.INTERNAL_ERROR, "Internal error: リクエストを処理できませんでした");
+      }
+    };
+
+  app.post(MCP_ENDPOINT, wrap(handleStreamableRequest));
+  app.get(MCP_ENDPOINT, wrap(handleStreamableRequest));
+  app.delete(MCP_ENDPOINT, wrap(handleStreamableRequest));
+  app.get(SSE_ENDPOINT, wrap(handleSseStream));
+  app.post(SSE_MESSAGES_ENDPOINT, wrap(handleSseMessage));
+
+  // 期限切れのセッションを定期的に閉じる
+  setInterval(() => {
+    const expiresBefore = Date.now() - SESSION_TTL_MS;
+    [...sessions.values()]
+      .filter(session => session.lastSeen < expiresBefore)
+      .forEach(session => void closeSession(session, "有効期限切れ"));
+  }, SWEEP_INTERVAL_MS).unref();
+}
+
+/**
+ * すべてのセッションを閉じる（サーバーの終了時）
+ */
+export async function closeAllMcpSessions(): Promise<void> {
+  await Promise.all([...sessions.values()].map(session => closeSession(session, "サーバーの終了")));
+}
@@ -1,75 +1,422 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { performAudit, AuditRequest } from "./audit-common.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { performAudit, AuditRequest, AuditProgress, isMainModule } from "./audit-common.js";
+import { logger } from "./audit-logger.js";
+import {
+  startAuditJob,
+  getAuditJobStatus,
+  takeAuditJobResult,
+  cancelAuditJob,
+  listAuditJobs,
+} from "./audit-jobs.js";
+import { buildGitAuditRequest } from "./audit-git.js";
+import { assertContextRepoPath } from "./audit-context.js";
+import { updateFunctionList, applyFunctionListUpdate } from "./audit-function-list.js";
+import { listReports, getReport, compareReports } from "./audit-reports.js";
+import { getUsageStats } from "./audit-usage.js";
+import { purgeCache } from "./audit-cache.js";
+import { listAuditProfiles } from "./audit-profiles.js";
+import { listRulePacks } from "./audit-rule-packs.js";
+import { askFollowup } from "./audit-followup.js";
+import { testNotification } from "./audit-notifications.js";
+import { ApiClient, reserveAuditUsage, runWithReservation } from "./audit-auth.js";
+import {
+  AuditParamsSchema,
+  GitAuditParamsSchema,
+  JobIdSchema,
+  FunctionListGenerateParamsSchema,
+  FunctionListApplyParamsSchema,
+  ReportFilterSchema,
+  CompareReportsParamsSchema,
+  FollowupParamsSchema,
+  StatsParamsSchema,
+  CachePurgeParamsSchema,
+  NotificationTestParamsSchema,
+} from "./audit-schemas.js";
 
 /**
  * audit-mcp-server.ts
  *
  * このファイルでは、
  *  1) MCPサーバーを設定
- *  2) "audit" MCPツールを定義
- *  3) StdioServerTransportを使ってメッセージの送受信を設定
+ *  2) "audit" / "audit_git" MCPツールと、非同期ジョブ用の
+ *     "audit_status" / "audit_result" / "audit_cancel" / "audit_list" ツールを定義
+ *  3) 保存済みレポートを MCPリソース（audit://reports/{id}）として公開し、
+ *     検索用の "audit_reports" と比較用の "audit_compare" ツール、
+ *     レポートについて追加の質問をする "audit_followup" ツールを定義
+ *  4) function_list を生成・更新する "function_list_generate" / "function_list_apply" ツールを定義
+ *  5) トークン数・コストの累計を返す "stats" ツールと、キャッシュを削除する "audit_cache_purge" ツールを定義
+ *     監査プロファイルの一覧を返す "audit_profiles" ツールと、ルールパックの一覧を返す "audit_rule_packs" ツール、
+ *     通知先への送信を試す "notification_test" ツールを定義
+ *  6) StdioServerTransportを使ってメッセージの送受信を設定
  *  という流れを実装しています。
+ *
+ * ツールの定義は createMcpServer にまとめ、標準入出力と MCP over HTTP（audit-mcp-http.ts、セッションごとに作成）で
+ * 同じ定義を使います。複数のトランスポートを同時に起動する場合は audit-server.ts を使用してください。
+ * HTTP経由の場合は認証したクライアントごとに、監査・追加の質問の前に差分のサイズと1日の上限を確認します。
+ *
+ * 監査の進捗は、MCPの進捗通知（notifications/progress、クライアントが progressToken を指定した場合）と
+ * ログ通知（notifications/message）としてクライアントに送信します。
+ * 標準出力はプロトコルの通信路のため、診断ログはすべて標準エラー出力に書き出します。
  * 
  * 使用例:
- *   node audit-mcp-server.js
+ *   node audit-mcp-server.js  # 標準入出力のみ（node audit-server.js --transports stdio と同じ）
+ */
+
+/**
+ * ツールの結果をMCPレスポンスに変換する
+ */
+function toolResult(data: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(data, null, 2)
+      },
+    ],
+  };
+}
+
+/**
+ * エラーをMCPレスポンスに変換する
  */
+function toolError(error: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          },
+          null,
+          2
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * 監査の進捗をMCPの通知として送信する関数を作成する
+ * 進捗値は「監査済みファイル数」に、サマリー生成と保存の2段階を加えたものとする
+ */
+function createProgressNotifier(extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  const progressToken = extra._meta?.progressToken;
+
+  return (progress: AuditProgress) => {
+    const total = progress.filesTotal + 2;
+    const value = progress.stage === "done"
+      ? total
+      : progress.stage === "summarizing" || progress.stage === "fixing" || progress.stage === "saving"
+        ? progress.filesTotal + 1
+        : progress.filesDone;
+
+    const notifications: ServerNotification[] = [
+      {
+        method: "notifications/message",
+        params: {
+          level: "info",
+          logger: "audit",
+          data: { ...progress },
+        },
+      },
+    ];
+    if (progressToken !== undefined) {
+      notifications.push({
+        method: "notifications/progress",
+        params: { progressToken, progress: value, total, message: progress.message },
+      });
+    }
+
+    // 通知の送信に失敗しても監査は継続する
+    notifications.forEach(notification => {
+      extra.sendNotification(notification).catch(err => {
+        logger.warn("進捗通知の送信に失敗しました:", err);
+      });
+    });
+  };
+}
 
 /**
- * MCPサーバーを設定する
+ * MCPサーバーを作成し、ツールとリソースを登録する
+ * client を指定した場合（HTTP経由）は、監査・追加の質問の前にそのクライアントの差分のサイズと1日の上限を確認し、
+ * 非同期ジョブはそのクライアントのものだけを扱う（repo_path は AUDIT_GIT_ROOTS を設定した場合のみ受け付ける）
  */
-function setupMcpServer(): McpServer {
+export function createMcpServer(options: { client?: ApiClient } = {}): McpServer {
+  const remote = options.client !== undefined;
+
+  // 監査を同期またはジョブとして実行する
+  //   HTTP経由の場合は受付時に見積もりで1日の上限を確認し、完了後に実際の利用量で計上する
+  //   同期の場合は進捗を通知として送信し、クライアントからのキャンセルで中断する
+  const runAudit = async (
+    params: AuditRequest,
+    runAsync: boolean | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) => {
+    assertContextRepoPath(params, { remote });
+    const reservation = options.client ? reserveAuditUsage(options.client, params) : undefined;
+    if (runAsync) {
+      return startAuditJob(params, { client: options.client, reservation });
+    }
+    return runWithReservation(reservation, () => performAudit(params, {
+      signal: extra.signal,
+      onProgress: createProgressNotifier(extra),
+    }));
+  };
+
   // MCPサーバーを作成
-  const server = new McpServer({
-    name: "cursor-audit-server",
-    version: "1.0.0",
-  });
+  const server = new McpServer(
+    {
+      name: "cursor-audit-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: { logging: {} },
+    }
+  );
 
   // ツール "audit" を定義
-  //   受け取れるパラメータを zod で定義し、実行ロジックを実装
+  //   受け取れるパラメータは JSON-RPC の tool/audit と共通の zod スキーマ（audit-schemas.ts）を使う
   server.tool(
     "audit",
-    {
-      request: z.string().describe("監査リクエストの内容"),
-      modification_description: z.string().describe("変更内容の説明"),
-      code_changes: z.string().describe("コード差分 (diff形式など)"),
-      function_list: z.string().describe("function_list.txt の内容 (パッケージ側で管理)"),
-      changed_files: z.array(z.string()).optional().describe("変更されたファイル一覧"),
-    },
-    async (params: AuditRequest) => {
-      try {
-        // 共通監査機能を呼び出し
-        const result = await performAudit(params);
-
-        // MCPレスポンスとして返却
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2)
-            },
-          ],
-        };
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  status: "failed",
-                  error: error instanceof Error ? error.message : String(error),
-                },
-                null,
-                2
-              ),
-            },
-          ],
-          isError: true,
-        };
+    AuditParamsSchema.shape,
+    async ({ async: runAsync, ...params }, extra) => {
+      try {
+        // 非同期モードではジョブを開始してジョブ情報を返す
+        return toolResult(await runAudit(params, runAsync, extra));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // ツール "audit_git" を定義
+  //   差分・変更ファイル・function_list.txt をサーバー側でGitリポジトリから収集して監査する
+  server.tool(
+    "audit_git",
+    GitAuditParamsSchema.shape,
+    async ({ async: runAsync, ...gitParams }, extra) => {
+      try {
+        const params = await buildGitAuditRequest(gitParams, { remote });
+        return toolResult(await runAudit(params, runAsync, extra));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 非同期ジョブの状態・進捗を取得
+  server.tool(
+    "audit_status",
+    JobIdSchema.shape,
+    async ({ jobId }) => {
+      try {
+        return toolResult(getAuditJobStatus(jobId, options.client));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 完了した非同期ジョブの結果を取得（取得後ジョブは削除）
+  server.tool(
+    "audit_result",
+    JobIdSchema.shape,
+    async ({ jobId }) => {
+      try {
+        return toolResult(takeAuditJobResult(jobId, options.client));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 非同期ジョブをキャンセル
+  server.tool(
+    "audit_cancel",
+    JobIdSchema.shape,
+    async ({ jobId }) => {
+      try {
+        return toolResult(cancelAuditJob(jobId, options.client));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 非同期ジョブの一覧を取得
+  server.tool(
+    "audit_list",
+    {},
+    async () => {
+      try {
+        return toolResult(listAuditJobs(options.client));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // ソースから function_list を生成
+  server.tool(
+    "function_list_generate",
+    FunctionListGenerateParamsSchema.shape,
+    async (params) => {
+      try {
+        const { entries, ...result } = updateFunctionList(params, { remote });
+        return toolResult({ ...result, entries: entries.length });
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 監査レポートの function_list 更新案をファイルに追記
+  server.tool(
+    "function_list_apply",
+    FunctionListApplyParamsSchema.shape,
+    async (params) => {
+      try {
+        return toolResult(applyFunctionListUpdate(params, { remote }));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 保存済みレポートをリソースとして公開（一覧は新しい順）
+  server.resource(
+    "audit-report",
+    new ResourceTemplate("audit://reports/{id}", {
+      list: async () => ({
+        resources: listReports().map(report => ({
+          uri: `audit://reports/${report.id}`,
+          name: `${report.createdAt} ${report.metadata.request}`,
+          description: [report.metadata.branch, report.metadata.commit_sha, report.metadata.status]
+            .filter(Boolean).join(" / "),
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    { description: "保存済みの監査レポート（メタデータ・構造化された監査結果・Markdownレポート）", mimeType: "application/json" },
+    async (uri, { id }) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(getReport(String(id)), null, 2),
+        },
+      ],
+    })
+  );
+
+  // 保存済みレポートを検索
+  server.tool(
+    "audit_reports",
+    ReportFilterSchema.shape,
+    async (filter) => {
+      try {
+        return toolResult(listReports(filter));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 2つのレポートの指摘を比較（解消 / 新規 / 継続）
+  server.tool(
+    "audit_compare",
+    CompareReportsParamsSchema.shape,
+    async ({ base_id, head_id }) => {
+      try {
+        return toolResult(compareReports(base_id, head_id));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 監査結果についての追加の質問（会話はレポートに追記）
+  server.tool(
+    "audit_followup",
+    FollowupParamsSchema.shape,
+    async (params, extra) => {
+      try {
+        return toolResult(await askFollowup(params, { signal: extra.signal, client: options.client }));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // トークン数・コストの累計（サーバー起動以降と保存済みレポート）
+  server.tool(
+    "stats",
+    StatsParamsSchema.shape,
+    async (filter) => {
+      try {
+        return toolResult(getUsageStats(filter));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 監査結果のキャッシュを削除
+  server.tool(
+    "audit_cache_purge",
+    CachePurgeParamsSchema.shape,
+    async (params) => {
+      try {
+        return toolResult(purgeCache(params));
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 利用できる監査プロファイルの一覧
+  server.tool(
+    "audit_profiles",
+    {},
+    async () => {
+      try {
+        return toolResult(listAuditProfiles());
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // ファイルの種類ごとのルールパックの一覧
+  server.tool(
+    "audit_rule_packs",
+    {},
+    async () => {
+      try {
+        return toolResult(listRulePacks());
+      } catch (error) {
+        return toolError(error);
+      }
+    }
+  );
+
+  // 保存済みレポートで通知先への送信を試す
+  server.tool(
+    "notification_test",
+    NotificationTestParamsSchema.shape,
+    async (params) => {
+      try {
+        return toolResult(await testNotification(params));
+      } catch (error) {
+        return toolError(error);
       }
     }
   );
@@ -77,10 +424,17 @@ function setupMcpServer(): McpServer {
   return server;
 }
 
-// MCPサーバーを設定
-const server = setupMcpServer();
+/**
+ * 標準入出力でMCPサーバーを起動する
+ */
+export async function startStdioServer(): Promise<McpServer> {
+  const server = createMcpServer();
+  logger.info("MCPサーバーを標準入出力モードで起動しています...");
+  await server.connect(new StdioServerTransport());
+  return server;
+}
 
-// 標準入出力で通信を開始
-console.log("MCPサーバーを標準入出力モードで起動しています...");
-const transport = new StdioServerTransport();
-await server.connect(transport); 
\ No newline at end of file
+// 直接実行された場合は標準入出力で起動する
+if (isMainModule(import.meta.url)) {
+  await startStdioServer();
+}
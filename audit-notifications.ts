@@ -0,0 +1,463 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createHmac } from "crypto";
+import fetch from "node-fetch";
+import { z } from "zod";
+import { AuditResult, Severity, SeveritySchema, SEVERITY_ORDER, countFindings, formatFindingLocation } from "./audit-result.js";
+import { AuditProfile, getAuditProfile, OVERALL_SECTION_KEY, PROFILE_TEXTS } from "./audit-profiles.js";
+import { meetsSeverity } from "./audit-formats.js";
+import { ReportMetadata, getReport, getReportsDir } from "./audit-reports.js";
+import { sendMail } from "./audit-smtp.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-notifications.ts
+ *
+ * 監査が完了したときに、設定した通知先（notifier）へ結果の概要を送信するモジュールです。
+ *
+ *  - webhook: 任意のURLにJSONをPOSTする（secret を設定するとHMAC-SHA256の署名を付ける）
+ *  - slack:   Slack互換の Incoming Webhook に { "text": ... } をPOSTする
+ *  - email:   SMTPでメールを送信する（audit-smtp.ts）
+ *
+ * 通知先は audit-notifications.json（パスは AUDIT_NOTIFICATIONS_CONFIG で変更可能）に名前付きで定義します。
+ * min_severity を指定した通知先には、その重要度以上の指摘がある場合のみ通知します。
+ * メッセージはテンプレート（{{変数名}}）で変更でき、省略時はプロファイルの言語の既定のテンプレートを使います。
+ *
+ * 通知の失敗は監査の結果に影響せず、ログに出力するだけです。
+ */
+
+/**
+ * 通知先の設定（設定ファイルの各エントリ）
+ */
+export const NotifierConfigSchema = z.object({
+  type: z.string(),
+  min_severity: SeveritySchema.optional(),  // この重要度以上の指摘がある場合のみ通知する
+  subject: z.string().optional(),           // 件名・見出しのテンプレート
+  template: z.string().optional(),          // 本文のテンプレート
+  timeout_ms: z.number().int().positive().optional(),
+  // webhook / slack
+  url: z.string().optional(),
+  url_env: z.string().optional(),           // URLを読み込む環境変数（Slack の Webhook URL など）
+  secret: z.string().optional(),            // webhook の署名の鍵
+  secret_env: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  // email
+  smtp_host: z.string().optional(),
+  smtp_port: z.number().int().positive().optional(),
+  smtp_secure: z.boolean().optional(),      // 接続時からTLSを使う（ポート465）
+  smtp_user: z.string().optional(),
+  smtp_password: z.string().optional(),
+  smtp_password_env: z.string().optional(),
+  from: z.string().optional(),
+  to: z.array(z.string()).optional(),
+});
+export type NotifierConfig = z.infer<typeof NotifierConfigSchema>;
+
+export const NotificationsFileSchema = z.object({
+  report_url: z.string().optional(),  // レポートのURLのテンプレート（省略時はレポートファイルのパス）
+  notifiers: z.record(NotifierConfigSchema).default({}),
+});
+export type NotificationsFile = z.infer<typeof NotificationsFileSchema>;
+
+/**
+ * 通知する内容
+ */
+export interface AuditNotification {
+  event: "audit.completed";
+  report_id: string;
+  report_url: string;
+  status: string;
+  profile?: string;
+  branch?: string;
+  commit_sha?: string;
+  provider?: string;
+  model?: string;
+  finding_counts: Record<Severity, number>;
+  max_severity?: Severity;               // 指摘の最も高い重要度（指摘がない場合はなし）
+  verdicts: Record<string, { title: string; verdict: string; summary: string }>;
+  findings: { severity: Severity; location: string; message: string }[];  // 重要度の高い順
+  errors: number;                        // 監査できなかった差分の数
+}
+
+/**
+ * 送信するメッセージ（テンプレートを展開したもの）
+ */
+export interface NotificationMessage {
+  subject: string;
+  text: string;
+}
+
+/**
+ * 通知先
+ */
+export interface Notifier {
+  name: string;
+  type: string;
+  minSeverity?: Severity;
+  send(notification: AuditNotification, message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * 通知先ごとの送信結果
+ */
+export interface NotificationOutcome {
+  notifier: string;
+  type: string;
+  sent: boolean;
+  skipped?: string;  // 送信しなかった理由（重要度が min_severity 未満など）
+  error?: string;
+}
+
+/**
+ * 通知先の種別ごとのファクトリ
+ */
+export type NotifierFactory = (name: string, config: NotifierConfig) => Notifier;
+
+// 既定値
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_SMTP_PORT = 587;
+// メッセージに含める指摘の上限
+const MAX_MESSAGE_FINDINGS = 10;
+
+const notifierFactories = new Map<string, NotifierFactory>();
+
+/**
+ * 通知先の種別を登録する
+ */
+export function registerNotifierType(type: string, factory: NotifierFactory): void {
+  notifierFactories.set(type, factory);
+}
+
+/**
+ * 設定ファイルを読み込む（ファイルがない場合は通知しない）
+ */
+export function loadNotificationsFile(): NotificationsFile {
+  const configPath = process.env.AUDIT_NOTIFICATIONS_CONFIG || "audit-notifications.json";
+  if (!fs.existsSync(configPath)) {
+    return { notifiers: {} };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(`通知設定ファイルを読み込めませんでした (${configPath}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = NotificationsFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`通知設定ファイルの形式が不正です (${configPath}): ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 設定ファイルの通知先を作成する
+ */
+function getNotifiers(file: NotificationsFile): Notifier[] {
+  return Object.entries(file.notifiers).map(([name, config]) => {
+    const factory = notifierFactories.get(config.type);
+    if (!factory) {
+      throw new Error(`未対応の通知先の種別です: ${config.type} (通知先: ${name})`);
+    }
+    return factory(name, config);
+  });
+}
+
+/**
+ * 設定の値または環境変数から値を解決する
+ */
+function resolveSetting(name: string, label: string, value: string | undefined, envName: string | undefined): string | undefined {
+  const resolved = value || (envName ? process.env[envName] : undefined);
+  if (envName && !resolved) {
+    throw new Error(`環境変数 ${envName} が設定されていません。(通知先: ${name}、${label})`);
+  }
+  return resolved;
+}
+
+/**
+ * テンプレートの {{変数名}} を展開する（未定義の変数は "-"）
+ */
+export function renderTemplate(template: string, variables: Record<string, string | number | undefined>): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, key: string) => {
+    const value = variables[key];
+    return value === undefined || value === "" ? "-" : String(value);
+  });
+}
+
+/**
+ * レポートのプロファイルを取得する（設定ファイルから削除された場合はデフォルトのプロファイル）
+ */
+function resolveNotificationProfile(name: string | undefined): AuditProfile {
+  try {
+    return getAuditProfile(name);
+  } catch (error) {
+    logger.warn(`レポートのプロファイルを取得できないため、デフォルトのプロファイルを使用します: ${error instanceof Error ? error.message : error}`);
+    return getAuditProfile();
+  }
+}
+
+/**
+ * 監査結果から通知する内容を作成する
+ */
+export function buildAuditNotification(
+  reportId: string,
+  metadata: ReportMetadata,
+  auditResult: AuditResult,
+  reportPath: string,
+  file: NotificationsFile = loadNotificationsFile()
+): AuditNotification {
+  const profile = resolveNotificationProfile(metadata.profile);
+  const texts = PROFILE_TEXTS[profile.language];
+  const findings = [...auditResult.findings]
+    .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+  const verdicts = Object.fromEntries(profile.sections
+    .filter(section => auditResult.sections[section.key])
+    .map(section => {
+      const result = auditResult.sections[section.key];
+      return [section.key, { title: section.title, verdict: texts.verdictLabels[result.verdict], summary: result.summary }];
+    }));
+
+  return {
+    event: "audit.completed",
+    report_id: reportId,
+    report_url: file.report_url ? renderTemplate(file.report_url, { report_id: reportId }) : reportPath,
+    status: metadata.status,
+    profile: metadata.profile,
+    branch: metadata.branch,
+    commit_sha: metadata.commit_sha,
+    provider: metadata.provider,
+    model: metadata.model,
+    finding_counts: countFindings(auditResult.findings),
+    max_severity: findings[0]?.severity,
+    verdicts,
+    findings: findings.map(finding => ({
+      severity: finding.severity,
+      location: formatFindingLocation(finding),
+      message: finding.message,
+    })),
+    errors: auditResult.errors?.length ?? 0,
+  };
+}
+
+/**
+ * 通知先のテンプレート（省略時は既定のテンプレート）を展開する
+ */
+function renderMessage(
+  notification: AuditNotification,
+  profile: AuditProfile,
+  config: Pick<NotifierConfig, "subject" | "template">
+): NotificationMessage {
+  const texts = PROFILE_TEXTS[profile.language];
+  const overall = notification.verdicts[OVERALL_SECTION_KEY];
+  const variables = {
+    report_id: notification.report_id,
+    report_url: notification.report_url,
+    status: notification.status,
+    profile: notification.profile,
+    branch: notification.branch,
+    commit_sha: notification.commit_sha?.substring(0, 12),
+    model: notification.model ? `${notification.provider}/${notification.model}` : undefined,
+    findings: notification.findings.length,
+    high: notification.finding_counts.high,
+    medium: notification.finding_counts.medium,
+    low: notification.finding_counts.low,
+    errors: notification.errors,
+    overall_verdict: overall?.verdict,
+    overall_summary: overall?.summary,
+    verdicts: Object.values(notification.verdicts).map(item => `- ${item.title}: ${item.verdict}`).join("\n"),
+    top_findings: notification.findings.length === 0
+      ? texts.notification.noFindings
+      : [
+        ...notification.findings.slice(0, MAX_MESSAGE_FINDINGS).map(finding =>
+          `- [${texts.severityLabels[finding.severity]}] ${finding.location ? `${finding.location} ` : ""}${finding.message}`),
+        ...(notification.findings.length > MAX_MESSAGE_FINDINGS
+          ? [texts.notification.moreFindings(notification.findings.length - MAX_MESSAGE_FINDINGS)]
+          : []),
+      ].join("\n"),
+  };
+  return {
+    subject: renderTemplate(config.subject ?? texts.notification.subject, variables),
+    text: renderTemplate(config.template ?? texts.notification.template, variables),
+  };
+}
+
+/**
+ * 通知先の URL を解決する
+ */
+function resolveUrl(name: string, config: NotifierConfig): string {
+  const url = resolveSetting(name, "url", config.url, config.url_env);
+  if (!url) {
+    throw new Error(`url が設定されていません。(通知先: ${name})`);
+  }
+  return url;
+}
+
+/**
+ * タイムアウト付きでJSONをPOSTする
+ */
+async function postNotification(name: string, url: string, headers: Record<string, string>, body: string, timeoutMs: number): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${name} への通知がエラーになりました: ${response.status} ${(await response.text()).substring(0, 200)}`);
+    }
+  } catch (err) {
+    if (err instanceof Error && err.name === "AbortError") {
+      throw new Error(`${name} への通知がタイムアウトしました (${timeoutMs}ms)`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Webhookの署名（"sha256=" + HMAC-SHA256(secret, "<タイムスタンプ>.<本文>") の16進数）
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * 汎用のWebhook
+ * 本文は通知する内容と展開したメッセージのJSON。secret を設定した場合は
+ * X-Audit-Timestamp（UNIX秒）と X-Audit-Signature（signWebhookPayload）ヘッダを付ける
+ */
+function createWebhookNotifier(name: string, config: NotifierConfig): Notifier {
+  return {
+    name,
+    type: config.type,
+    minSeverity: config.min_severity,
+    async send(notification, message) {
+      const url = resolveUrl(name, config);
+      const secret = resolveSetting(name, "secret", config.secret, config.secret_env);
+      const body = JSON.stringify({ ...notification, subject: message.subject, text: message.text });
+      const headers: Record<string, string> = { ...(config.headers || {}), "X-Audit-Event": notification.event };
+      if (secret) {
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        headers["X-Audit-Timestamp"] = timestamp;
+        headers["X-Audit-Signature"] = signWebhookPayload(secret, timestamp, body);
+      }
+      await postNotification(name, url, headers, body, config.timeout_ms ?? DEFAULT_TIMEOUT_MS);
+    },
+  };
+}
+
+/**
+ * Slack互換の Incoming Webhook（件名を太字の1行目にしたテキスト）
+ */
+function createSlackNotifier(name: string, config: NotifierConfig): Notifier {
+  return {
+    name,
+    type: config.type,
+    minSeverity: config.min_severity,
+    async send(_notification, message) {
+      const body = JSON.stringify({ text: `*${message.subject}*\n${message.text}` });
+      await postNotification(name, resolveUrl(name, config), config.headers || {}, body, config.timeout_ms ?? DEFAULT_TIMEOUT_MS);
+    },
+  };
+}
+
+/**
+ * SMTPによるメール
+ */
+function createEmailNotifier(name: string, config: NotifierConfig): Notifier {
+  return {
+    name,
+    type: config.type,
+    minSeverity: config.min_severity,
+    async send(_notification, message) {
+      if (!config.smtp_host || !config.from || !config.to?.length) {
+        throw new Error(`smtp_host・from・to を設定してください。(通知先: ${name})`);
+      }
+      await sendMail({
+        host: config.smtp_host,
+        port: config.smtp_port ?? (config.smtp_secure ? 465 : DEFAULT_SMTP_PORT),
+        secure: config.smtp_secure ?? false,
+        user: config.smtp_user,
+        password: resolveSetting(name, "smtp_password", config.smtp_password, config.smtp_password_env),
+        timeoutMs: config.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+      }, { from: config.from, to: config.to, subject: message.subject, text: message.text });
+    },
+  };
+}
+
+/**
+ * 通知先にそれぞれ送信する（失敗した通知先はログに出力し、他の通知先には送信を続ける）
+ * force を指定した場合は min_severity に関係なく送信する（動作確認用）
+ */
+async function dispatch(
+  notifiers: Notifier[],
+  file: NotificationsFile,
+  notification: AuditNotification,
+  force = false
+): Promise<NotificationOutcome[]> {
+  const profile = resolveNotificationProfile(notification.profile);
+  return Promise.all(notifiers.map(async notifier => {
+    const outcome = { notifier: notifier.name, type: notifier.type };
+    const reached = notification.max_severity !== undefined && meetsSeverity(notification.max_severity, notifier.minSeverity);
+    if (!force && notifier.minSeverity && !reached) {
+      return { ...outcome, sent: false, skipped: `${notifier.minSeverity} 以上の指摘がありません` };
+    }
+    try {
+      await notifier.send(notification, renderMessage(notification, profile, file.notifiers[notifier.name]));
+      logger.info(`監査結果を通知しました: ${notifier.name} (${notifier.type})`);
+      return { ...outcome, sent: true };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(`監査結果を通知できませんでした: ${notifier.name} (${notifier.type}): ${message}`);
+      return { ...outcome, sent: false, error: message };
+    }
+  }));
+}
+
+/**
+ * 完了した監査の結果を通知する（通知先が設定されていない場合は何もしない）
+ * 通知の失敗は例外にせず、結果として返す
+ */
+export async function notifyAuditCompleted(
+  reportId: string,
+  metadata: ReportMetadata,
+  auditResult: AuditResult,
+  reportPath: string
+): Promise<NotificationOutcome[]> {
+  try {
+    const file = loadNotificationsFile();
+    const notifiers = getNotifiers(file);
+    if (notifiers.length === 0) return [];
+    return await dispatch(notifiers, file, buildAuditNotification(reportId, metadata, auditResult, reportPath, file));
+  } catch (err) {
+    logger.warn("監査結果を通知できませんでした:", err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/**
+ * 保存済みのレポートで通知を試す（min_severity に関係なく送信する）
+ * notifier を指定した場合はその通知先のみ
+ */
+export async function testNotification(params: { report_id: string; notifier?: string }): Promise<NotificationOutcome[]> {
+  const file = loadNotificationsFile();
+  const notifiers = getNotifiers(file).filter(notifier => !params.notifier || notifier.name === params.notifier);
+  if (notifiers.length === 0) {
+    throw new Error(params.notifier ? `通知先が見つかりません: ${params.notifier}` : "通知先が設定されていません。");
+  }
+  const report = getReport(params.report_id);
+  const reportPath = path.join(getReportsDir(), `${report.id}.txt`);
+  return dispatch(notifiers, file, buildAuditNotification(report.id, report.metadata, report.auditResult, reportPath, file), true);
+}
+
+registerNotifierType("webhook", createWebhookNotifier);
+registerNotifierType("slack", createSlackNotifier);
+registerNotifierType("email", createEmailNotifier);
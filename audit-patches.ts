@@ -0,0 +1,335 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { ChatMessage } from "./audit-providers.js";
+import { DiffFile, estimateTokens, parseUnifiedDiff, renderFileDiff } from "./audit-diff.js";
+import { AuditResult, Finding, formatFindingLocation } from "./audit-result.js";
+import { AuditProfile, PROFILE_TEXTS, ProfileTexts } from "./audit-profiles.js";
+import { runWithConcurrency, getConcurrency, throwIfCancelled } from "./audit-scheduler.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-patches.ts
+ *
+ * 指摘ごとにLLMへ修正パッチを作成させ、適用できることを確認して監査結果に含めるモジュールです
+ * （監査リクエストの suggest_fixes）。
+ *
+ *  1) ファイルと行が特定され、差分のハンクに対応する指摘を対象に、LLMへ最小限の unified diff を依頼
+ *  2) 監査したファイルの内容を一時ディレクトリに書き出し、`git apply --check` で適用できるか検証
+ *     - audit_git の場合: 監査したツリー（作業ツリー / ステージング / コミット）のファイル
+ *     - それ以外の場合:   差分から復元した内容（差分に含まれない行は不明な行として扱う）
+ *  3) 適用できたパッチは整形し直して指摘の patch に、適用できないものは理由を patch_error に記録
+ */
+
+/**
+ * 修正パッチを検証するGitリポジトリ（audit_git の場合に設定）
+ *   working_tree: 作業ツリーのファイル / index: ステージングされた内容 / commit: 指定したコミットの内容
+ */
+export interface PatchTarget {
+  repo_path: string;
+  tree: "working_tree" | "index" | "commit";
+  commit?: string;
+}
+
+// 修正案を作成する指摘の上限
+const MAX_FIX_SUGGESTIONS = 20;
+// プロンプトに含めるファイル内容の前後の行数
+const FILE_CONTEXT_LINES = 30;
+// 指摘の行とハンクの範囲のずれの許容行数
+const HUNK_TOLERANCE_LINES = 3;
+// 利用量の見積もりで使う、ファイル内容の1行あたりのトークン数
+const EXCERPT_LINE_TOKENS = 20;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 一時ディレクトリで git コマンドを実行する
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", ["-c", "core.autocrlf=false", ...args], {
+      cwd,
+      maxBuffer: 16 * 1024 * 1024,
+      encoding: "utf8",
+    });
+    return stdout;
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(stderr || (err instanceof Error ? err.message : String(err)));
+  }
+}
+
+/**
+ * 指摘の行が差分のハンク（変更後の行範囲）に含まれるか
+ */
+function isInHunk(finding: Finding, file: DiffFile): boolean {
+  if (finding.line_start == null) return false;
+  const start = finding.line_start;
+  const end = finding.line_end ?? start;
+  return file.hunks.some(hunk =>
+    hunk.newStart - HUNK_TOLERANCE_LINES <= end && start <= hunk.newStart + hunk.newLines - 1 + HUNK_TOLERANCE_LINES);
+}
+
+/**
+ * 差分の変更後の行から、ファイルの内容を復元する（差分に含まれない行は unknownLine）
+ */
+function reconstructFromDiff(file: DiffFile, unknownLine: string): string {
+  const lines: string[] = [];
+  file.hunks.forEach(hunk => {
+    let lineNumber = hunk.newStart;
+    hunk.lines.forEach(line => {
+      if (line.startsWith("-") || line.startsWith("\\")) return;
+      while (lines.length < lineNumber - 1) lines.push(unknownLine);
+      lines[lineNumber - 1] = line.substring(1);
+      lineNumber++;
+    });
+  });
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * 監査したツリーからファイルの内容を読み込む
+ */
+export async function readTargetFile(target: PatchTarget, filePath: string): Promise<string> {
+  switch (target.tree) {
+    case "working_tree":
+      return fs.readFileSync(path.join(target.repo_path, filePath), "utf8");
+    case "index":
+      return git(target.repo_path, ["show", `:${filePath}`]);
+    case "commit":
+      return git(target.repo_path, ["show", `${target.commit || "HEAD"}:${filePath}`]);
+  }
+}
+
+/**
+ * 監査したツリーからファイルの内容を読み込む（リポジトリがない場合は差分から復元）
+ */
+async function readAuditedFile(file: DiffFile, target: PatchTarget | undefined, unknownLine: string): Promise<string> {
+  return target ? readTargetFile(target, file.path) : reconstructFromDiff(file, unknownLine);
+}
+
+/**
+ * LLMの応答からパッチを取り出し、パスの接頭辞（a/ b/）を揃える
+ * diff --git / index 行は取り除き、通常の unified diff として扱う
+ */
+function extractPatch(text: string): string | undefined {
+  const fenced = text.match(/```(?:diff|patch)?[^\n]*\n([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/^(?:diff --git |--- )/m);
+  if (start < 0) return undefined;
+
+  const lines = body.substring(start).replace(/\s+$/, "").split("\n")
+    .filter(line => !line.startsWith("diff --git ") && !/^index [0-9a-f]+\.\.[0-9a-f]+/.test(line))
+    .map(line => {
+      const header = line.match(/^(---|\+\+\+) (\S+)(.*)$/);
+      if (!header || header[2] === "/dev/null" || /^[ab]\//.test(header[2])) return line;
+      return `${header[1]} ${header[1] === "---" ? "a" : "b"}/${header[2]}${header[3]}`;
+    });
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * 指摘の周辺のファイル内容を行番号付きで返す
+ */
+function numberedExcerpt(content: string, finding: Finding): string {
+  const lines = content.split("\n");
+  const start = Math.max((finding.line_start ?? 1) - FILE_CONTEXT_LINES, 1);
+  const end = Math.min((finding.line_end ?? finding.line_start ?? 1) + FILE_CONTEXT_LINES, lines.length);
+  const width = String(end).length;
+  return lines.slice(start - 1, end)
+    .map((line, index) => `${String(start + index).padStart(width)}| ${line}`)
+    .join("\n");
+}
+
+/**
+ * 修正案の作成で行うLLM呼び出しの回数と、1回あたりの入力のトークン数を見積もる（利用量の上限の確認用）
+ * 回数は修正案の上限と変更行数の少ない方、入力は最も大きいファイルの差分とファイル内容の抜粋で見積もる
+ */
+export function estimateFixCalls(codeChanges: string): { calls: number; inputTokens: number } {
+  const files = parseUnifiedDiff(codeChanges).filter(file => file.status !== "deleted" && !file.binary);
+  const changedLines = files
+    .flatMap(file => file.hunks.flatMap(hunk => hunk.lines))
+    .filter(line => line.startsWith("+") || line.startsWith("-"))
+    .length;
+  const largestDiff = Math.max(0, ...files.map(file => estimateTokens(renderFileDiff(file))));
+  return {
+    calls: Math.min(MAX_FIX_SUGGESTIONS, changedLines),
+    inputTokens: largestDiff + (FILE_CONTEXT_LINES * 2 + 1) * EXCERPT_LINE_TOKENS,
+  };
+}
+
+/**
+ * 修正パッチの作成をLLMに依頼するメッセージを作成する
+ */
+function buildFixMessages(finding: Finding, file: DiffFile, content: string, profile: AuditProfile): ChatMessage[] {
+  const texts = PROFILE_TEXTS[profile.language].fixes;
+  return [
+    { role: "system", content: texts.system },
+    {
+      role: "user",
+      content: `${texts.finding}
+[${finding.severity}] ${formatFindingLocation(finding)}: ${finding.message}
+
+${texts.fileContent(file.path)}
+\`\`\`
+${numberedExcerpt(content, finding)}
+\`\`\`
+
+${texts.diff}
+\`\`\`diff
+${renderFileDiff(file)}
+\`\`\``,
+    },
+  ];
+}
+
+/**
+ * 監査したファイルを書き出した一時的なGitリポジトリ（パッチの検証用）
+ */
+interface PatchWorkspace {
+  root: string;   // 一時ディレクトリ（パッチファイルを置く）
+  tree: string;   // 監査したファイルを書き出したリポジトリ
+}
+
+async function createWorkspace(contents: Map<string, string>): Promise<PatchWorkspace> {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "audit-patch-"));
+  const tree = path.join(root, "tree");
+  contents.forEach((content, file) => {
+    const filePath = path.join(tree, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, "utf8");
+  });
+  fs.mkdirSync(tree, { recursive: true });
+  await git(tree, ["init", "-q"]);
+  await git(tree, ["add", "-A"]);
+  return { root, tree };
+}
+
+/**
+ * パッチが監査したファイルに適用できるか検証し、git diff の形式に整形し直したパッチを返す
+ * （LLMが出力したハンクの行数の誤りは --recount で補正する）
+ */
+async function validatePatch(
+  workspace: PatchWorkspace,
+  patch: string,
+  allowedFiles: Set<string>,
+  texts: ProfileTexts["fixes"]
+): Promise<{ patch: string } | { error: string }> {
+  if (patch.includes(texts.unknownLine)) {
+    return { error: texts.reasons.unknownLines };
+  }
+  const patchFile = path.join(workspace.root, "fix.patch");
+  fs.writeFileSync(patchFile, patch, "utf8");
+  const applyArgs = ["apply", "--recount", "--whitespace=nowarn"];
+
+  try {
+    const numstat = await git(workspace.tree, [...applyArgs, "--numstat", patchFile]);
+    const files = numstat.split("\n").filter(Boolean).map(line => line.split("\t")[2]);
+    const others = files.filter(file => !allowedFiles.has(file));
+    if (others.length > 0) {
+      return { error: texts.reasons.otherFiles(others) };
+    }
+    await git(workspace.tree, [...applyArgs, "--check", patchFile]);
+  } catch (err) {
+    const detail = (err instanceof Error ? err.message : String(err)).split("\n")[0];
+    return { error: texts.reasons.notApplicable(detail) };
+  }
+
+  try {
+    await git(workspace.tree, [...applyArgs, patchFile]);
+    const normalized = await git(workspace.tree, ["diff", "--no-color", "--no-ext-diff"]);
+    return normalized.trim() ? { patch: normalized } : { error: texts.reasons.noFix };
+  } finally {
+    await git(workspace.tree, ["checkout", "-q", "--", "."]);
+  }
+}
+
+/**
+ * 指摘ごとに修正パッチを作成・検証し、指摘の patch / patch_error に設定した監査結果を返す
+ * complete にはLLMの呼び出し（リトライと利用量の記録を含む）を渡す
+ */
+export async function suggestFixes(
+  result: AuditResult,
+  input: { code_changes: string; patch_target?: PatchTarget },
+  profile: AuditProfile,
+  complete: (messages: ChatMessage[], label: string) => Promise<string>,
+  signal?: AbortSignal
+): Promise<AuditResult> {
+  const texts = PROFILE_TEXTS[profile.language].fixes;
+  const diffFiles = new Map(parseUnifiedDiff(input.code_changes)
+    .filter(file => file.status !== "deleted" && !file.binary)
+    .map(file => [file.path, file]));
+
+  // ファイルと行が特定され、差分のハンクに対応する指摘のみ対象とする
+  const candidates = result.findings
+    .map((finding, index) => ({ finding, index, file: finding.file ? diffFiles.get(finding.file) : undefined }))
+    .filter((item): item is { finding: Finding; index: number; file: DiffFile } =>
+      item.file !== undefined && isInHunk(item.finding, item.file));
+  if (candidates.length === 0) {
+    logger.info("修正案: 差分のハンクに対応する指摘がないため作成しません");
+    return result;
+  }
+
+  // 監査したツリーからファイルの内容を読み込む
+  const contents = new Map<string, string>();
+  for (const file of diffFiles.values()) {
+    try {
+      contents.set(file.path, await readAuditedFile(file, input.patch_target, texts.unknownLine));
+    } catch (err) {
+      logger.warn(`修正案の検証用にファイルを読み込めませんでした: ${file.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const targets = candidates.slice(0, MAX_FIX_SUGGESTIONS);
+  const updates = new Map<number, Pick<Finding, "patch" | "patch_error">>();
+  candidates.slice(MAX_FIX_SUGGESTIONS).forEach(item => {
+    updates.set(item.index, { patch_error: texts.reasons.limit(MAX_FIX_SUGGESTIONS) });
+  });
+  logger.info(`修正案: ${targets.length}件の指摘について修正パッチを作成します`);
+
+  // LLMへの依頼は並列に、検証は一時リポジトリを共有するため順番に行う
+  const settled = await runWithConcurrency(targets, getConcurrency(), async item => {
+    const content = contents.get(item.file.path);
+    if (content === undefined) {
+      throw new Error(`${item.file.path} を読み込めませんでした`);
+    }
+    return complete(buildFixMessages(item.finding, item.file, content, profile), `fix: ${formatFindingLocation(item.finding)}`);
+  }, signal);
+  throwIfCancelled(signal);
+
+  const workspace = await createWorkspace(contents);
+  try {
+    const allowedFiles = new Set(contents.keys());
+    for (const [position, outcome] of settled.entries()) {
+      const { index } = targets[position];
+      if (outcome.status === "rejected") {
+        const detail = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        updates.set(index, { patch_error: texts.reasons.failed(detail) });
+        continue;
+      }
+      if (/^\s*NO_FIX\s*$/.test(outcome.value)) {
+        updates.set(index, { patch_error: texts.reasons.noFix });
+        continue;
+      }
+      const patch = extractPatch(outcome.value);
+      if (!patch) {
+        updates.set(index, { patch_error: texts.reasons.noPatch });
+        continue;
+      }
+      const validated = await validatePatch(workspace, patch, allowedFiles, texts);
+      updates.set(index, "patch" in validated ? { patch: validated.patch } : { patch_error: validated.error });
+    }
+  } finally {
+    fs.rmSync(workspace.root, { recursive: true, force: true });
+  }
+
+  const applied = [...updates.values()].filter(update => update.patch).length;
+  logger.info(`修正案: ${applied}件のパッチを検証しました（作成できなかった指摘: ${updates.size - applied}件）`);
+
+  return {
+    ...result,
+    findings: result.findings.map((finding, index) => updates.has(index) ? { ...finding, ...updates.get(index) } : finding),
+  };
+}
@@ -0,0 +1,687 @@
+import * as fs from "fs";
+import { z } from "zod";
+import type { Severity, TraceStatus, Verdict } from "./audit-result.js";
+
+/**
+ * audit-profiles.ts
+ *
+ * 監査プロファイル（監査観点・レポートのセクション・出力言語・重要度の基準・プロジェクト固有のルール）を
+ * 定義・読み込むモジュールです。
+ *
+ * プロファイルはプロジェクトの設定ファイル `.auditrc`（パスは AUDIT_PROFILES_CONFIG で変更可能）で定義し、
+ * 監査リクエストの `profile` で選択します。組み込みのプロファイルとして
+ *  - default: 従来の日本語の監査観点（7セクション）
+ *  - english: default と同じ監査観点を英語で出力
+ * を用意しています。
+ *
+ * 設定ファイルの例:
+ *   {
+ *     "default_profile": "default",
+ *     "profiles": {
+ *       "security": {
+ *         "extends": "default",
+ *         "description": "セキュリティ重視の監査",
+ *         "sections": [
+ *           { "key": "injection", "title": "インジェクション", "instruction": "SQL・コマンド・パスのインジェクションがないか" },
+ *           { "key": "secrets", "title": "機密情報", "instruction": "APIキーや個人情報がコード・ログに含まれていないか" }
+ *         ],
+ *         "severity_scale": { "high": "悪用可能な脆弱性" },
+ *         "rules": ["外部入力は必ず zod で検証すること"]
+ *       }
+ *     }
+ *   }
+ *
+ * セクションには必ず総合評価（overall）が含まれます（定義されていない場合は自動で追加）。
+ * 重要度は high / medium / low の3段階で固定し、プロファイルではそれぞれの基準を定義します。
+ */
+
+/**
+ * 出力言語
+ */
+export const ProfileLanguageSchema = z.enum(["ja", "en"]);
+export type ProfileLanguage = z.infer<typeof ProfileLanguageSchema>;
+
+/**
+ * レポートのセクション（監査観点）の定義
+ */
+export const ProfileSectionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]*$/, "key は英小文字・数字・_ で指定してください"),
+  title: z.string().min(1),
+  instruction: z.string().min(1),  // 監査観点としてプロンプトに含める説明
+});
+export type ProfileSection = z.infer<typeof ProfileSectionSchema>;
+
+/**
+ * プロファイルの定義（設定ファイルの各エントリ）
+ */
+export const ProfileConfigSchema = z.object({
+  extends: z.string().optional(),  // 継承するプロファイル（未指定の項目を引き継ぎ、rules は追加する）
+  description: z.string().optional(),
+  language: ProfileLanguageSchema.optional(),
+  sections: z.array(ProfileSectionSchema).min(1).optional(),
+  severity_scale: z.object({
+    high: z.string().optional(),
+    medium: z.string().optional(),
+    low: z.string().optional(),
+  }).optional(),
+  rules: z.array(z.string()).optional(),
+});
+export type ProfileConfig = z.infer<typeof ProfileConfigSchema>;
+
+export const ProfilesFileSchema = z.object({
+  default_profile: z.string().optional(),
+  profiles: z.record(ProfileConfigSchema).default({}),
+});
+export type ProfilesFile = z.infer<typeof ProfilesFileSchema>;
+
+/**
+ * 解決済みのプロファイル
+ */
+export interface AuditProfile {
+  name: string;
+  description: string;
+  language: ProfileLanguage;
+  sections: ProfileSection[];
+  severityScale: Record<Severity, string>;
+  rules: string[];
+}
+
+export const OVERALL_SECTION_KEY = "overall";
+export const DEFAULT_PROFILE_NAME = "default";
+
+/**
+ * 言語ごとの文言（プロンプト・レポート）
+ */
+export interface ProfileTexts {
+  sections: ProfileSection[];  // デフォルトのセクション
+  overall: ProfileSection;     // 総合評価セクション（プロファイルに定義がない場合に追加）
+  severityScale: Record<Severity, string>;
+  severityLabels: Record<Severity, string>;
+  verdictLabels: Record<Verdict, string>;
+  systemPromptIntro: string;
+  viewpointsHeading: string;
+  severityHeading: string;
+  rulesHeading: string;
+  formatInstruction: string;
+  guidelines: string[];
+  formatPlaceholders: {
+    file: string;
+    lineStart: string;
+    lineEnd: string;
+    message: string;
+    functionListUpdate: string;
+    traceNote: string;
+    unmappedSummary: string;
+  };
+  userPrompt: {
+    request: string;
+    description: string;
+    changedFiles: string;
+    functionList: string;
+    diff: string;
+    none: string;
+  };
+  chunk: {
+    request: (files: string[]) => string;
+    description: (files: string[]) => string;
+    partial: string;
+  };
+  summary: {
+    system: string;
+    intro: string;
+    description: string;
+    fileResults: string;
+    failedFiles: string;
+    functionListUpdates: string;
+    formatInstruction: string;
+  };
+  traceability: {
+    taskItems: string;           // ユーザープロンプトの要件項目の見出し
+    guideline: string;           // 要件項目がある場合にシステムプロンプトへ追加する指示
+    summaryInput: string;        // サマリー生成時に渡すファイルごとの対応状況の見出し
+    summaryInstruction: string;
+    statusLabels: Record<TraceStatus, string>;
+    title: string;
+    columns: { id: string; item: string; status: string; evidence: string };
+    unmapped: string;
+    noUnmapped: string;
+  };
+  followup: {
+    system: string;
+    findings: string;            // 番号付きの指摘一覧の見出し
+    report: string;
+    diff: string;
+    omitted: (files: string[]) => string;
+    noContext: string;
+    heading: string;             // レポートに追記する会話の見出し
+  };
+  fixes: {
+    system: string;
+    finding: string;
+    fileContent: (file: string) => string;
+    diff: string;
+    unknownLine: string;         // 差分から復元した内容のうち、差分に含まれない行
+    reasons: {
+      limit: (max: number) => string;
+      noFix: string;
+      noPatch: string;
+      unknownLines: string;
+      otherFiles: (files: string[]) => string;
+      notApplicable: (detail: string) => string;
+      failed: (detail: string) => string;
+    };
+    title: string;
+    rejected: string;
+  };
+  context: {
+    heading: string;
+    files: string;
+    truncated: string;
+    definitions: string;
+    callSites: string;
+    moves: string;
+    moveLabels: { file: string; moved: string; renamed: string };
+    noMoves: string;
+    reportTitle: string;
+    reportSummary: (files: number, definitions: number, callSites: number) => string;
+  };
+  notification: {
+    subject: string;   // 件名のテンプレート（audit-notifications.ts）
+    template: string;  // 本文のテンプレート
+    noFindings: string;
+    moreFindings: (count: number) => string;
+  };
+  redaction: {
+    promptNote: string;
+    title: string;
+    summary: (count: number) => string;
+  };
+  rulePacks: {
+    promptHeading: string;  // プロンプトに加える確認事項の見出し（audit-rule-packs.ts）
+    title: string;
+    summary: (count: number) => string;
+  };
+  consensus: {
+    agreement: string;
+    title: string;
+    models: (models: string[], minAgreement: number) => string;
+    dropped: string;
+    failed: string;
+  };
+  ruleOnly: {
+    overallWithFindings: (count: number) => string;
+    overallClean: string;
+    skipped: string;
+    sectionWithFindings: (count: number) => string;
+    sectionClean: (title: string) => string;
+  };
+  report: {
+    title: string;
+    errorsBanner: (count: number) => string;
+    verdict: string;
+    severity: string;
+    rule: string;
+    otherFindings: string;
+    errors: string;
+    cache: string;
+    cacheHits: (count: number) => string;
+    functionListUpdate: string;
+    noFunctionListUpdate: string;
+  };
+}
+
+export const PROFILE_TEXTS: Record<ProfileLanguage, ProfileTexts> = {
+  ja: {
+    sections: [
+      { key: "unrequested_changes", title: "指示していない変更", instruction: "指示していない変更がないか（修正内容に記載されていない変更が行われていないか）" },
+      { key: "deleted_features", title: "既存機能の削除", instruction: "既存機能が削除されていないか（特にfunction_list.txtに記載されている機能が失われていないか）" },
+      { key: "todo_fixme", title: "TODO/FIXME の残存", instruction: "TODO / FIXME が残っていないか" },
+      { key: "description_consistency", title: "修正内容との整合性", instruction: "修正内容とコードの差分に整合性があるか（修正内容で述べられていることと実際のコード変更が一致しているか）" },
+      { key: "purpose_implementation", title: "目的の実装状況", instruction: "修正内容に記載されている目的が適切に実装されているか" },
+      { key: "technical_issues", title: "技術的問題点", instruction: "コード品質、パフォーマンス、セキュリティなどの技術的問題点がないか" },
+    ],
+    overall: { key: OVERALL_SECTION_KEY, title: "総合評価", instruction: "監査全体の総合評価と改善すべき重要な点" },
+    severityScale: {
+      high: "リリース前に必ず修正すべき問題（不具合、既存機能の喪失、セキュリティ上の問題など）",
+      medium: "修正が望ましい問題（指示との不一致、保守性の問題など）",
+      low: "軽微な改善提案",
+    },
+    severityLabels: { high: "高", medium: "中", low: "低" },
+    verdictLabels: { ok: "問題なし", warning: "要確認", ng: "問題あり", skipped: "未確認" },
+    systemPromptIntro: "あなたはソフトウェア監査ツールです。与えられた「リクエスト」「変更内容」「差分」「function_list」「変更ファイル一覧」を確認し、下記の観点で監査してください：",
+    viewpointsHeading: "【重要な監査観点】",
+    severityHeading: "【重要度の基準】",
+    rulesHeading: "【プロジェクト固有のルール】（違反している場合は指摘してください）",
+    formatInstruction: "監査結果は必ず以下の形式のJSONのみで出力してください（JSON以外の文章は含めないでください）：",
+    guidelines: [
+      "sections の各セクションは必ず含め、summary には具体的かつ詳細な情報を記載してください。特に修正内容との整合性と目的の実装状況については詳細に分析してください。",
+      "各セクションで見つかった個別の問題は findings に1件ずつ記載し、category にそのセクションを指定してください。問題がなければ findings は空配列にしてください。",
+      "function_list_update には今回の修正に関連してfunction_list.txtに追加・更新すべき内容を記載してください。関数の振る舞いが正確に理解できるような詳細な説明と、変更されたプロンプトがある場合はそのプロンプトも含めてください。",
+      "出力する文章はすべて日本語で記載してください。",
+    ],
+    formatPlaceholders: {
+      file: "対象ファイルのパス（特定できない場合は null）",
+      lineStart: "変更後ファイルでの開始行番号（不明な場合は null）",
+      lineEnd: "変更後ファイルでの終了行番号（不明な場合は null）",
+      message: "指摘内容",
+      functionListUpdate: "function_list.txtに追加・更新すべき内容（なければ空文字）",
+      traceNote: "判定の根拠・不足している点",
+      unmappedSummary: "変更の内容",
+    },
+    userPrompt: {
+      request: "【リクエスト】",
+      description: "【修正内容の概要】",
+      changedFiles: "【変更されたファイル】",
+      functionList: "【function_list.txt の内容】",
+      diff: "【コード差分】",
+      none: "（なし）",
+    },
+    chunk: {
+      request: files => ` - ファイル: ${files.join(", ")}`,
+      description: files => ` - このリクエストはファイル ${files.map(file => `"${file}"`).join(", ")} のみを対象としています。`,
+      partial: "ファイルが大きいため、差分の一部のハンクのみを含みます。含まれていないハンクについては判断しないでください。",
+    },
+    summary: {
+      system: "あなたはコード監査の専門家です。複数のファイル監査結果を統合して、全体の評価をJSON形式で提供してください。",
+      intro: "以下は、コード変更の各ファイルに対する監査結果です。これらの結果を総合的に分析し、変更全体に対する各セクションの判定とサマリーを作成してください。",
+      description: "変更の概要",
+      fileResults: "ファイル監査結果",
+      failedFiles: "監査できなかったファイル",
+      functionListUpdates: "function_list.txt更新案（ファイルごと）",
+      formatInstruction: "必ず以下の形式のJSONのみを出力してください（findingsは空配列で構いません）：",
+    },
+    traceability: {
+      taskItems: "【要件項目】",
+      guideline: "traceability には【要件項目】のすべての項目について、差分での実装状況（implemented: 実装済み / partial: 一部のみ / missing: 未実装）と、実装している差分の位置（evidence）を記載してください。どの要件項目にも対応しない変更のハンクは unmapped_changes に記載してください。",
+      summaryInput: "要件項目ごとの対応状況（ファイルごとの判定を統合したもの）",
+      summaryInstruction: "traceability には変更全体での各要件項目の実装状況を記載してください（複数のファイルにまたがって実装されている要件は、すべてのファイルの対応状況から判断してください）。",
+      statusLabels: { implemented: "実装済み", partial: "一部のみ", missing: "未実装" },
+      title: "要件トレーサビリティ",
+      columns: { id: "ID", item: "要件項目", status: "状況", evidence: "実装箇所" },
+      unmapped: "要件項目に対応しない変更",
+      noUnmapped: "すべての変更がいずれかの要件項目に対応しています。",
+    },
+    followup: {
+      system: "あなたはコード監査の専門家です。以下のコード監査の結果について、ユーザーの質問に答えてください。回答は監査時の入力（修正内容・差分・function_list）と監査結果に基づいて具体的に記載し、修正方法を尋ねられた場合は修正後のコードまたは差分を示してください。回答は日本語で記載してください。",
+      findings: "【指摘一覧】（質問中の「指摘N」はこの番号を指します）",
+      report: "【監査レポート】",
+      diff: "【関連するファイルの差分】",
+      omitted: files => `（トークン数の上限のため、次のファイルの差分は含めていません: ${files.join(", ")}）`,
+      noContext: "（このレポートには監査時の差分が保存されていません）",
+      heading: "追加の質問",
+    },
+    fixes: {
+      system: "あなたはソフトウェアエンジニアです。コード監査で見つかった問題を修正する最小限のパッチを unified diff 形式（git diff と同じ形式で、パスは a/ と b/ で始める）で作成してください。問題の修正に必要な行のみを変更し、パッチは ```diff のコードブロック1つで出力してください。修正が不要な場合や作成できない場合は NO_FIX とだけ出力してください。",
+      finding: "【指摘】",
+      fileContent: file => `【${file} の現在の内容（行番号付き、該当箇所の周辺）】`,
+      diff: "【監査した差分】",
+      unknownLine: "（差分に含まれない行）",
+      reasons: {
+        limit: max => `修正案は最大${max}件まで作成するため、作成していません。`,
+        noFix: "修正案が提案されませんでした。",
+        noPatch: "応答に unified diff が含まれていませんでした。",
+        unknownLines: "差分に含まれない行を前提としたパッチのため、検証できません。",
+        otherFiles: files => `監査した差分に含まれないファイルを変更しています: ${files.join(", ")}`,
+        notApplicable: detail => `パッチを適用できません: ${detail}`,
+        failed: detail => `修正案の作成に失敗しました: ${detail}`,
+      },
+      title: "修正案",
+      rejected: "修正案を作成できなかった指摘",
+    },
+    context: {
+      heading: "コンテキスト（リポジトリから取得した参考情報）。呼び出し箇所を確認し、シグネチャの変更や削除によって呼び出し側が壊れていないか確認してください。移動・名前の変更として示した宣言は、既存機能の削除として指摘しないでください",
+      files: "変更後のファイル内容（行番号付き）",
+      truncated: "（トークン数の上限のため変更箇所の周辺のみ）",
+      definitions: "変更箇所が参照しているシンボルの定義",
+      callSites: "変更・削除した宣言の呼び出し箇所",
+      moves: "移動・名前の変更",
+      moveLabels: { file: "ファイルの移動", moved: "別ファイルへの移動", renamed: "名前の変更" },
+      noMoves: "移動・名前の変更は検出されませんでした。",
+      reportTitle: "監査に含めたコンテキスト",
+      reportSummary: (files, definitions, callSites) =>
+        `変更後のファイル内容${files}件・参照しているシンボルの定義${definitions}件・呼び出し箇所${callSites}件を含めて監査しました。`,
+    },
+    notification: {
+      subject: "[コード監査] {{status}}: 指摘{{findings}}件（高 {{high}} / 中 {{medium}} / 低 {{low}}）",
+      template: [
+        "総合評価: {{overall_verdict}}",
+        "{{overall_summary}}",
+        "",
+        "{{verdicts}}",
+        "",
+        "指摘:",
+        "{{top_findings}}",
+        "",
+        "ブランチ: {{branch}} / コミット: {{commit_sha}}",
+        "レポート: {{report_url}}",
+      ].join("\n"),
+      noFindings: "指摘はありません。",
+      moreFindings: count => `ほか${count}件（レポートを参照してください）`,
+    },
+    redaction: {
+      promptNote: "入力に含まれる「[REDACTED:...]」は、機密情報（APIキー・パスワードなど）を送信前にマスクした箇所です。マスクされていること自体は問題として指摘しないでください。機密情報がコードに直書きされている場合は、その点を指摘してください",
+      title: "マスクした機密情報",
+      summary: count => `機密情報らしき値${count}件をマスクしてからLLMに送信しました（値はレポートに含めていません）。`,
+    },
+    rulePacks: {
+      promptHeading: "【変更されたファイルの種類に応じた確認事項】（以下の観点も確認してください）",
+      title: "適用したルールパック",
+      summary: count => `変更されたファイルの種類に応じて、${count}件のルールパックのチェックと確認事項を適用しました。`,
+    },
+    consensus: {
+      agreement: "合意",
+      title: "複数モデルによる監査",
+      models: (models, minAgreement) => `${models.join(", ")} で監査し、${minAgreement}モデル以上が指摘したものを採用しました。`,
+      dropped: "合意に達しなかった指摘",
+      failed: "監査できなかったモデル",
+    },
+    ruleOnly: {
+      overallWithFindings: count => `ローカルチェックで${count}件の問題が見つかりました。LLMによる監査は実行していません。`,
+      overallClean: "ローカルチェックで問題は見つかりませんでした。LLMによる監査は実行していません。",
+      skipped: "LLMを使用しないモードのため確認していません。",
+      sectionWithFindings: count => `ローカルチェックで${count}件の問題が見つかりました。`,
+      sectionClean: title => `ローカルチェックでは「${title}」に関する問題は見つかりませんでした。`,
+    },
+    report: {
+      title: "コード監査レポート",
+      errorsBanner: count => `${count}件の差分（ファイルまたはその一部）を監査できませんでした。詳細は「監査エラー」を参照してください。`,
+      verdict: "判定",
+      severity: "重要度",
+      rule: "ルール",
+      otherFindings: "その他の指摘",
+      errors: "監査エラー",
+      cache: "キャッシュ",
+      cacheHits: count => `${count}件のファイルは、内容が変わっていないため前回の監査結果を再利用しました。`,
+      functionListUpdate: "function_list.txt更新案",
+      noFunctionListUpdate: "更新が必要な内容はありません。",
+    },
+  },
+  en: {
+    sections: [
+      { key: "unrequested_changes", title: "Unrequested changes", instruction: "Are there changes that were not requested (changes not described in the modification description)?" },
+      { key: "deleted_features", title: "Deleted features", instruction: "Were existing features removed (especially features listed in function_list.txt)?" },
+      { key: "todo_fixme", title: "Remaining TODO/FIXME", instruction: "Are there TODO / FIXME comments left in the code?" },
+      { key: "description_consistency", title: "Consistency with the description", instruction: "Is the diff consistent with the modification description (does the code do what the description says)?" },
+      { key: "purpose_implementation", title: "Implementation of the purpose", instruction: "Is the purpose stated in the modification description properly implemented?" },
+      { key: "technical_issues", title: "Technical issues", instruction: "Are there technical problems such as code quality, performance or security issues?" },
+    ],
+    overall: { key: OVERALL_SECTION_KEY, title: "Overall assessment", instruction: "Overall assessment of the audit and the most important points to improve" },
+    severityScale: {
+      high: "Must be fixed before release (bugs, lost features, security problems, etc.)",
+      medium: "Should be fixed (mismatch with the request, maintainability problems, etc.)",
+      low: "Minor suggestions",
+    },
+    severityLabels: { high: "High", medium: "Medium", low: "Low" },
+    verdictLabels: { ok: "OK", warning: "Needs review", ng: "Problem", skipped: "Not checked" },
+    systemPromptIntro: "You are a software audit tool. Review the given request, modification description, diff, function_list and list of changed files, and audit them from the following viewpoints:",
+    viewpointsHeading: "[Audit viewpoints]",
+    severityHeading: "[Severity scale]",
+    rulesHeading: "[Project rules] (report any violation)",
+    formatInstruction: "Output the audit result as JSON only, in the following format (do not include any text other than the JSON):",
+    guidelines: [
+      "Always include every section in sections, and write a specific and detailed summary for each. Analyze the consistency with the description and the implementation of the purpose in particular detail.",
+      "Record each individual problem as one entry in findings, with its section in category. If there are no problems, findings must be an empty array.",
+      "In function_list_update, describe what should be added to or updated in function_list.txt for this change, detailed enough to understand the behavior of each function, including any changed prompts.",
+      "Write all text in English.",
+    ],
+    formatPlaceholders: {
+      file: "path of the file (null if unknown)",
+      lineStart: "start line in the new file (null if unknown)",
+      lineEnd: "end line in the new file (null if unknown)",
+      message: "description of the problem",
+      functionListUpdate: "what to add to or update in function_list.txt (empty string if nothing)",
+      traceNote: "reason for the status, or what is missing",
+      unmappedSummary: "what the change does",
+    },
+    userPrompt: {
+      request: "[Request]",
+      description: "[Modification description]",
+      changedFiles: "[Changed files]",
+      functionList: "[function_list.txt]",
+      diff: "[Diff]",
+      none: "(none)",
+    },
+    chunk: {
+      request: files => ` - files: ${files.join(", ")}`,
+      description: files => ` - This request only covers ${files.map(file => `"${file}"`).join(", ")}.`,
+      partial: " The file is large, so only some of its hunks are included. Do not judge hunks that are not included.",
+    },
+    summary: {
+      system: "You are a code audit expert. Combine the audit results of multiple files and provide an overall assessment as JSON.",
+      intro: "Below are the audit results for each file of a code change. Analyze them as a whole and write the verdict and summary of each section for the entire change.",
+      description: "Modification description",
+      fileResults: "Audit results per file",
+      failedFiles: "Files that could not be audited",
+      functionListUpdates: "function_list.txt updates per file",
+      formatInstruction: "Output JSON only, in the following format (findings may be an empty array):",
+    },
+    traceability: {
+      taskItems: "[Requirement items]",
+      guideline: "In traceability, record every item of [Requirement items] with its implementation status in the diff (implemented / partial / missing) and the locations in the diff that implement it (evidence). Record hunks that do not correspond to any requirement item in unmapped_changes.",
+      summaryInput: "Status of each requirement item (combined from the per-file results)",
+      summaryInstruction: "In traceability, record the status of each requirement item for the entire change (judge requirements implemented across several files from the results of all of them).",
+      statusLabels: { implemented: "Implemented", partial: "Partial", missing: "Missing" },
+      title: "Requirement traceability",
+      columns: { id: "ID", item: "Requirement", status: "Status", evidence: "Implemented in" },
+      unmapped: "Changes not mapped to any requirement",
+      noUnmapped: "Every change corresponds to a requirement item.",
+    },
+    followup: {
+      system: "You are a code audit expert. Answer the user's questions about the code audit below. Base your answers on the audit input (modification description, diff, function_list) and the audit result, be specific, and when asked how to fix something, show the fixed code or a diff. Answer in English.",
+      findings: "[Findings] (\"finding N\" in a question refers to this number)",
+      report: "[Audit report]",
+      diff: "[Diff of the related files]",
+      omitted: files => `(The diff of the following files is omitted because of the token limit: ${files.join(", ")})`,
+      noContext: "(The diff used for this audit was not stored with the report)",
+      heading: "Follow-up questions",
+    },
+    fixes: {
+      system: "You are a software engineer. Write a minimal patch that fixes the problem found by the code audit, as a unified diff (the same format as git diff, with paths starting with a/ and b/). Change only the lines needed to fix the problem, and output the patch as a single ```diff code block. If no fix is needed or you cannot write one, output only NO_FIX.",
+      finding: "[Finding]",
+      fileContent: file => `[Current content of ${file} (with line numbers, around the finding)]`,
+      diff: "[Audited diff]",
+      unknownLine: "(line not included in the diff)",
+      reasons: {
+        limit: max => `Not generated because fixes are suggested for at most ${max} findings.`,
+        noFix: "No fix was suggested.",
+        noPatch: "The response did not contain a unified diff.",
+        unknownLines: "The patch relies on lines that are not included in the diff, so it cannot be validated.",
+        otherFiles: files => `The patch changes files that are not part of the audited diff: ${files.join(", ")}`,
+        notApplicable: detail => `The patch does not apply: ${detail}`,
+        failed: detail => `Failed to generate a fix: ${detail}`,
+      },
+      title: "Suggested fixes",
+      rejected: "Findings without a suggested fix",
+    },
+    context: {
+      heading: "Context (reference information taken from the repository). Check the call sites to see whether signature changes or removals break callers. Declarations listed as moved or renamed must not be reported as deleted features",
+      files: "Post-change file contents (with line numbers)",
+      truncated: "(only around the changes because of the token limit)",
+      definitions: "Definitions of symbols referenced by the changes",
+      callSites: "Call sites of changed or removed declarations",
+      moves: "Moves and renames",
+      moveLabels: { file: "file moved", moved: "moved to another file", renamed: "renamed" },
+      noMoves: "No moves or renames were detected.",
+      reportTitle: "Context included in the audit",
+      reportSummary: (files, definitions, callSites) =>
+        `The audit included ${files} post-change file(s), ${definitions} definition(s) of referenced symbols and ${callSites} call site(s).`,
+    },
+    notification: {
+      subject: "[Code audit] {{status}}: {{findings}} finding(s) (high {{high}} / medium {{medium}} / low {{low}})",
+      template: [
+        "Overall: {{overall_verdict}}",
+        "{{overall_summary}}",
+        "",
+        "{{verdicts}}",
+        "",
+        "Findings:",
+        "{{top_findings}}",
+        "",
+        "Branch: {{branch}} / Commit: {{commit_sha}}",
+        "Report: {{report_url}}",
+      ].join("\n"),
+      noFindings: "No findings.",
+      moreFindings: count => `${count} more (see the report)`,
+    },
+    redaction: {
+      promptNote: "\"[REDACTED:...]\" in the input marks secrets (API keys, passwords, etc.) that were masked before sending. Do not report the masking itself; do report secrets that are hard-coded in the code",
+      title: "Redacted secrets",
+      summary: count => `${count} value(s) that look like secrets were masked before being sent to the LLM (the values are not included in this report).`,
+    },
+    rulePacks: {
+      promptHeading: "[Checks for the changed file types] (also review the following)",
+      title: "Applied rule packs",
+      summary: count => `Applied the checks and guidance of ${count} rule pack(s) based on the changed file types.`,
+    },
+    consensus: {
+      agreement: "Agreement",
+      title: "Multi-model audit",
+      models: (models, minAgreement) => `Audited with ${models.join(", ")}; findings reported by at least ${minAgreement} model(s) are included.`,
+      dropped: "Findings below the agreement threshold",
+      failed: "Models that failed to audit",
+    },
+    ruleOnly: {
+      overallWithFindings: count => `Local checks found ${count} problem(s). The LLM audit was not run.`,
+      overallClean: "Local checks found no problems. The LLM audit was not run.",
+      skipped: "Not checked because the LLM is not used.",
+      sectionWithFindings: count => `Local checks found ${count} problem(s).`,
+      sectionClean: title => `Local checks found no problems related to "${title}".`,
+    },
+    report: {
+      title: "Code Audit Report",
+      errorsBanner: count => `${count} diff(s) (files or parts of files) could not be audited. See "Audit errors" for details.`,
+      verdict: "Verdict",
+      severity: "Severity",
+      rule: "Rule",
+      otherFindings: "Other findings",
+      errors: "Audit errors",
+      cache: "Cache",
+      cacheHits: count => `${count} file(s) were unchanged, so their previous audit results were reused.`,
+      functionListUpdate: "function_list.txt updates",
+      noFunctionListUpdate: "No updates needed.",
+    },
+  },
+};
+
+// 組み込みのプロファイル
+const BUILTIN_PROFILES: Record<string, ProfileConfig> = {
+  default: {
+    description: "日本語で、指示との整合性・既存機能の削除・技術的問題点などを監査する",
+    language: "ja",
+  },
+  english: {
+    description: "Same viewpoints as the default profile, reported in English",
+    language: "en",
+  },
+};
+
+/**
+ * プロファイルの設定ファイルを読み込む（ファイルがない場合は空の設定）
+ */
+export function loadProfilesFile(): ProfilesFile {
+  const configPath = process.env.AUDIT_PROFILES_CONFIG || ".auditrc";
+  if (!fs.existsSync(configPath)) {
+    return { profiles: {} };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(`プロファイル設定ファイルを読み込めませんでした (${configPath}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = ProfilesFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`プロファイル設定ファイルの形式が不正です (${configPath}): ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 組み込みと設定ファイルのプロファイル定義を返す（同名の場合は設定ファイルを優先）
+ */
+function getProfileConfigs(file: ProfilesFile): Record<string, ProfileConfig> {
+  return { ...BUILTIN_PROFILES, ...file.profiles };
+}
+
+/**
+ * extends をたどってプロファイルの定義を統合する
+ */
+function flattenProfileConfig(name: string, configs: Record<string, ProfileConfig>, visited: string[] = []): ProfileConfig {
+  const config = configs[name];
+  if (!config) {
+    throw new Error(`プロファイルが見つかりません: ${name}`);
+  }
+  if (visited.includes(name)) {
+    throw new Error(`プロファイルの extends が循環しています: ${[...visited, name].join(" -> ")}`);
+  }
+  if (!config.extends) {
+    return config;
+  }
+
+  const base = flattenProfileConfig(config.extends, configs, [...visited, name]);
+  return {
+    description: config.description ?? base.description,
+    language: config.language ?? base.language,
+    sections: config.sections ?? base.sections,
+    severity_scale: { ...base.severity_scale, ...config.severity_scale },
+    rules: [...(base.rules || []), ...(config.rules || [])],
+  };
+}
+
+/**
+ * プロファイル定義から解決済みのプロファイルを作成する
+ */
+function resolveProfile(name: string, config: ProfileConfig): AuditProfile {
+  const language = config.language ?? "ja";
+  const texts = PROFILE_TEXTS[language];
+  const sections = config.sections ?? texts.sections;
+
+  const keys = sections.map(section => section.key);
+  const duplicated = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicated) {
+    throw new Error(`プロファイル "${name}" のセクションのキーが重複しています: ${duplicated}`);
+  }
+
+  return {
+    name,
+    description: config.description ?? "",
+    language,
+    sections: keys.includes(OVERALL_SECTION_KEY) ? sections : [...sections, texts.overall],
+    severityScale: { ...texts.severityScale, ...config.severity_scale },
+    rules: config.rules ?? [],
+  };
+}
+
+/**
+ * 名前を指定してプロファイルを取得する
+ * 省略時は環境変数 AUDIT_PROFILE、なければ設定ファイルの default_profile、なければ default
+ */
+export function getAuditProfile(name?: string): AuditProfile {
+  const file = loadProfilesFile();
+  const profileName = name || process.env.AUDIT_PROFILE || file.default_profile || DEFAULT_PROFILE_NAME;
+  const configs = getProfileConfigs(file);
+  return resolveProfile(profileName, flattenProfileConfig(profileName, configs));
+}
+
+/**
+ * 利用できるプロファイルの一覧を返す
+ */
+export function listAuditProfiles(): { name: string; description: string; language: ProfileLanguage; sections: string[]; default: boolean }[] {
+  const file = loadProfilesFile();
+  const defaultName = process.env.AUDIT_PROFILE || file.default_profile || DEFAULT_PROFILE_NAME;
+  return Object.keys(getProfileConfigs(file)).map(name => {
+    const profile = getAuditProfile(name);
+    return {
+      name,
+      description: profile.description,
+      language: profile.language,
+      sections: profile.sections.map(section => section.key),
+      default: name === defaultName,
+    };
+  });
+}
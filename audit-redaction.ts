@@ -0,0 +1,374 @@
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { SECRET_PATTERNS } from "./audit-rules.js";
+import { Redaction } from "./audit-result.js";
+import { ChatMessage } from "./audit-providers.js";
+import { setLogFilter } from "./audit-logger.js";
+import type { AuditRequest } from "./audit-common.js";
+import type { AuditContext } from "./audit-context.js";
+
+/**
+ * audit-redaction.ts
+ *
+ * 差分などに含まれる機密情報（APIキー・トークン・秘密鍵・エントロピーの高い文字列・設定した正規表現）を
+ * 検出し、外部のAIプロバイダへの送信とログの出力の前にマスクするモジュールです。
+ *
+ * マスクした値は "[REDACTED:<フィンガープリント>]" に置き換えます。フィンガープリントは値のSHA-256の先頭8桁で、
+ * 同じ値は同じ表記になります（行数は変わらないため、指摘の行番号はそのまま使えます）。
+ * 何をマスクしたか（種類・場所・フィンガープリント）は監査結果の redactions に記録し、値そのものは記録しません。
+ *
+ * 動作は AUDIT_REDACTION（または設定ファイルの mode）で指定します:
+ *  - mask:   マスクして監査する（デフォルト）
+ *  - refuse: 機密情報が見つかった場合はLLMに送信せず、監査を中止する
+ *  - off:    マスクしない
+ *
+ * 設定ファイル（AUDIT_REDACTION_CONFIG、デフォルトは audit-redaction.json）の例:
+ *   {
+ *     "mode": "refuse",
+ *     "patterns": [{ "name": "社内トークン", "pattern": "corp_[0-9a-f]{32}" }],
+ *     "allow": ["^sk-test-"],
+ *     "entropy": { "min_length": 32, "threshold": 4.5 }
+ *   }
+ */
+
+export const REDACTION_MODES = ["mask", "refuse", "off"] as const;
+export type RedactionMode = typeof REDACTION_MODES[number];
+
+// マスクした値の表記の接頭辞
+export const REDACTION_MARKER = "[REDACTED:";
+
+/**
+ * 設定ファイルの形式
+ */
+const RedactionConfigSchema = z.object({
+  mode: z.enum(REDACTION_MODES).optional(),
+  patterns: z.array(z.object({
+    name: z.string().min(1),
+    pattern: z.string().min(1),  // 正規表現（キャプチャグループがある場合はグループの部分をマスク）
+    flags: z.string().optional(),
+  })).default([]),
+  allow: z.array(z.string()).default([]),  // マスクしない値の正規表現
+  entropy: z.object({
+    enabled: z.boolean().default(true),
+    min_length: z.number().int().positive().default(24),  // 検査する文字列の最小の長さ
+    threshold: z.number().positive().default(4.2),        // 1文字あたりのシャノンエントロピー（ビット）
+  }).default({}),
+});
+type RedactionConfig = z.infer<typeof RedactionConfigSchema>;
+
+/**
+ * 解決済みの設定
+ */
+interface RedactionSettings {
+  mode: RedactionMode;
+  patterns: { name: string; pattern: RegExp }[];
+  allow: RegExp[];
+  entropy: RedactionConfig["entropy"];
+}
+
+/**
+ * マスクの結果
+ */
+export interface RedactedText {
+  text: string;
+  redactions: Redaction[];
+}
+
+// エントロピーを検査する文字列（英数字と Base64 / URL-safe Base64 の記号、"=" は末尾のパディングのみ）
+const ENTROPY_TOKEN_PATTERN = /[A-Za-z0-9+/_-]+=*/g;
+// 単語（英小文字3文字以上の並び）が占める割合がこれ以上の文字列はパスや識別子とみなす
+const MAX_WORD_RATIO = 0.5;
+// エントロピーの検査から除外する値（パッケージのロックファイルの integrity など）
+const DEFAULT_ALLOW_PATTERNS = [/^sha(?:1|256|384|512)-/];
+const ENTROPY_KIND = "エントロピーの高い文字列";
+
+let settings: RedactionSettings | undefined;
+
+/**
+ * 設定ファイルを読み込む（ファイルがない場合は空の設定）
+ */
+function loadRedactionConfig(): RedactionConfig {
+  const configPath = process.env.AUDIT_REDACTION_CONFIG || "audit-redaction.json";
+  if (!fs.existsSync(configPath)) {
+    return RedactionConfigSchema.parse({});
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (err) {
+    throw new Error(`マスク設定ファイルを読み込めませんでした (${configPath}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = RedactionConfigSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`マスク設定ファイルの形式が不正です (${configPath}): ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * 正規表現を作成する（不正な場合は設定ファイルのエラー）
+ */
+function compilePattern(source: string, flags = ""): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new Error(`マスク設定ファイルの正規表現が不正です (${source}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * 設定ファイルと環境変数から設定を解決する（初回のみ）
+ */
+function getRedactionSettings(): RedactionSettings {
+  if (settings) return settings;
+
+  const config = loadRedactionConfig();
+  const envMode = process.env.AUDIT_REDACTION as RedactionMode | undefined;
+  if (envMode && !REDACTION_MODES.includes(envMode)) {
+    throw new Error(`AUDIT_REDACTION には ${REDACTION_MODES.join(" / ")} を指定してください: ${envMode}`);
+  }
+  settings = {
+    mode: envMode ?? config.mode ?? "mask",
+    patterns: [
+      ...SECRET_PATTERNS,
+      ...config.patterns.map(({ name, pattern, flags }) => ({ name, pattern: compilePattern(pattern, flags) })),
+    ],
+    allow: [...DEFAULT_ALLOW_PATTERNS, ...config.allow.map(source => compilePattern(source))],
+    entropy: config.entropy,
+  };
+  return settings;
+}
+
+/**
+ * 現在のマスクの動作を取得する
+ */
+export function getRedactionMode(): RedactionMode {
+  return getRedactionSettings().mode;
+}
+
+/**
+ * 1文字あたりのシャノンエントロピー（ビット）
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  [...value].forEach(char => counts.set(char, (counts.get(char) ?? 0) + 1));
+  return [...counts.values()].reduce((sum, count) => {
+    const p = count / value.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+}
+
+/**
+ * 単語（先頭の大文字を含む英小文字3文字以上の並び）が占める割合
+ */
+function wordRatio(value: string): number {
+  const wordLength = [...value.matchAll(/[A-Z]?[a-z]{3,}/g)].reduce((sum, match) => sum + match[0].length, 0);
+  return wordLength / value.length;
+}
+
+/**
+ * ランダムに生成された鍵らしい文字列か
+ * 識別子・パス・ハッシュ値を避けるため、大文字・小文字・数字をすべて含み、単語の並びでないものに限る
+ */
+function looksRandom(value: string, entropy: RedactionConfig["entropy"]): boolean {
+  return value.length >= entropy.min_length
+    && /[A-Z]/.test(value) && /[a-z]/.test(value) && /[0-9]/.test(value)
+    && wordRatio(value) < MAX_WORD_RATIO
+    && shannonEntropy(value) >= entropy.threshold;
+}
+
+/**
+ * 値のフィンガープリント（同じ値かどうかの確認用）
+ */
+function fingerprint(value: string): string {
+  return createHash("sha256").update(value).digest("hex").substring(0, 8);
+}
+
+/**
+ * 1行に含まれる機密情報の範囲を検出する（重なる範囲は先に見つかったものを優先）
+ */
+function detectSecrets(line: string, current: RedactionSettings): { start: number; end: number; kind: string }[] {
+  const ranges: { start: number; end: number; kind: string }[] = [];
+  const overlaps = (start: number, end: number) => ranges.some(range => start < range.end && range.start < end);
+  const add = (start: number, end: number, kind: string) => {
+    const value = line.substring(start, end);
+    if (end <= start || value.startsWith(REDACTION_MARKER) || overlaps(start, end)) return;
+    if (current.allow.some(pattern => pattern.test(value))) return;
+    ranges.push({ start, end, kind });
+  };
+
+  current.patterns.forEach(({ name, pattern }) => {
+    const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+    for (const match of line.matchAll(global)) {
+      const value = match[1] ?? match[0];
+      const start = match.index! + (match[1] !== undefined ? match[0].lastIndexOf(match[1]) : 0);
+      add(start, start + value.length, name);
+    }
+  });
+
+  if (current.entropy.enabled) {
+    for (const match of line.matchAll(ENTROPY_TOKEN_PATTERN)) {
+      // 差分の行頭の "+" などは含めない
+      const start = match.index! + match[0].match(/^[+/=]*/)![0].length;
+      const end = match.index! + match[0].length;
+      if (looksRandom(line.substring(start, end), current.entropy)) {
+        add(start, end, ENTROPY_KIND);
+      }
+    }
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 差分の各行が変更後のどのファイル・行にあたるかを求める（差分以外のテキストは行番号のみ）
+ */
+function locateLines(text: string, isDiff: boolean): { file?: string; line?: number }[] {
+  if (!isDiff) {
+    return text.split("\n").map((_, index) => ({ line: index + 1 }));
+  }
+  let file: string | undefined;
+  let newLine = 0;
+  return text.split("\n").map(line => {
+    if (line.startsWith("+++ ")) {
+      file = line.substring(4).replace(/^b\//, "").trim();
+      return { file };
+    }
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10);
+      return { file };
+    }
+    if (line.startsWith("+") || line.startsWith(" ")) {
+      return { file, line: newLine++ };
+    }
+    if (line.startsWith("-")) {
+      return { file };
+    }
+    return {};
+  });
+}
+
+/**
+ * テキストに含まれる機密情報をマスクする
+ * source は記録用の入力の名前（code_changes の場合は差分として変更後のファイル・行を記録する）
+ */
+export function redactText(text: string, source: string, file?: string): RedactedText {
+  const current = getRedactionSettings();
+  if (current.mode === "off" || !text) {
+    return { text, redactions: [] };
+  }
+
+  const redactions: Redaction[] = [];
+  const locations = locateLines(text, source === "code_changes");
+  const lines = text.split("\n").map((line, index) => {
+    const ranges = detectSecrets(line, current);
+    if (ranges.length === 0) return line;
+
+    let masked = "";
+    let cursor = 0;
+    ranges.forEach(range => {
+      const hash = fingerprint(line.substring(range.start, range.end));
+      masked += `${line.substring(cursor, range.start)}${REDACTION_MARKER}${hash}]`;
+      cursor = range.end;
+      // file を指定した場合（コンテキストのファイル内容など）は行番号を記録しない
+      const location = file ? { file } : locations[index];
+      redactions.push({
+        kind: range.kind,
+        source,
+        ...(location.file ? { file: location.file } : {}),
+        ...(location.line !== undefined ? { line: location.line } : {}),
+        fingerprint: hash,
+      });
+    });
+    return masked + line.substring(cursor);
+  });
+  return { text: lines.join("\n"), redactions };
+}
+
+/**
+ * 監査リクエストの入力（差分・function_list・リクエスト・修正内容の説明）をマスクする
+ */
+export function redactAuditRequest(params: AuditRequest): { params: AuditRequest; redactions: Redaction[] } {
+  const fields = ["request", "modification_description", "code_changes", "function_list"] as const;
+  const redacted = { ...params };
+  const redactions = fields.flatMap(field => {
+    const result = redactText(params[field] ?? "", field);
+    redacted[field] = result.text;
+    return result.redactions;
+  });
+  return { params: redacted, redactions };
+}
+
+/**
+ * 監査に含めるコンテキスト（ファイル内容・定義・呼び出し箇所）をマスクする
+ */
+export function redactAuditContext(context: AuditContext): { context: AuditContext; redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const redact = (text: string, file: string) => {
+    const result = redactText(text, "context", file);
+    redactions.push(...result.redactions);
+    return result.text;
+  };
+  return {
+    context: {
+      ...context,
+      files: context.files.map(file => ({ ...file, content: redact(file.content, file.path) })),
+      definitions: context.definitions.map(snippet => ({ ...snippet, text: redact(snippet.text, snippet.file) })),
+      call_sites: context.call_sites.map(snippet => ({ ...snippet, text: redact(snippet.text, snippet.file) })),
+    },
+    redactions,
+  };
+}
+
+/**
+ * AIプロバイダに送信するメッセージをマスクする
+ */
+export function redactMessages(messages: ChatMessage[]): { messages: ChatMessage[]; redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const redacted = messages.map(message => {
+    const result = redactText(message.content, "prompt");
+    redactions.push(...result.redactions);
+    return { ...message, content: result.text };
+  });
+  return { messages: redacted, redactions };
+}
+
+/**
+ * 機密情報が含まれていたため監査を中止したことを表すエラー
+ */
+export class SecretDetectedError extends Error {
+  constructor(public readonly redactions: Redaction[]) {
+    const locations = redactions
+      .slice(0, 5)
+      .map(redaction => `${redaction.kind}（${redaction.file ? `${redaction.file}${redaction.line ? `:${redaction.line}` : ""}` : redaction.source}）`)
+      .join(", ");
+    super(`機密情報が含まれているため、LLMに送信せずに監査を中止しました（${redactions.length}件）: ${locations}${redactions.length > 5 ? " ほか" : ""}`);
+    this.name = "SecretDetectedError";
+  }
+}
+
+/**
+ * refuse モードで機密情報が見つかった場合は監査を中止する
+ */
+export function assertNoSecrets(redactions: Redaction[]): void {
+  if (redactions.length > 0 && getRedactionMode() === "refuse") {
+    throw new SecretDetectedError(redactions);
+  }
+}
+
+// ログに出力する文字列もマスクする
+setLogFilter(text => {
+  try {
+    return redactText(text, "log").text;
+  } catch {
+    // 設定ファイルの誤りでログが出力できなくならないよう、マスクせずに出力する
+    // (設定ファイルの誤りは監査の実行時にエラーになる)
+    return text;
+  }
+});
@@ -0,0 +1,280 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { fileURLToPath } from "url";
+import { AuditResult, Finding, Severity, SEVERITY_ORDER } from "./audit-result.js";
+import type { UsageSummary } from "./audit-usage.js";
+
+/**
+ * audit-reports.ts
+ *
+ * 監査レポートの保存・検索・比較を行うレポートストアです。
+ *
+ * レポートは `audits/reports`（AUDIT_REPORTS_DIR で変更可能）に、レポートIDごとに
+ *  - <id>.txt  Markdown形式の監査レポート
+ *  - <id>.json メタデータと構造化された監査結果（追加の質問のための監査時の入力と会話を含む）
+ * の2ファイルとして保存します。
+ */
+
+/**
+ * レポートのメタデータ
+ */
+export interface ReportMetadata {
+  request: string;
+  modification_description: string;
+  changed_files: string[];
+  commit_sha?: string;
+  branch?: string;
+  provider?: string;
+  model?: string;
+  llm: boolean;
+  profile?: string;          // 監査プロファイル（記録前のレポートにはない）
+  status: string;
+  duration_ms: number;
+  finding_counts: Record<Severity, number>;
+  usage?: UsageSummary;      // LLM呼び出しのトークン数・コスト（記録前のレポートにはない）
+}
+
+/**
+ * 追加の質問で使う監査時の入力
+ */
+export interface ReportContext {
+  code_changes: string;
+  function_list: string;
+}
+
+/**
+ * 監査結果についての質問と回答
+ */
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  files: string[];           // 回答時に差分を含めたファイル
+  createdAt: string;
+  usage?: UsageSummary;
+}
+
+/**
+ * 保存されたレポート
+ */
+export interface StoredReport {
+  id: string;
+  createdAt: string;
+  metadata: ReportMetadata;
+  auditResult: AuditResult;
+  aiReport: string;
+  context?: ReportContext;              // 記録前のレポートにはない
+  conversation?: ConversationTurn[];
+}
+
+/**
+ * 一覧表示用のレポート概要
+ */
+export type ReportSummary = Omit<StoredReport, "auditResult" | "aiReport" | "context" | "conversation">;
+
+/**
+ * レポート一覧の絞り込み条件
+ */
+export interface ReportFilter {
+  branch?: string;
+  commit_sha?: string;    // 前方一致
+  request?: string;       // 部分一致
+  status?: string;
+  since?: string;         // ISO 8601 形式の日時
+  until?: string;
+  min_severity?: Severity; // この重要度以上の指摘があるレポートのみ
+  limit?: number;
+}
+
+/**
+ * 2つのレポートの比較結果
+ */
+export interface ReportComparison {
+  base: ReportSummary;
+  head: ReportSummary;
+  fixed: Finding[];      // base にあって head にない指摘
+  new: Finding[];        // head にのみある指摘
+  unchanged: Finding[];  // 両方にある指摘（head 側）
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+/**
+ * レポートの保存先ディレクトリを取得する
+ */
+export function getReportsDir(): string {
+  if (process.env.AUDIT_REPORTS_DIR) {
+    return process.env.AUDIT_REPORTS_DIR;
+  }
+  const moduleDir = path.dirname(fileURLToPath(import.meta.url));
+  return path.join(moduleDir, "audits", "reports");
+}
+
+/**
+ * レポートIDを検証する（パスとして安全な文字のみ許可）
+ */
+function assertValidReportId(id: string): void {
+  if (!/^[\w.-]+$/.test(id)) {
+    throw new Error(`不正なレポートIDです: ${id}`);
+  }
+}
+
+/**
+ * 監査レポートを保存する
+ */
+export function saveReport(
+  metadata: ReportMetadata,
+  auditResult: AuditResult,
+  aiReport: string,
+  context?: ReportContext
+): { id: string; reportPath: string } {
+  const reportsDir = getReportsDir();
+  if (!fs.existsSync(reportsDir)) {
+    fs.mkdirSync(reportsDir, { recursive: true });
+  }
+
+  const createdAt = new Date().toISOString();
+  const id = `audit-report-${createdAt.replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+  const reportPath = path.join(reportsDir, `${id}.txt`);
+  const stored: StoredReport = { id, createdAt, metadata, auditResult, aiReport, ...(context ? { context } : {}) };
+
+  fs.writeFileSync(reportPath, aiReport, "utf8");
+  fs.writeFileSync(path.join(reportsDir, `${id}.json`), JSON.stringify(stored, null, 2), "utf8");
+  return { id, reportPath };
+}
+
+/**
+ * レポートを取得する
+ */
+export function getReport(id: string): StoredReport {
+  assertValidReportId(id);
+  const jsonPath = path.join(getReportsDir(), `${id}.json`);
+  if (!fs.existsSync(jsonPath)) {
+    throw new Error(`監査レポートが見つかりません: ${id}`);
+  }
+  return JSON.parse(fs.readFileSync(jsonPath, "utf8")) as StoredReport;
+}
+
+/**
+ * レポートを更新する（追記情報の保存用）
+ */
+export function updateReport(report: StoredReport): void {
+  assertValidReportId(report.id);
+  const reportsDir = getReportsDir();
+  fs.writeFileSync(path.join(reportsDir, `${report.id}.txt`), report.aiReport, "utf8");
+  fs.writeFileSync(path.join(reportsDir, `${report.id}.json`), JSON.stringify(report, null, 2), "utf8");
+}
+
+/**
+ * レポートから概要を取り出す
+ */
+function toSummary(report: StoredReport): ReportSummary {
+  return { id: report.id, createdAt: report.createdAt, metadata: report.metadata };
+}
+
+/**
+ * 条件に一致するレポートの概要を新しい順に取得する
+ */
+export function listReports(filter: ReportFilter = {}): ReportSummary[] {
+  const reportsDir = getReportsDir();
+  if (!fs.existsSync(reportsDir)) return [];
+
+  const reports = fs.readdirSync(reportsDir)
+    .filter(file => file.endsWith(".json"))
+    .map(file => {
+      try {
+        return JSON.parse(fs.readFileSync(path.join(reportsDir, file), "utf8")) as StoredReport;
+      } catch {
+        return null;
+      }
+    })
+    .filter((report): report is StoredReport => report !== null && !!report.metadata)
+    .map(toSummary);
+
+  const minSeverityIndex = filter.min_severity ? SEVERITY_ORDER.indexOf(filter.min_severity) : -1;
+
+  return reports
+    .filter(report => !filter.branch || report.metadata.branch === filter.branch)
+    .filter(report => !filter.commit_sha || (report.metadata.commit_sha || "").startsWith(filter.commit_sha))
+    .filter(report => !filter.request || report.metadata.request.includes(filter.request))
+    .filter(report => !filter.status || report.metadata.status === filter.status)
+    .filter(report => !filter.since || report.createdAt >= new Date(filter.since).toISOString())
+    .filter(report => !filter.until || report.createdAt <= new Date(filter.until).toISOString())
+    .filter(report => minSeverityIndex < 0 || SEVERITY_ORDER.slice(minSeverityIndex)
+      .some(severity => report.metadata.finding_counts[severity] > 0))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit ?? DEFAULT_LIST_LIMIT);
+}
+
+/**
+ * 指摘の比較用キー（数字と空白の違いは無視する）
+ */
+function findingKey(finding: Finding): string {
+  const message = finding.message.replace(/\d+/g, "#").replace(/\s+/g, "");
+  return [finding.file || "", finding.category, finding.rule || "", message].join("|");
+}
+
+/**
+ * 2つの指摘が同じ問題を指しているか（ファイル・カテゴリが同じで、行範囲が重なるか近い）
+ */
+function isSameLocation(a: Finding, b: Finding): boolean {
+  if ((a.file || "") !== (b.file || "") || a.category !== b.category || (a.rule || "") !== (b.rule || "")) {
+    return false;
+  }
+  if (a.line_start == null || b.line_start == null) return false;
+  const aEnd = a.line_end ?? a.line_start;
+  const bEnd = b.line_end ?? b.line_start;
+  const tolerance = 3;
+  return a.line_start <= bEnd + tolerance && b.line_start <= aEnd + tolerance;
+}
+
+/**
+ * 2つの指摘一覧を比較し、解消・新規・継続に分類する
+ * 内容（ファイル・カテゴリ・ルール・メッセージ）が一致するものを先に対応付け、
+ * 残りは位置（ファイル・カテゴリ・行範囲）が近いものを同じ指摘とみなす
+ */
+export function compareFindings(
+  base: Finding[],
+  head: Finding[]
+): { fixed: Finding[]; new: Finding[]; unchanged: Finding[] } {
+  const remainingBase = [...base];
+  const unchanged: Finding[] = [];
+  const unmatchedHead: Finding[] = [];
+
+  head.forEach(finding => {
+    const index = remainingBase.findIndex(candidate => findingKey(candidate) === findingKey(finding));
+    if (index >= 0) {
+      remainingBase.splice(index, 1);
+      unchanged.push(finding);
+    } else {
+      unmatchedHead.push(finding);
+    }
+  });
+
+  const added: Finding[] = [];
+  unmatchedHead.forEach(finding => {
+    const index = remainingBase.findIndex(candidate => isSameLocation(candidate, finding));
+    if (index >= 0) {
+      remainingBase.splice(index, 1);
+      unchanged.push(finding);
+    } else {
+      added.push(finding);
+    }
+  });
+
+  return { fixed: remainingBase, new: added, unchanged };
+}
+
+/**
+ * 2つのレポートを比較する
+ */
+export function compareReports(baseId: string, headId: string): ReportComparison {
+  const base = getReport(baseId);
+  const head = getReport(headId);
+  return {
+    base: toSummary(base),
+    head: toSummary(head),
+    ...compareFindings(base.auditResult.findings, head.auditResult.findings),
+  };
+}
+
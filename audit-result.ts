@@ -0,0 +1,540 @@
+import { z } from "zod";
+import { AuditProfile, OVERALL_SECTION_KEY, PROFILE_TEXTS } from "./audit-profiles.js";
+
+/**
+ * audit-result.ts
+ *
+ * 監査結果の構造化データ（zodスキーマと型）と、
+ * そこからMarkdownレポートを生成する処理をまとめたモジュールです。
+ */
+
+/**
+ * 指摘の重要度
+ */
+export const SeveritySchema = z.enum(["high", "medium", "low"]);
+export type Severity = z.infer<typeof SeveritySchema>;
+
+// 重要度の低い順
+export const SEVERITY_ORDER: Severity[] = ["low", "medium", "high"];
+
+/**
+ * デフォルトのプロファイルのセクション（監査観点）
+ * プロファイルで独自のセクションを定義できるため、監査結果のセクション・カテゴリは任意の文字列です
+ */
+export const SectionKeySchema = z.enum([
+  "unrequested_changes",
+  "deleted_features",
+  "todo_fixme",
+  "description_consistency",
+  "purpose_implementation",
+  "technical_issues",
+  "overall",
+]);
+export type SectionKey = z.infer<typeof SectionKeySchema>;
+
+/**
+ * セクションごとの判定
+ *   ok: 問題なし / warning: 要確認 / ng: 問題あり / skipped: 未確認（LLMを使用しないモードなど）
+ */
+export const VerdictSchema = z.enum(["ok", "warning", "ng", "skipped"]);
+export type Verdict = z.infer<typeof VerdictSchema>;
+
+export const SectionResultSchema = z.object({
+  verdict: VerdictSchema,
+  summary: z.string(),
+});
+export type SectionResult = z.infer<typeof SectionResultSchema>;
+
+/**
+ * 個別の指摘事項
+ */
+export const FindingSchema = z.object({
+  severity: SeveritySchema,
+  category: z.string().min(1),   // セクションのキー
+  file: z.string().nullable().optional(),
+  line_start: z.number().int().nullable().optional(),
+  line_end: z.number().int().nullable().optional(),
+  message: z.string(),
+  rule: z.string().optional(),  // ローカルルールによる指摘の場合はルールID
+  patch: z.string().optional(),        // 修正案（適用できることを確認した unified diff、suggest_fixes 指定時）
+  patch_error: z.string().optional(),  // 修正案を作成できなかった理由
+  agreement: z.number().int().optional(),   // 複数のモデルで監査した場合に、同じ問題を指摘したモデル数
+  models: z.array(z.string()).optional(),   // 同じ問題を指摘したモデル（"プロバイダ名/モデル名"）
+});
+export type Finding = z.infer<typeof FindingSchema>;
+
+/**
+ * 監査処理中に発生したエラー（ファイル単位）
+ */
+export const AuditErrorSchema = z.object({
+  file: z.string(),
+  message: z.string(),
+});
+export type AuditError = z.infer<typeof AuditErrorSchema>;
+
+/**
+ * 要件項目（task_list.txt の各項目）の実装状況
+ *   implemented: 実装済み / partial: 一部のみ実装 / missing: 未実装
+ */
+export const TraceStatusSchema = z.enum(["implemented", "partial", "missing"]);
+export type TraceStatus = z.infer<typeof TraceStatusSchema>;
+
+/**
+ * 差分内の位置（ファイルと変更後の行範囲）
+ */
+export const TraceLocationSchema = z.object({
+  file: z.string(),
+  line_start: z.number().int().nullable().optional(),
+  line_end: z.number().int().nullable().optional(),
+});
+export type TraceLocation = z.infer<typeof TraceLocationSchema>;
+
+/**
+ * 要件項目ごとの対応状況（LLMの出力では text を省略できる）
+ */
+export const TraceItemSchema = z.object({
+  id: z.string(),                                     // 要件項目のID（T1, T2, ...）
+  text: z.string().default(""),                       // 要件項目の内容
+  status: TraceStatusSchema,
+  evidence: z.array(TraceLocationSchema).default([]), // 要件を実装している差分の位置
+  note: z.string().optional(),
+});
+export type TraceItem = z.infer<typeof TraceItemSchema>;
+
+/**
+ * 要件トレーサビリティ（要件項目と差分の対応表）
+ */
+export const TraceabilitySchema = z.object({
+  items: z.array(TraceItemSchema),
+  // どの要件項目にも対応しない変更（指示していない変更の候補）
+  unmapped_changes: z.array(TraceLocationSchema.extend({ summary: z.string() })).default([]),
+});
+export type Traceability = z.infer<typeof TraceabilitySchema>;
+
+/**
+ * 差分から検出した移動・名前の変更
+ *   moved: 宣言の別ファイルへの移動（symbol を省略した場合はファイル自体の移動） / renamed: 宣言の名前の変更
+ */
+export const DetectedMoveSchema = z.object({
+  kind: z.enum(["moved", "renamed"]),
+  symbol: z.string().optional(),      // 宣言名
+  new_symbol: z.string().optional(),  // 変更後の宣言名（renamed の場合）
+  from: z.string(),                   // 変更前のファイル
+  to: z.string(),                     // 変更後のファイル
+});
+export type DetectedMove = z.infer<typeof DetectedMoveSchema>;
+
+/**
+ * 監査に含めたコンテキストの概要（enrich_context 指定時）
+ */
+export const EnrichmentSchema = z.object({
+  files: z.array(z.string()),            // 変更後の内容を含めたファイル
+  truncated_files: z.array(z.string()),  // トークン数の上限のため一部のみ含めたファイル
+  definitions: z.array(z.string()),      // 定義を含めたシンボル
+  call_sites: z.array(z.string()),       // 含めた呼び出し箇所（"ファイル:行"）
+  moves: z.array(DetectedMoveSchema),
+});
+export type Enrichment = z.infer<typeof EnrichmentSchema>;
+
+/**
+ * LLMへの送信前にマスクした機密情報（値そのものは含めない）
+ */
+export const RedactionSchema = z.object({
+  kind: z.string(),               // 種類（"AWSアクセスキー" など）
+  source: z.string(),             // 含まれていた入力（code_changes / function_list / context など）
+  file: z.string().optional(),    // ファイル（差分・コンテキストの場合）
+  line: z.number().int().optional(),  // 変更後の行番号（差分の場合）、入力内の行番号（それ以外）
+  fingerprint: z.string(),        // 値のSHA-256の先頭8桁（マスク後の表記 [REDACTED:...] と同じ）
+});
+export type Redaction = z.infer<typeof RedactionSchema>;
+
+/**
+ * 差分のファイルの種類に応じて適用したルールパック（audit-rule-packs.ts）
+ */
+export const RulePackUsageSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  files: z.array(z.string()),  // ルールパックの対象になったファイル
+});
+export type RulePackUsage = z.infer<typeof RulePackUsageSchema>;
+
+/**
+ * 監査結果全体
+ */
+export const AuditResultSchema = z.object({
+  sections: z.record(SectionResultSchema),  // セクションのキーごとの判定（プロファイルのセクション）
+  findings: z.array(FindingSchema),
+  function_list_update: z.string(),
+  errors: z.array(AuditErrorSchema).optional(),
+  traceability: TraceabilitySchema.optional(),  // 修正内容を要件項目に分けて差分と対応付けた結果
+  consensus: z.object({                         // 複数のモデルで監査した場合の突き合わせの情報
+    models: z.array(z.string()),                // 監査できたモデル
+    min_agreement: z.number().int(),
+    dropped: z.array(FindingSchema),            // 指摘したモデルが min_agreement 未満のため除外した指摘
+    failed: z.array(z.object({ model: z.string(), message: z.string() })),
+  }).optional(),
+  enrichment: EnrichmentSchema.optional(),      // 監査に含めたコンテキスト（enrich_context 指定時）
+  redactions: z.array(RedactionSchema).optional(),  // LLMへの送信前にマスクした機密情報
+  rule_packs: z.array(RulePackUsageSchema).optional(),  // 適用したルールパック
+  cache: z.object({
+    hits: z.array(z.string()),     // 前回の監査結果を再利用したファイル
+    audited: z.array(z.string()),  // LLMで監査したファイル
+  }).optional(),
+});
+export type AuditResult = z.infer<typeof AuditResultSchema>;
+
+/**
+ * LLMに出力させるJSONの形式（プロンプトに埋め込む説明）をプロファイルのセクションから作成する
+ * traceability を指定した場合は要件トレーサビリティの出力欄を含める
+ */
+export function buildResultFormat(profile: AuditProfile, traceability = false): string {
+  const placeholders = PROFILE_TEXTS[profile.language].formatPlaceholders;
+  const keyWidth = Math.max(...profile.sections.map(section => section.key.length)) + 3;
+  const sections = profile.sections
+    .map((section, index) => {
+      const verdict = index === 0 ? `"ok" | "warning" | "ng"` : `"..."`;
+      return `    ${`"${section.key}":`.padEnd(keyWidth)} { "verdict": ${verdict}, "summary": "${section.instruction}" }`;
+    })
+    .join(",\n");
+  const categories = profile.sections.map(section => `"${section.key}"`).join(" | ");
+
+  return `{
+  "sections": {
+${sections}
+  },
+  "findings": [
+    {
+      "severity": "high" | "medium" | "low",
+      "category": ${categories},
+      "file": "${placeholders.file}",
+      "line_start": ${placeholders.lineStart},
+      "line_end": ${placeholders.lineEnd},
+      "message": "${placeholders.message}"
+    }
+  ],
+  "function_list_update": "${placeholders.functionListUpdate}"${traceability ? `,
+  "traceability": {
+    "items": [
+      {
+        "id": "T1",
+        "status": "implemented" | "partial" | "missing",
+        "evidence": [{ "file": "${placeholders.file}", "line_start": ${placeholders.lineStart}, "line_end": ${placeholders.lineEnd} }],
+        "note": "${placeholders.traceNote}"
+      }
+    ],
+    "unmapped_changes": [
+      { "file": "${placeholders.file}", "line_start": ${placeholders.lineStart}, "line_end": ${placeholders.lineEnd}, "summary": "${placeholders.unmappedSummary}" }
+    ]
+  }` : ""}
+}`;
+}
+
+/**
+ * LLMの応答テキストからJSONを取り出し、監査結果として検証する
+ * プロファイルのセクションがすべて含まれていることを確認し、
+ * プロファイルにないカテゴリの指摘は総合評価（overall）に分類する
+ */
+export function parseAuditResult(text: string, profile: AuditProfile): AuditResult {
+  const json = extractJson(text);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`監査結果のJSONを解析できませんでした: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = AuditResultSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join(", ");
+    throw new Error(`監査結果の形式が不正です: ${issues}`);
+  }
+
+  const missing = profile.sections.filter(section => !parsed.data.sections[section.key]);
+  if (missing.length > 0) {
+    throw new Error(`監査結果の形式が不正です: sections に ${missing.map(section => section.key).join(", ")} がありません`);
+  }
+  return {
+    ...parsed.data,
+    findings: normalizeFindingCategories(parsed.data.findings, profile),
+  };
+}
+
+/**
+ * プロファイルにないカテゴリの指摘を総合評価（overall）に分類する
+ */
+export function normalizeFindingCategories(findings: Finding[], profile: AuditProfile): Finding[] {
+  const keys = new Set(profile.sections.map(section => section.key));
+  return findings.map(finding => keys.has(finding.category) ? finding : { ...finding, category: OVERALL_SECTION_KEY });
+}
+
+/**
+ * コードブロックや前後の文章を取り除いてJSON部分だけを返す
+ */
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  if (start === -1 || end === -1 || end < start) {
+    throw new Error("監査結果にJSONが含まれていません。");
+  }
+  return body.substring(start, end + 1);
+}
+
+/**
+ * 指摘の位置を "file:10-20" 形式で表す
+ */
+export function formatFindingLocation(finding: Pick<Finding, "file" | "line_start" | "line_end">): string {
+  if (!finding.file) return "";
+  if (finding.line_start == null) return finding.file;
+  if (finding.line_end == null || finding.line_end === finding.line_start) {
+    return `${finding.file}:${finding.line_start}`;
+  }
+  return `${finding.file}:${finding.line_start}-${finding.line_end}`;
+}
+
+const VERDICT_ORDER: Verdict[] = ["skipped", "ok", "warning", "ng"];
+
+/**
+ * より厳しい方の判定を返す
+ */
+export function stricterVerdict(a: Verdict, b: Verdict): Verdict {
+  return VERDICT_ORDER.indexOf(a) >= VERDICT_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * 複数の監査結果（同じファイルを分割して監査した結果など）のセクションを統合する
+ * 判定は最も厳しいものを採用し、サマリーはラベル付きで連結する
+ */
+export function mergeSections(
+  results: { label: string; sections: AuditResult["sections"] }[]
+): AuditResult["sections"] {
+  if (results.length === 1) return results[0].sections;
+
+  const keys = [...new Set(results.flatMap(item => Object.keys(item.sections)))];
+  const merge = (key: string): SectionResult => {
+    const sections = results.filter(item => item.sections[key]);
+    return {
+      verdict: sections.map(item => item.sections[key].verdict).reduce(stricterVerdict, "skipped"),
+      summary: sections.map(item => `[${item.label}] ${item.sections[key].summary}`).join("\n"),
+    };
+  };
+
+  return Object.fromEntries(keys.map(key => [key, merge(key)]));
+}
+
+/**
+ * 重要度ごとの指摘件数を数える
+ */
+export function countFindings(findings: Finding[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { high: 0, medium: 0, low: 0 };
+  findings.forEach(finding => {
+    counts[finding.severity]++;
+  });
+  return counts;
+}
+
+/**
+ * 検出した移動・名前の変更を1行で表す
+ */
+export function formatMove(move: DetectedMove, profile: AuditProfile): string {
+  const labels = PROFILE_TEXTS[profile.language].context.moveLabels;
+  const files = move.from === move.to ? `\`${move.from}\`` : `\`${move.from}\` → \`${move.to}\``;
+  if (!move.symbol) {
+    return `${files} [${labels.file}]`;
+  }
+  return move.kind === "renamed"
+    ? `${move.symbol} → ${move.new_symbol} (${files}) [${labels.renamed}]`
+    : `${move.symbol} (${files}) [${labels.moved}]`;
+}
+
+/**
+ * 構造化された監査結果からMarkdownレポートを生成する
+ * セクションの見出し・表示順と文言の言語はプロファイルに従う
+ */
+export function renderAuditMarkdown(result: AuditResult, profile: AuditProfile): string {
+  const texts = PROFILE_TEXTS[profile.language];
+  const lines: string[] = [`# ${texts.report.title}`, ""];
+  const renderFindings = (findings: Finding[]) => {
+    if (findings.length === 0) return;
+    findings.forEach(finding => {
+      const location = formatFindingLocation(finding);
+      const rule = finding.rule ? ` [${texts.report.rule}: ${finding.rule}]` : "";
+      const agreement = finding.agreement && result.consensus
+        ? ` [${texts.consensus.agreement}: ${finding.agreement}/${result.consensus.models.length}]`
+        : "";
+      lines.push(`- ${location ? `\`${location}\` ` : ""}${finding.message} [${texts.report.severity}: ${texts.severityLabels[finding.severity]}]${rule}${agreement}`);
+    });
+    lines.push("");
+  };
+
+  if (result.errors && result.errors.length > 0) {
+    lines.push(`> ⚠ ${texts.report.errorsBanner(result.errors.length)}`);
+    lines.push("");
+  }
+
+  profile.sections.forEach((section, index) => {
+    const sectionResult = result.sections[section.key];
+    lines.push(`## ${index + 1}. ${section.title}`);
+    lines.push("");
+    if (sectionResult) {
+      lines.push(`**${texts.report.verdict}: ${texts.verdictLabels[sectionResult.verdict]}**`);
+      lines.push("");
+      lines.push(sectionResult.summary);
+      lines.push("");
+    }
+    renderFindings(result.findings.filter(finding => finding.category === section.key));
+  });
+
+  if (result.traceability && result.traceability.items.length > 0) {
+    const trace = PROFILE_TEXTS[profile.language].traceability;
+    const cell = (value: string) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+    lines.push(`## ${trace.title}`);
+    lines.push("");
+    lines.push(`| ${trace.columns.id} | ${trace.columns.item} | ${trace.columns.status} | ${trace.columns.evidence} |`);
+    lines.push("|----|----|----|----|");
+    result.traceability.items.forEach(item => {
+      const evidence = item.evidence.map(location => `\`${formatFindingLocation(location)}\``).join(", ") || "-";
+      const note = item.note ? `<br>${cell(item.note)}` : "";
+      lines.push(`| ${item.id} | ${cell(item.text)} | ${trace.statusLabels[item.status]}${note} | ${evidence} |`);
+    });
+    lines.push("");
+    lines.push(`### ${trace.unmapped}`);
+    lines.push("");
+    if (result.traceability.unmapped_changes.length === 0) {
+      lines.push(trace.noUnmapped);
+    }
+    result.traceability.unmapped_changes.forEach(change => {
+      lines.push(`- \`${formatFindingLocation(change)}\` ${change.summary}`);
+    });
+    lines.push("");
+  }
+
+  // 監査に含めたコンテキストと、移動・名前の変更（enrich_context 指定時）
+  if (result.enrichment) {
+    const { files, definitions, call_sites, moves } = result.enrichment;
+    lines.push(`## ${texts.context.reportTitle}`);
+    lines.push("");
+    lines.push(texts.context.reportSummary(files.length, definitions.length, call_sites.length));
+    lines.push("");
+    lines.push(`### ${texts.context.moves}`);
+    lines.push("");
+    if (moves.length === 0) {
+      lines.push(texts.context.noMoves);
+    }
+    moves.forEach(move => lines.push(`- ${formatMove(move, profile)}`));
+    lines.push("");
+  }
+
+  // 差分のファイルの種類に応じて適用したルールパック
+  if (result.rule_packs && result.rule_packs.length > 0) {
+    lines.push(`## ${texts.rulePacks.title}`);
+    lines.push("");
+    lines.push(texts.rulePacks.summary(result.rule_packs.length));
+    lines.push("");
+    result.rule_packs.forEach(pack => lines.push(`- ${pack.name} (\`${pack.id}\`): ${pack.files.map(file => `\`${file}\``).join(", ")}`));
+    lines.push("");
+  }
+
+  // LLMへの送信前にマスクした機密情報
+  if (result.redactions && result.redactions.length > 0) {
+    lines.push(`## ${texts.redaction.title}`);
+    lines.push("");
+    lines.push(texts.redaction.summary(result.redactions.length));
+    lines.push("");
+    result.redactions.forEach(redaction => {
+      const location = redaction.file
+        ? formatFindingLocation({ file: redaction.file, line_start: redaction.line })
+        : `${redaction.source}${redaction.line ? `:${redaction.line}` : ""}`;
+      lines.push(`- \`${location}\` ${redaction.kind} (\`${redaction.fingerprint}\`)`);
+    });
+    lines.push("");
+  }
+
+  // プロファイルにないカテゴリの指摘（別のプロファイルで監査した結果を表示する場合など）
+  const sectionKeys = new Set(profile.sections.map(section => section.key));
+  const otherFindings = result.findings.filter(finding => !sectionKeys.has(finding.category));
+  if (otherFindings.length > 0) {
+    lines.push(`## ${texts.report.otherFindings}`);
+    lines.push("");
+    renderFindings(otherFindings);
+  }
+
+  // 複数モデルによる監査（providers を複数指定した場合）
+  if (result.consensus) {
+    const { models, min_agreement, dropped, failed } = result.consensus;
+    lines.push(`## ${texts.consensus.title}`);
+    lines.push("");
+    lines.push(texts.consensus.models(models, min_agreement));
+    lines.push("");
+    if (dropped.length > 0) {
+      lines.push(`### ${texts.consensus.dropped}`);
+      lines.push("");
+      dropped.forEach(finding => {
+        const location = formatFindingLocation(finding);
+        lines.push(`- ${location ? `\`${location}\` ` : ""}${finding.message} [${texts.report.severity}: ${texts.severityLabels[finding.severity]}] [${finding.models?.join(", ")}]`);
+      });
+      lines.push("");
+    }
+    if (failed.length > 0) {
+      lines.push(`### ${texts.consensus.failed}`);
+      lines.push("");
+      failed.forEach(item => lines.push(`- ${item.model}: ${item.message}`));
+      lines.push("");
+    }
+  }
+
+  // 修正案（suggest_fixes 指定時）
+  const fixed = result.findings.filter(finding => finding.patch);
+  const unfixed = result.findings.filter(finding => finding.patch_error);
+  if (fixed.length > 0 || unfixed.length > 0) {
+    lines.push(`## ${texts.fixes.title}`);
+    lines.push("");
+    fixed.forEach(finding => {
+      lines.push(`### \`${formatFindingLocation(finding)}\` ${finding.message}`);
+      lines.push("");
+      lines.push("```diff");
+      lines.push(finding.patch!.replace(/\n$/, ""));
+      lines.push("```");
+      lines.push("");
+    });
+    if (unfixed.length > 0) {
+      lines.push(`### ${texts.fixes.rejected}`);
+      lines.push("");
+      unfixed.forEach(finding => {
+        const location = formatFindingLocation(finding);
+        lines.push(`- ${location ? `\`${location}\` ` : ""}${finding.message}: ${finding.patch_error}`);
+      });
+      lines.push("");
+    }
+  }
+
+  if (result.errors && result.errors.length > 0) {
+    lines.push(`## ${texts.report.errors}`);
+    lines.push("");
+    result.errors.forEach(error => {
+      lines.push(`- \`${error.file}\`: ${error.message}`);
+    });
+    lines.push("");
+  }
+
+  if (result.cache && result.cache.hits.length > 0) {
+    lines.push(`## ${texts.report.cache}`);
+    lines.push("");
+    lines.push(texts.report.cacheHits(result.cache.hits.length));
+    lines.push("");
+    result.cache.hits.forEach(file => {
+      lines.push(`- \`${file}\``);
+    });
+    lines.push("");
+  }
+
+  lines.push(`## ${texts.report.functionListUpdate}`);
+  lines.push("");
+  lines.push(result.function_list_update || texts.report.noFunctionListUpdate);
+
+  return lines.join("\n");
+}
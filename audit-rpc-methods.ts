@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { performAudit, AuditRequest } from "./audit-common.js";
+import {
+  startAuditJob,
+  getAuditJobStatus,
+  takeAuditJobResult,
+  cancelAuditJob,
+  listAuditJobs,
+} from "./audit-jobs.js";
+import { buildGitAuditRequest } from "./audit-git.js";
+import { assertContextRepoPath } from "./audit-context.js";
+import { updateFunctionList, applyFunctionListUpdate } from "./audit-function-list.js";
+import { listReports, getReport, compareReports } from "./audit-reports.js";
+import { reserveAuditUsage, runWithReservation, ApiClient } from "./audit-auth.js";
+import { getUsageStats } from "./audit-usage.js";
+import { purgeCache } from "./audit-cache.js";
+import { listAuditProfiles } from "./audit-profiles.js";
+import { listRulePacks } from "./audit-rule-packs.js";
+import { askFollowup } from "./audit-followup.js";
+import { testNotification } from "./audit-notifications.js";
+import { registerMethod } from "./audit-jsonrpc.js";
+import {
+  AuditParamsSchema,
+  GitAuditParamsSchema,
+  JobIdSchema,
+  FunctionListGenerateParamsSchema,
+  FunctionListApplyParamsSchema,
+  ReportFilterSchema,
+  CompareReportsParamsSchema,
+  FollowupParamsSchema,
+  StatsParamsSchema,
+  CachePurgeParamsSchema,
+  NotificationTestParamsSchema,
+} from "./audit-schemas.js";
+
+/**
+ * audit-rpc-methods.ts
+ *
+ * HTTP JSON-RPCサーバーで公開するメソッドを登録するモジュールです。
+ * パラメータは zod で定義し（MCPツールと共通のものは audit-schemas.ts）、rpc.discover でJSON Schemaとして公開されます。
+ * 新しいメソッドは registerMethod で登録するだけで、ルーティングを変更する必要はありません。
+ */
+
+/**
+ * 監査を同期またはジョブとして実行する（コンテキストのリポジトリ・差分のサイズ・1日の上限を確認してから実行）
+ */
+async function runAudit(params: AuditRequest, runAsync: boolean | undefined, client: ApiClient) {
+  assertContextRepoPath(params, { remote: true });
+  const reservation = reserveAuditUsage(client, params);
+  return runAsync
+    ? startAuditJob(params, { client, reservation })
+    : runWithReservation(reservation, () => performAudit(params));
+}
+
+registerMethod({
+  name: "tool/audit",
+  description: "監査を実行する（async: true の場合はジョブIDをすぐに返す）",
+  params: AuditParamsSchema,
+  handler: ({ async: runAsync, ...params }, { client }) => runAudit(params, runAsync, client),
+});
+
+registerMethod({
+  name: "tool/auditGit",
+  description: "リポジトリのパスと ref 範囲（またはステージング / 作業ツリー）を指定して監査を実行する",
+  params: GitAuditParamsSchema,
+  handler: async ({ async: runAsync, ...params }, { client }) =>
+    runAudit(await buildGitAuditRequest(params, { remote: true }), runAsync, client),
+});
+
+registerMethod({
+  name: "audit/status",
+  description: "ジョブの状態・進捗を取得する",
+  params: JobIdSchema,
+  handler: ({ jobId }, { client }) => getAuditJobStatus(jobId, client),
+});
+
+registerMethod({
+  name: "audit/result",
+  description: "完了したジョブの結果を取得する（取得後ジョブは削除）",
+  params: JobIdSchema,
+  handler: ({ jobId }, { client }) => takeAuditJobResult(jobId, client),
+});
+
+registerMethod({
+  name: "audit/cancel",
+  description: "ジョブをキャンセルする",
+  params: JobIdSchema,
+  handler: ({ jobId }, { client }) => cancelAuditJob(jobId, client),
+});
+
+registerMethod({
+  name: "audit/list",
+  description: "ジョブの一覧を取得する",
+  params: z.object({}),
+  handler: (_params, { client }) => listAuditJobs(client),
+});
+
+registerMethod({
+  name: "functionList/generate",
+  description: "ソースから function_list を生成する（write: true でファイルに書き込む）",
+  params: FunctionListGenerateParamsSchema,
+  handler: params => updateFunctionList(params, { remote: true }),
+});
+
+registerMethod({
+  name: "functionList/apply",
+  description: "レポートの function_list 更新案をファイルに追記する",
+  params: FunctionListApplyParamsSchema,
+  handler: params => applyFunctionListUpdate(params, { remote: true }),
+});
+
+registerMethod({
+  name: "reports/list",
+  description: "保存済みレポートの一覧を取得する（新しい順）",
+  params: ReportFilterSchema,
+  handler: filter => listReports(filter),
+});
+
+registerMethod({
+  name: "reports/get",
+  description: "レポートを取得する",
+  params: z.object({ id: z.string().min(1).describe("レポートID") }),
+  handler: ({ id }) => getReport(id),
+});
+
+registerMethod({
+  name: "reports/compare",
+  description: "2つのレポートの指摘を比較する（解消 / 新規 / 継続）",
+  params: CompareReportsParamsSchema,
+  handler: ({ base_id, head_id }) => compareReports(base_id, head_id),
+});
+
+registerMethod({
+  name: "audit/ask",
+  description: "監査レポートについて追加の質問をする（質問と回答はレポートに追記される）",
+  params: FollowupParamsSchema,
+  handler: (params, { client }) => askFollowup(params, { client }),
+});
+
+registerMethod({
+  name: "stats",
+  description: "LLM呼び出しのトークン数・コストの累計を取得する（サーバー起動以降と保存済みレポート）",
+  params: StatsParamsSchema,
+  handler: filter => getUsageStats(filter),
+});
+
+registerMethod({
+  name: "cache/purge",
+  description: "監査結果のキャッシュを削除する",
+  params: CachePurgeParamsSchema,
+  handler: params => purgeCache(params),
+});
+
+registerMethod({
+  name: "profiles/list",
+  description: "利用できる監査プロファイルの一覧を取得する",
+  params: z.object({}),
+  handler: () => listAuditProfiles(),
+});
+
+registerMethod({
+  name: "rulePacks/list",
+  description: "ファイルの種類ごとのルールパックと、そのルールの一覧を取得する",
+  params: z.object({}),
+  handler: () => listRulePacks(),
+});
+
+registerMethod({
+  name: "notifications/test",
+  description: "保存済みレポートで通知先への送信を試す（min_severity に関係なく送信する）",
+  params: NotificationTestParamsSchema,
+  handler: params => testNotification(params),
+});
@@ -0,0 +1,664 @@
+import * as path from "path";
+import { Finding, RulePackUsage } from "./audit-result.js";
+import { AuditProfile, PROFILE_TEXTS, ProfileLanguage } from "./audit-profiles.js";
+import { parseUnifiedDiff } from "./audit-diff.js";
+import { AuditRule, RuleContext, checkAddedLines, collectDiffLines } from "./audit-rules.js";
+
+/**
+ * audit-rule-packs.ts
+ *
+ * 差分に含まれるファイルの種類に応じて適用する、言語・フレームワーク固有のルールパックです。
+ * ルールパックは、ローカルチェックのルール（audit-rules.ts と同じ AuditRule）と、
+ * LLMのプロンプトに加える確認事項（ガイダンス）を持ちます。
+ *
+ *  - typescript: TypeScript / JavaScript / React（any の増加、@ts-ignore、dangerouslySetInnerHTML）
+ *  - python: Python（eval / exec、shell=True、安全でないデシリアライズ、素の except）
+ *  - sql-migration: SQL・マイグレーション（DROP / TRUNCATE、WHERE のない DELETE / UPDATE、型の変更、NOT NULL の追加）
+ *  - shell: シェルスクリプト（set -e の削除、curl | sh、変数を引用しない rm -rf）
+ *  - dockerfile: Dockerfile（タグのないベースイメージ、ADD の URL、USER root）
+ *  - package-json: package.json（バージョンを固定していない依存関係の追加）
+ *
+ * ルールは対象のファイルの差分にのみ適用します。環境変数 AUDIT_RULE_PACKS で
+ * 使用するルールパックを限定（カンマ区切りのID）または無効化（off）できます。
+ * 新しいルールパックは registerRulePack で登録します。
+ */
+
+/**
+ * ルールパックの定義
+ */
+export interface RulePack {
+  id: string;
+  name: string;
+  description: string;
+  matches(file: string, diffContent: string): boolean;  // 差分のファイルが対象かどうか
+  rules: AuditRule[];
+  guidance: Record<ProfileLanguage, string[]>;         // プロンプトに加える確認事項
+}
+
+/**
+ * 差分に適用するルールパックと、その対象のファイル
+ */
+export interface AppliedRulePack {
+  pack: RulePack;
+  files: string[];
+}
+
+const rulePacks = new Map<string, RulePack>();
+
+/**
+ * ルールパックを登録する
+ */
+export function registerRulePack(pack: RulePack): void {
+  rulePacks.set(pack.id, pack);
+}
+
+/**
+ * 環境変数 AUDIT_RULE_PACKS から使用するルールパックを決める
+ * （未設定の場合はすべて、off の場合はなし）
+ */
+function getEnabledRulePacks(): RulePack[] {
+  const value = process.env.AUDIT_RULE_PACKS?.trim();
+  if (!value) return [...rulePacks.values()];
+  if (value === "off") return [];
+
+  const ids = value.split(",").map(id => id.trim()).filter(Boolean);
+  const unknown = ids.filter(id => !rulePacks.has(id));
+  if (unknown.length > 0) {
+    throw new Error(`AUDIT_RULE_PACKS に不明なルールパックが指定されています: ${unknown.join(", ")}（${[...rulePacks.keys()].join(" / ")} から指定してください）`);
+  }
+  return ids.map(id => rulePacks.get(id)!);
+}
+
+/**
+ * ファイルごとの差分から適用するルールパックを選ぶ（対象のファイルがないものは除く）
+ */
+export function selectRulePacks(fileDiffs: Map<string, string>): AppliedRulePack[] {
+  return getEnabledRulePacks()
+    .map(pack => ({ pack, files: [...fileDiffs].filter(([file, diff]) => pack.matches(file, diff)).map(([file]) => file) }))
+    .filter(applied => applied.files.length > 0);
+}
+
+/**
+ * 適用するルールパックのルールを、対象のファイルの差分のみを調べるルールに変換する
+ */
+export function getRulePackRules(applied: AppliedRulePack[]): AuditRule[] {
+  return applied.flatMap(({ pack, files }) => pack.rules.map(rule => ({
+    ...rule,
+    check: (context: RuleContext) => rule.check({
+      ...context,
+      fileDiffs: new Map([...context.fileDiffs].filter(([file]) => files.includes(file))),
+    }),
+  })));
+}
+
+/**
+ * ルールパックの確認事項をプロンプト用の文字列にする（適用するものがない場合は空文字列）
+ */
+export function renderRulePackGuidance(applied: AppliedRulePack[], profile: AuditProfile): string {
+  if (applied.length === 0) return "";
+  const texts = PROFILE_TEXTS[profile.language].rulePacks;
+  const blocks = applied.map(({ pack, files }) =>
+    `${pack.name} (${files.join(", ")}):\n${pack.guidance[profile.language].map(line => `- ${line}`).join("\n")}`);
+  return `${texts.promptHeading}\n${blocks.join("\n")}`;
+}
+
+/**
+ * 監査結果に記録する、適用したルールパックの一覧
+ */
+export function summarizeRulePacks(applied: AppliedRulePack[]): RulePackUsage[] {
+  return applied.map(({ pack, files }) => ({ id: pack.id, name: pack.name, files }));
+}
+
+/**
+ * 登録されているルールパックの一覧
+ */
+export function listRulePacks(): { id: string; name: string; description: string; enabled: boolean; rules: { id: string; description: string }[] }[] {
+  const enabled = new Set(getEnabledRulePacks().map(pack => pack.id));
+  return [...rulePacks.values()].map(pack => ({
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    enabled: enabled.has(pack.id),
+    rules: pack.rules.map(rule => ({ id: rule.id, description: rule.description })),
+  }));
+}
+
+// curl / wget でダウンロードしたスクリプトをそのまま実行するパターン
+const PIPE_TO_SHELL_PATTERN = /\b(?:curl|wget)\b[^|#]*\|\s*(?:sudo\s+)?(?:ba|z|k|da)?sh\b/;
+
+// ---- TypeScript / JavaScript / React ----
+
+// any 型の注釈（": any" / "as any" / "<any>" / "any[]" など）
+const ANY_TYPE_PATTERN = /(?::\s*|\bas\s+|<\s*|,\s*|\|\s*)any\b(?![\w$])/;
+
+const isTypeScriptFile = (file: string) => /\.[cm]?tsx?$/.test(file);
+const isCommentLine = (content: string) => /^\s*(?:\/\/|\/?\*)/.test(content);
+
+registerRulePack({
+  id: "typescript",
+  name: "TypeScript / JavaScript / React",
+  description: "型安全性を弱める変更（any の増加・@ts-ignore）と、React の危険なAPIの使用を確認する",
+  matches: file => /\.[cm]?[jt]sx?$/.test(file),
+  rules: [
+    {
+      id: "ts-any",
+      description: "TypeScript のファイルで any 型が増えていないか（削除した any より多く追加した場合）",
+      check: context => {
+        const findings: Finding[] = [];
+        context.fileDiffs.forEach((diffContent, file) => {
+          if (!isTypeScriptFile(file)) return;
+          const lines = collectDiffLines(diffContent).filter(line => !isCommentLine(line.content) && ANY_TYPE_PATTERN.test(line.content));
+          const added = lines.filter(line => line.type === "add");
+          if (added.length <= lines.length - added.length) return;
+          added.forEach(line => findings.push({
+            severity: "low",
+            category: "technical_issues",
+            file,
+            line_start: line.line,
+            line_end: line.line,
+            message: `any 型が追加されています: ${line.content.trim()}`,
+            rule: "ts-any",
+          }));
+        });
+        return findings;
+      },
+    },
+    {
+      id: "ts-ignore",
+      description: "@ts-ignore / @ts-nocheck で型チェックを無効にしていないか",
+      check: context =>
+        checkAddedLines(context, "ts-ignore", /@ts-(?:ignore|nocheck)\b/, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `型チェックを無効にするコメントが追加されています: ${content}`,
+        })),
+    },
+    {
+      id: "react-dangerous-html",
+      description: "dangerouslySetInnerHTML を使用していないか",
+      check: context =>
+        checkAddedLines(context, "react-dangerous-html", /\bdangerouslySetInnerHTML\b/, () => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: "dangerouslySetInnerHTML が使用されています。HTMLがサニタイズされているか確認してください。",
+        })),
+    },
+  ],
+  guidance: {
+    ja: [
+      "any・型アサーション（as）・非nullアサーション（!）・@ts-ignore で型チェックを回避していないか",
+      "Promise の await 漏れや、エラーを握りつぶす catch がないか",
+      "React の場合、useEffect などの依存配列の漏れ・key の欠如・dangerouslySetInnerHTML によるXSSがないか",
+    ],
+    en: [
+      "Type checking is not bypassed with any, type assertions (as), non-null assertions (!) or @ts-ignore",
+      "No missing await on promises and no catch blocks that swallow errors",
+      "For React: no missing hook dependencies, missing keys, or XSS through dangerouslySetInnerHTML",
+    ],
+  },
+});
+
+// ---- Python ----
+
+registerRulePack({
+  id: "python",
+  name: "Python",
+  description: "eval / exec・shell=True・安全でないデシリアライズ・素の except を確認する",
+  matches: file => /\.pyw?$/.test(file),
+  rules: [
+    {
+      id: "py-eval",
+      description: "eval / exec を使用していないか",
+      check: context =>
+        checkAddedLines(context, "py-eval", /(?<![\w.])(?:eval|exec)\s*\(/, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `eval / exec が追加されています: ${content}`,
+        })),
+    },
+    {
+      id: "py-shell-true",
+      description: "subprocess を shell=True で実行していないか",
+      check: context =>
+        checkAddedLines(context, "py-shell-true", /\bshell\s*=\s*True\b/, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `shell=True でコマンドを実行しています。コマンドインジェクションに注意してください: ${content}`,
+        })),
+    },
+    {
+      id: "py-unsafe-deserialize",
+      description: "pickle / marshal / yaml.load（SafeLoader なし）で外部のデータを読み込んでいないか",
+      check: context =>
+        checkAddedLines(context, "py-unsafe-deserialize", /\b(?:pickle|marshal)\.loads?\s*\(|\byaml\.load\s*\((?!.*SafeLoader)/, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `任意のコードを実行できるデシリアライズが追加されています: ${content}`,
+        })),
+    },
+    {
+      id: "py-bare-except",
+      description: "例外の種類を指定しない except がないか",
+      check: context =>
+        checkAddedLines(context, "py-bare-except", /^\s*except\s*:/, () => ({
+          severity: "low",
+          category: "technical_issues",
+          message: "例外の種類を指定しない except が追加されています（KeyboardInterrupt なども捕捉されます）。",
+        })),
+    },
+  ],
+  guidance: {
+    ja: [
+      "例外を握りつぶしていないか、リソース（ファイル・接続）を with で確実に閉じているか",
+      "ミュータブルなデフォルト引数・SQLやコマンドの文字列連結がないか",
+      "型ヒントと実際の値が一致しているか",
+    ],
+    en: [
+      "Exceptions are not swallowed and resources (files, connections) are closed with context managers",
+      "No mutable default arguments and no SQL or shell commands built by string concatenation",
+      "Type hints match the actual values",
+    ],
+  },
+});
+
+// ---- SQL・マイグレーション ----
+
+const isSqlFile = (file: string) => /\.sql$/i.test(file);
+
+/**
+ * SQLの行コメント（"--" 以降）を取り除く（文字列リテラル・引用符で囲んだ識別子の中の "--" はそのまま）
+ */
+function stripSqlComment(line: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      // 引用符の中（'' のエスケープは閉じてすぐ開くのと同じ扱いになる）
+      if (char === quote) quote = undefined;
+    } else if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (char === "-" && line[i + 1] === "-") {
+      return line.substring(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * 追加行を文に分けて取り出す（SQLファイルは ";" まで、それ以外は1行ずつ。行番号は文の最初の行）
+ */
+function collectAddedStatements(diffContent: string, sql: boolean): { text: string; line: number | null }[] {
+  const statements: { text: string; line: number | null }[] = [];
+  let current: { text: string; line: number | null } | undefined;
+  collectDiffLines(diffContent)
+    .filter(line => line.type === "add")
+    .forEach(line => {
+      const content = sql ? stripSqlComment(line.content) : line.content;
+      if (!content.trim()) return;
+      current = current ? { ...current, text: `${current.text} ${content.trim()}` } : { text: content.trim(), line: line.line };
+      if (!sql || content.includes(";")) {
+        statements.push(current);
+        current = undefined;
+      }
+    });
+  if (current) statements.push(current);
+  return statements;
+}
+
+/**
+ * 追加された文のうちパターンに一致するものを指摘に変換する
+ */
+function checkAddedStatements(
+  context: RuleContext,
+  rule: string,
+  predicate: (statement: string) => boolean,
+  toFinding: (statement: string) => Omit<Finding, "file" | "line_start" | "line_end" | "rule">
+): Finding[] {
+  const findings: Finding[] = [];
+  context.fileDiffs.forEach((diffContent, file) => {
+    collectAddedStatements(diffContent, isSqlFile(file))
+      .filter(statement => predicate(statement.text))
+      .forEach(statement => findings.push({
+        ...toFinding(statement.text.length > 120 ? `${statement.text.substring(0, 120)}...` : statement.text),
+        file,
+        line_start: statement.line,
+        line_end: statement.line,
+        rule,
+      }));
+  });
+  return findings;
+}
+
+registerRulePack({
+  id: "sql-migration",
+  name: "SQL / Migrations",
+  description: "データを失う・ロックを取る・既存のアプリケーションを壊すスキーマ変更を確認する",
+  matches: file => isSqlFile(file) || /(?:^|\/)(?:migrations?|migrate|alembic\/versions)\//i.test(file),
+  rules: [
+    {
+      id: "sql-destructive",
+      description: "DROP TABLE / DROP COLUMN / TRUNCATE などデータを失う操作がないか",
+      check: context =>
+        checkAddedStatements(context, "sql-destructive",
+          statement => /\b(?:DROP\s+(?:TABLE|COLUMN|DATABASE|SCHEMA)|TRUNCATE)\b/i.test(statement)
+            || /\b(?:drop_table|drop_column|remove_column|dropTable|dropColumn|removeColumn)\b/.test(statement),
+          statement => ({
+            severity: "high",
+            category: "technical_issues",
+            message: `データが失われる操作が追加されています。バックアップと移行手順を確認してください: ${statement}`,
+          })),
+    },
+    {
+      id: "sql-unbounded-write",
+      description: "WHERE のない DELETE / UPDATE がないか",
+      check: context =>
+        checkAddedStatements(context, "sql-unbounded-write",
+          statement => /^\s*(?:DELETE\s+FROM|UPDATE)\b/i.test(statement) && !/\bWHERE\b/i.test(statement),
+          statement => ({
+            severity: "high",
+            category: "technical_issues",
+            message: `WHERE のない DELETE / UPDATE が追加されています（すべての行が対象になります）: ${statement}`,
+          })),
+    },
+    {
+      id: "sql-alter-column",
+      description: "列の型の変更や、テーブル・列の名前の変更がないか",
+      check: context =>
+        checkAddedStatements(context, "sql-alter-column",
+          statement => /\bALTER\s+TABLE\b/i.test(statement)
+            && /\b(?:ALTER\s+COLUMN\b.*\bTYPE|MODIFY(?:\s+COLUMN)?|RENAME)\b/i.test(statement),
+          statement => ({
+            severity: "medium",
+            category: "technical_issues",
+            message: `列の型・名前を変更しています。テーブルのロックや、変更前のスキーマを使うアプリケーションへの影響を確認してください: ${statement}`,
+          })),
+    },
+    {
+      id: "sql-not-null",
+      description: "既存のテーブルに DEFAULT のない NOT NULL の列を追加していないか",
+      check: context =>
+        checkAddedStatements(context, "sql-not-null",
+          statement => /\bALTER\s+TABLE\b.*\bADD\b.*\bNOT\s+NULL\b/i.test(statement) && !/\bDEFAULT\b/i.test(statement),
+          statement => ({
+            severity: "medium",
+            category: "technical_issues",
+            message: `DEFAULT のない NOT NULL の列を追加しています。既存の行があると失敗します: ${statement}`,
+          })),
+    },
+  ],
+  guidance: {
+    ja: [
+      "データを失う操作（DROP・TRUNCATE・WHERE のない DELETE / UPDATE）や、元に戻せない変更がないか",
+      "大きなテーブルを長時間ロックする変更（型の変更・インデックスの作成など）がないか",
+      "ロールバック（down）のマイグレーションがあり、アプリケーションのデプロイ順序と両立するか",
+    ],
+    en: [
+      "No data-losing operations (DROP, TRUNCATE, DELETE / UPDATE without WHERE) or irreversible changes",
+      "No changes that lock large tables for a long time (type changes, index creation, etc.)",
+      "A rollback (down) migration exists and the change is compatible with the application's deploy order",
+    ],
+  },
+});
+
+// ---- シェルスクリプト ----
+
+// エラーで終了する設定（set -e / set -euo pipefail / set -o errexit）
+const SET_ERREXIT_PATTERN = /^\s*set\s+(?:-[a-zA-Z]*e[a-zA-Z]*\b|-o\s+errexit\b)/;
+
+registerRulePack({
+  id: "shell",
+  name: "Shell",
+  description: "set -e の削除・ダウンロードしたスクリプトの実行・危険な rm を確認する",
+  matches: (file, diffContent) =>
+    /\.(?:sh|bash|zsh|ksh)$/.test(file) || /^[+ ]#!.*\b(?:ba|z|k|da)?sh\b/m.test(diffContent),
+  rules: [
+    {
+      id: "shell-set-e",
+      description: "set -e（エラーで終了する設定）を削除・無効化していないか",
+      check: context => {
+        const findings: Finding[] = [];
+        context.fileDiffs.forEach((diffContent, file) => {
+          const lines = collectDiffLines(diffContent);
+          if (lines.some(line => line.type === "add" && SET_ERREXIT_PATTERN.test(line.content))) return;
+          lines
+            .filter(line => line.type === "remove" && SET_ERREXIT_PATTERN.test(line.content))
+            .forEach(line => findings.push({
+              severity: "medium",
+              category: "technical_issues",
+              file,
+              line_start: line.line,
+              line_end: line.line,
+              message: `set -e が削除されています。コマンドが失敗しても処理が続きます: ${line.content.trim()}`,
+              rule: "shell-set-e",
+            }));
+        });
+        return [
+          ...findings,
+          ...checkAddedLines(context, "shell-set-e", /^\s*set\s+\+[a-zA-Z]*e/, content => ({
+            severity: "low",
+            category: "technical_issues",
+            message: `set +e でエラー時の終了を無効にしています: ${content}`,
+          })),
+        ];
+      },
+    },
+    {
+      id: "shell-pipe-to-shell",
+      description: "ダウンロードしたスクリプトをそのままシェルで実行していないか",
+      check: context =>
+        checkAddedLines(context, "shell-pipe-to-shell", PIPE_TO_SHELL_PATTERN, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `ダウンロードしたスクリプトを検証せずに実行しています: ${content}`,
+        })),
+    },
+    {
+      id: "shell-rm-unquoted",
+      description: "引用符で囲んでいない変数を rm -r に渡していないか",
+      check: context =>
+        checkAddedLines(context, "shell-rm-unquoted", /\brm\s+-[a-zA-Z]*[rR][a-zA-Z]*\s+(?:--\s+)?\$\{?[A-Za-z_]/, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `引用符で囲んでいない変数を rm -r に渡しています。変数が空の場合に意図しないパスを削除します: ${content}`,
+        })),
+    },
+  ],
+  guidance: {
+    ja: [
+      "set -euo pipefail などのエラー処理が維持されているか",
+      "変数が引用符で囲まれているか（空白や空の値で壊れないか）",
+      "一時ファイル・外部からダウンロードしたスクリプトの扱いが安全か",
+    ],
+    en: [
+      "Error handling such as set -euo pipefail is kept",
+      "Variables are quoted (the script does not break on spaces or empty values)",
+      "Temporary files and downloaded scripts are handled safely",
+    ],
+  },
+});
+
+// ---- Dockerfile ----
+
+registerRulePack({
+  id: "dockerfile",
+  name: "Dockerfile",
+  description: "ベースイメージのタグ・ADD の URL・root での実行を確認する",
+  matches: file => /^(?:Dockerfile|Containerfile)(?:\..+)?$/.test(path.posix.basename(file)) || /\.dockerfile$/i.test(file),
+  rules: [
+    {
+      id: "docker-unpinned-base",
+      description: "ベースイメージのタグ（またはダイジェスト）を指定しているか",
+      check: context => {
+        const findings: Finding[] = [];
+        context.fileDiffs.forEach((diffContent, file) => {
+          // マルチステージビルドのステージ名はイメージではない
+          const stages = new Set([...diffContent.matchAll(/^[+ -]\s*FROM\s+.*\s+AS\s+(\S+)/gim)].map(match => match[1].toLowerCase()));
+          collectDiffLines(diffContent)
+            .filter(line => line.type === "add")
+            .forEach(line => {
+              const image = line.content.match(/^\s*FROM\s+(?:--\S+\s+)*(\S+)/i)?.[1];
+              if (!image || image === "scratch" || image.includes("$") || image.includes("@") || stages.has(image.toLowerCase())) return;
+              const name = image.substring(image.lastIndexOf("/") + 1);
+              if (name.includes(":") && !name.endsWith(":latest")) return;
+              findings.push({
+                severity: "medium",
+                category: "technical_issues",
+                file,
+                line_start: line.line,
+                line_end: line.line,
+                message: `ベースイメージのタグが固定されていません（ビルドごとに異なるイメージになります）: ${line.content.trim()}`,
+                rule: "docker-unpinned-base",
+              });
+            });
+        });
+        return findings;
+      },
+    },
+    {
+      id: "docker-add-url",
+      description: "ADD で URL からファイルを取得していないか",
+      check: context =>
+        checkAddedLines(context, "docker-add-url", /^\s*ADD\s+(?:--\S+\s+)*https?:\/\//i, content => ({
+          severity: "low",
+          category: "technical_issues",
+          message: `ADD で URL からファイルを取得しています。チェックサムを検証してください: ${content}`,
+        })),
+    },
+    {
+      id: "docker-pipe-to-shell",
+      description: "ダウンロードしたスクリプトをそのままシェルで実行していないか",
+      check: context =>
+        checkAddedLines(context, "docker-pipe-to-shell", PIPE_TO_SHELL_PATTERN, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `ダウンロードしたスクリプトを検証せずに実行しています: ${content}`,
+        })),
+    },
+    {
+      id: "docker-user-root",
+      description: "USER root でコンテナを実行していないか",
+      check: context =>
+        checkAddedLines(context, "docker-user-root", /^\s*USER\s+(?:root|0)(?::\S+)?\s*$/i, content => ({
+          severity: "medium",
+          category: "technical_issues",
+          message: `root ユーザーで実行するよう設定しています: ${content}`,
+        })),
+    },
+  ],
+  guidance: {
+    ja: [
+      "ベースイメージ・インストールするパッケージのバージョンが固定されているか",
+      "root 以外のユーザーで実行しているか、機密情報がイメージのレイヤーに残らないか",
+      "レイヤーのキャッシュが効く順序になっているか、不要なファイルをイメージに含めていないか",
+    ],
+    en: [
+      "Base images and installed packages are pinned to specific versions",
+      "The container runs as a non-root user and no secrets are left in image layers",
+      "Instructions are ordered for layer caching and no unnecessary files are copied into the image",
+    ],
+  },
+});
+
+// ---- package.json ----
+
+const DEPENDENCY_SECTIONS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"];
+// "名前": "値" の行
+const JSON_ENTRY_PATTERN = /^\s*"([^"]+)"\s*:\s*"([^"]*)"\s*,?\s*$/;
+// "名前": { の行
+const JSON_OBJECT_PATTERN = /^\s*"([^"]+)"\s*:\s*\{/;
+// 依存関係のバージョン指定らしい値（どのセクションか差分から判断できない場合に使う）
+const VERSION_SPEC_PATTERN = /^(?:[\^~<>=*]|\d|(?:latest|next|x)$|(?:git\+|git:|github:|https?:|file:|npm:|workspace:))/;
+// engines などで依存関係と同じ形式になる名前
+const NON_PACKAGE_KEYS = new Set(["node", "npm", "yarn", "pnpm", "version"]);
+
+/**
+ * バージョンを固定していない指定かどうか（"*" / "latest" / 上限のない範囲 / コミットを指定しない Git・URL など）
+ * ^ や ~ の範囲はロックファイルで固定されるため対象外とする
+ */
+function isUnpinnedVersion(spec: string): boolean {
+  const value = spec.trim();
+  if (["", "*", "x", "X"].includes(value)) return true;
+  if (/^(?:file:|link:|workspace:|npm:|portal:)/.test(value)) return false;
+  if (/^(?:git\+|git:|github:|gitlab:|bitbucket:|https?:)/.test(value) || /^[\w.-]+\/[\w.-]+(?:#.*)?$/.test(value)) {
+    return !/#[0-9a-f]{7,40}$/.test(value);
+  }
+  if (/^>=?\s*\d/.test(value) && !value.includes("<")) return true;
+  // "latest" / "next" / "beta" などの dist-tag
+  return /^[A-Za-z][\w-]*$/.test(value);
+}
+
+/**
+ * package.json の差分から追加した依存関係を取り出す
+ * セクション（dependencies など）は差分に含まれる行から判断し、判断できない場合はバージョン指定らしい値のみ対象とする
+ */
+function collectAddedDependencies(diffContent: string): { name: string; spec: string; line: number }[] {
+  const result: { name: string; spec: string; line: number }[] = [];
+  parseUnifiedDiff(diffContent).forEach(file => {
+    file.hunks.forEach(hunk => {
+      let section: string | null | undefined;  // undefined: 判断できない、null: 依存関係以外
+      let newLine = hunk.newStart;
+      hunk.lines.forEach(line => {
+        if (line.startsWith("-") || line.startsWith("\\")) return;
+        const content = line.substring(1);
+        const object = content.match(JSON_OBJECT_PATTERN);
+        if (object) {
+          section = object[1];
+        } else if (/^\s*\}/.test(content)) {
+          section = null;
+        } else if (line.startsWith("+")) {
+          const entry = content.match(JSON_ENTRY_PATTERN);
+          const isDependency = section === undefined
+            ? entry && !NON_PACKAGE_KEYS.has(entry[1]) && VERSION_SPEC_PATTERN.test(entry[2])
+            : section !== null && DEPENDENCY_SECTIONS.includes(section);
+          if (entry && isDependency) {
+            result.push({ name: entry[1], spec: entry[2], line: newLine });
+          }
+        }
+        newLine++;
+      });
+    });
+  });
+  return result;
+}
+
+registerRulePack({
+  id: "package-json",
+  name: "package.json",
+  description: "バージョンを固定していない依存関係の追加を確認する",
+  matches: file => path.posix.basename(file) === "package.json",
+  rules: [
+    {
+      id: "deps-unpinned",
+      description: "追加・変更した依存関係のバージョンが \"*\" / \"latest\" / 上限のない範囲 / コミットを指定しない Git などになっていないか",
+      check: context => {
+        const findings: Finding[] = [];
+        context.fileDiffs.forEach((diffContent, file) => {
+          collectAddedDependencies(diffContent)
+            .filter(dependency => isUnpinnedVersion(dependency.spec))
+            .forEach(dependency => findings.push({
+              severity: "medium",
+              category: "technical_issues",
+              file,
+              line_start: dependency.line,
+              line_end: dependency.line,
+              message: `依存関係 "${dependency.name}" のバージョンが固定されていません（"${dependency.spec}"）。インストールするたびに異なるバージョンになる可能性があります。`,
+              rule: "deps-unpinned",
+            }));
+        });
+        return findings;
+      },
+    },
+  ],
+  guidance: {
+    ja: [
+      "追加した依存関係が必要なものか、既存の依存関係や標準ライブラリで代替できないか",
+      "バージョンの指定が適切か（メジャーバージョンの更新による破壊的変更、ロックファイルの更新漏れ）",
+      "dependencies と devDependencies の区別が正しいか",
+    ],
+    en: [
+      "Added dependencies are necessary and cannot be replaced by existing dependencies or the standard library",
+      "Version ranges are appropriate (breaking changes from major upgrades, lockfile not updated)",
+      "Packages are correctly split between dependencies and devDependencies",
+    ],
+  },
+});
@@ -0,0 +1,360 @@
+import {
+  AuditResult,
+  DetectedMove,
+  Finding,
+  SectionKey,
+  SectionResult,
+  Verdict,
+  stricterVerdict,
+} from "./audit-result.js";
+import { AuditProfile, OVERALL_SECTION_KEY, PROFILE_TEXTS } from "./audit-profiles.js";
+import { parseUnifiedDiff } from "./audit-diff.js";
+
+/**
+ * audit-rules.ts
+ *
+ * LLMを使わずに機械的に確認できる監査観点をチェックするルールエンジンです。
+ * ファイルごとに分割した差分を1行ずつ調べ、決定的な指摘（Finding）を生成します。
+ *
+ *  - 追加行に残っている TODO / FIXME / console.log / debugger
+ *  - function_list.txt に記載されている関数・クラス・exportの削除
+ *  - シークレットらしき文字列の追加
+ *  - 差分に含まれるファイルと changed_files の不一致
+ *
+ * 言語・フレームワーク固有のルールは、ファイルの種類ごとのルールパック（audit-rule-packs.ts）で定義します。
+ */
+
+/**
+ * ルールに渡す入力
+ */
+export interface RuleContext {
+  fileDiffs: Map<string, string>;  // ファイルパスとその差分内容
+  functionList: string;            // function_list.txt の内容
+  changedFiles?: string[];         // 変更ファイル一覧
+  moves?: DetectedMove[];          // 差分から検出した移動・名前の変更（enrich_context 指定時）
+}
+
+/**
+ * 差分の1行（変更後/変更前の行番号付き）
+ */
+export interface DiffLine {
+  type: "add" | "remove";
+  content: string;
+  line: number | null;  // 追加行は変更後の行番号、削除行は変更前の行番号
+}
+
+/**
+ * ルールの定義
+ */
+export interface AuditRule {
+  id: string;
+  description: string;
+  check(context: RuleContext): Finding[];
+}
+
+/**
+ * シークレットらしき文字列のパターン
+ * キャプチャグループがある場合は、グループの部分がシークレットの値（マスクする範囲、audit-redaction.ts）
+ */
+export const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: "AWSアクセスキー", pattern: /AKIA[0-9A-Z]{16}/ },
+  { name: "OpenAI/Anthropic APIキー", pattern: /sk-(?:ant-)?[A-Za-z0-9_-]{20,}/ },
+  { name: "GitHubトークン", pattern: /gh[pousr]_[A-Za-z0-9]{36,}/ },
+  { name: "Slackトークン", pattern: /xox[baprs]-[A-Za-z0-9-]{10,}/ },
+  { name: "Google APIキー", pattern: /AIza[0-9A-Za-z_-]{35}/ },
+  { name: "Stripeキー", pattern: /(?:sk|rk)_live_[0-9A-Za-z]{16,}/ },
+  { name: "JWT", pattern: /eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: "秘密鍵", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/ },
+  {
+    name: "認証情報の直書き",
+    pattern: /(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/i,
+  },
+  {
+    // .env などの "NAME=値" 形式（= の前後に空白のないもの）
+    name: "環境変数の認証情報",
+    pattern: /\b[A-Z][A-Z0-9_]*(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD)[A-Z0-9_]*=["']?([^"'\s#]{8,})/,
+  },
+];
+
+/**
+ * ファイルの差分から追加行・削除行を行番号付きで取り出す
+ */
+export function collectDiffLines(diffContent: string): DiffLine[] {
+  const result: DiffLine[] = [];
+
+  parseUnifiedDiff(diffContent).forEach(file => {
+    file.hunks.forEach(hunk => {
+      let oldLine = hunk.oldStart;
+      let newLine = hunk.newStart;
+      hunk.lines.forEach(line => {
+        if (line.startsWith("+")) {
+          result.push({ type: "add", content: line.substring(1), line: newLine });
+          newLine++;
+        } else if (line.startsWith("-")) {
+          result.push({ type: "remove", content: line.substring(1), line: oldLine });
+          oldLine++;
+        } else if (!line.startsWith("\\")) {
+          oldLine++;
+          newLine++;
+        }
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * 追加行のうちパターンに一致するものを指摘に変換する
+ */
+export function checkAddedLines(
+  context: RuleContext,
+  rule: string,
+  pattern: RegExp,
+  toFinding: (content: string) => Omit<Finding, "file" | "line_start" | "line_end" | "rule">
+): Finding[] {
+  const findings: Finding[] = [];
+  context.fileDiffs.forEach((diffContent, file) => {
+    collectDiffLines(diffContent)
+      .filter(line => line.type === "add" && pattern.test(line.content))
+      .forEach(line => {
+        findings.push({
+          ...toFinding(line.content.trim()),
+          file,
+          line_start: line.line,
+          line_end: line.line,
+          rule,
+        });
+      });
+  });
+  return findings;
+}
+
+// 関数・クラス・export 宣言を検出するパターン
+const DECLARATION_PATTERNS: RegExp[] = [
+  /\bexport\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/,
+  /\b(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)/,
+  /\bclass\s+([A-Za-z_$][\w$]*)/,
+  /^\s*def\s+([A-Za-z_]\w*)/,
+];
+
+/**
+ * 行に含まれる宣言名を取り出す
+ */
+export function extractDeclarationName(content: string): string | null {
+  for (const pattern of DECLARATION_PATTERNS) {
+    const match = content.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 組み込みルール
+ */
+export const BUILTIN_RULES: AuditRule[] = [
+  {
+    id: "todo-fixme",
+    description: "追加行に TODO / FIXME が残っていないか",
+    check: context =>
+      checkAddedLines(context, "todo-fixme", /\b(?:TODO|FIXME)\b/, content => ({
+        severity: "medium",
+        category: "todo_fixme",
+        message: `TODO/FIXME が追加されています: ${content}`,
+      })),
+  },
+  {
+    id: "console-log",
+    description: "追加行に console.log が残っていないか",
+    check: context =>
+      checkAddedLines(context, "console-log", /\bconsole\.log\s*\(/, content => ({
+        severity: "low",
+        category: "technical_issues",
+        message: `console.log が追加されています: ${content}`,
+      })),
+  },
+  {
+    id: "debugger",
+    description: "追加行に debugger 文が残っていないか",
+    check: context =>
+      checkAddedLines(context, "debugger", /^\s*debugger\s*;?\s*$/, () => ({
+        severity: "medium",
+        category: "technical_issues",
+        message: "debugger 文が追加されています。",
+      })),
+  },
+  {
+    id: "secret",
+    description: "シークレットらしき文字列が追加されていないか",
+    check: context => {
+      const findings: Finding[] = [];
+      SECRET_PATTERNS.forEach(({ name, pattern }) => {
+        findings.push(
+          ...checkAddedLines(context, "secret", pattern, () => ({
+            severity: "high",
+            category: "technical_issues",
+            message: `シークレットらしき文字列（${name}）が追加されています。`,
+          }))
+        );
+      });
+      // 1行が複数のパターンに一致した場合は最初の指摘のみ残す
+      const seen = new Set<string>();
+      return findings.filter(finding => {
+        const key = `${finding.file}:${finding.line_start}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    },
+  },
+  {
+    id: "removed-function",
+    description: "function_list.txt に記載されている宣言が削除されていないか",
+    check: context => {
+      if (!context.functionList.trim()) return [];
+
+      // 差分全体で追加された宣言（移動・書き換えの場合は削除とみなさない）
+      const addedNames = new Set<string>();
+      const removed: { file: string; name: string; line: number | null }[] = [];
+      context.fileDiffs.forEach((diffContent, file) => {
+        collectDiffLines(diffContent).forEach(line => {
+          const name = extractDeclarationName(line.content);
+          if (!name) return;
+          if (line.type === "add") {
+            addedNames.add(name);
+          } else {
+            removed.push({ file, name, line: line.line });
+          }
+        });
+      });
+
+      // 名前を変更した宣言も削除とみなさない
+      const renamed = new Set((context.moves || []).filter(move => move.kind === "renamed").map(move => move.symbol));
+      return removed
+        .filter(item => !addedNames.has(item.name) && !renamed.has(item.name))
+        .filter(item => new RegExp(`(^|[^\\w$])${escapeRegExp(item.name)}([^\\w$]|$)`).test(context.functionList))
+        .map(item => ({
+          severity: "high" as const,
+          category: "deleted_features" as const,
+          file: item.file,
+          line_start: item.line,
+          line_end: item.line,
+          message: `function_list.txt に記載されている "${item.name}" の宣言が削除されています。`,
+          rule: "removed-function",
+        }));
+    },
+  },
+  {
+    id: "changed-files-mismatch",
+    description: "差分に含まれるファイルと changed_files が一致しているか",
+    check: context => {
+      if (!context.changedFiles || context.changedFiles.length === 0) return [];
+
+      const changedFiles = new Set(context.changedFiles);
+      const findings: Finding[] = [];
+      context.fileDiffs.forEach((_, file) => {
+        if (!changedFiles.has(file)) {
+          findings.push({
+            severity: "medium",
+            category: "unrequested_changes",
+            file,
+            message: `差分に含まれていますが、変更ファイル一覧（changed_files）に含まれていません。`,
+            rule: "changed-files-mismatch",
+          });
+        }
+      });
+      changedFiles.forEach(file => {
+        if (!context.fileDiffs.has(file)) {
+          findings.push({
+            severity: "low",
+            category: "unrequested_changes",
+            file,
+            message: `変更ファイル一覧（changed_files）に含まれていますが、差分に含まれていません。`,
+            rule: "changed-files-mismatch",
+          });
+        }
+      });
+      return findings;
+    },
+  },
+];
+
+/**
+ * ルールを実行して指摘を集める
+ */
+export function runLocalRules(context: RuleContext, rules: AuditRule[] = BUILTIN_RULES): Finding[] {
+  return rules.flatMap(rule => rule.check(context));
+}
+
+/**
+ * 指摘から判定を決める（高: ng / 中・低: warning / なし: ok）
+ */
+function verdictFromFindings(findings: Finding[]): Verdict {
+  if (findings.some(finding => finding.severity === "high")) return "ng";
+  if (findings.length > 0) return "warning";
+  return "ok";
+}
+
+/**
+ * LLMの監査結果にルールの指摘を統合する
+ * ルールの指摘があるセクションは、指摘の重要度に応じて判定を引き上げる
+ */
+export function mergeRuleFindings(result: AuditResult, findings: Finding[]): AuditResult {
+  if (findings.length === 0) return result;
+
+  const sections = { ...result.sections };
+  Object.keys(sections).forEach(key => {
+    const sectionFindings = findings.filter(finding => finding.category === key);
+    if (sectionFindings.length === 0) return;
+    sections[key] = {
+      ...sections[key],
+      verdict: stricterVerdict(sections[key].verdict, verdictFromFindings(sectionFindings)),
+    };
+  });
+
+  return {
+    ...result,
+    sections,
+    findings: [...findings, ...result.findings],
+  };
+}
+
+// ルールで確認できるセクション
+const RULE_SECTIONS: SectionKey[] = ["unrequested_changes", "deleted_features", "todo_fixme", "technical_issues"];
+
+/**
+ * ルールの指摘のみから監査結果を作成する（LLMを使わないオフラインモード用）
+ * セクションはプロファイルに従い、ルールで確認できないセクションは skipped とする
+ */
+export function buildRuleOnlyResult(findings: Finding[], profile: AuditProfile): AuditResult {
+  const texts = PROFILE_TEXTS[profile.language].ruleOnly;
+  const section = (key: string, title: string): SectionResult => {
+    if (key === OVERALL_SECTION_KEY) {
+      return {
+        verdict: verdictFromFindings(findings),
+        summary: findings.length > 0 ? texts.overallWithFindings(findings.length) : texts.overallClean,
+      };
+    }
+    if (!(RULE_SECTIONS as string[]).includes(key)) {
+      return { verdict: "skipped", summary: texts.skipped };
+    }
+    const sectionFindings = findings.filter(finding => finding.category === key);
+    return {
+      verdict: verdictFromFindings(sectionFindings),
+      summary: sectionFindings.length > 0 ? texts.sectionWithFindings(sectionFindings.length) : texts.sectionClean(title),
+    };
+  };
+
+  return {
+    sections: Object.fromEntries(profile.sections.map(item => [item.key, section(item.key, item.title)])),
+    findings,
+    function_list_update: "",
+  };
+}
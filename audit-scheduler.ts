@@ -0,0 +1,191 @@
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-scheduler.ts
+ *
+ * 複数のLLMリクエストを並列に実行するためのユーティリティです。
+ *
+ *  - 同時実行数を制限したタスク実行（runWithConcurrency）
+ *  - 一時的なエラー（429 / 5xx / タイムアウト）に対する指数バックオフ付きリトライ（withRetry）
+ *    Retry-After ヘッダが返された場合はその待ち時間を優先する
+ *  - AbortSignal による実行中の処理のキャンセル
+ */
+
+/**
+ * リトライ設定
+ */
+export interface RetryOptions {
+  retries: number;      // 最大リトライ回数（初回の試行は含まない）
+  baseDelayMs: number;  // 1回目のリトライまでの待ち時間
+  maxDelayMs: number;   // 待ち時間の上限
+  label?: string;       // ログ出力用のラベル
+  signal?: AbortSignal; // キャンセル用のシグナル
+}
+
+/**
+ * リトライ可否と待ち時間の情報を持つエラー
+ * プロバイダのHTTPエラーやタイムアウトはこのエラーとして投げる
+ */
+export class RetryableError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+/**
+ * 処理がキャンセルされたことを表すエラー
+ */
+export class AuditCancelledError extends Error {
+  constructor(message = "監査がキャンセルされました。") {
+    super(message);
+    this.name = "AuditCancelledError";
+  }
+}
+
+/**
+ * シグナルがキャンセル済みであれば AuditCancelledError を投げる
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AuditCancelledError();
+  }
+}
+
+/**
+ * 環境変数からリトライ設定を取得する
+ */
+export function getRetryOptions(label?: string, signal?: AbortSignal): RetryOptions {
+  return {
+    retries: parseEnvInt("AUDIT_MAX_RETRIES", 3),
+    baseDelayMs: parseEnvInt("AUDIT_RETRY_BASE_MS", 1000),
+    maxDelayMs: parseEnvInt("AUDIT_RETRY_MAX_MS", 30000),
+    label,
+    signal,
+  };
+}
+
+/**
+ * 環境変数から同時実行数を取得する
+ */
+export function getConcurrency(): number {
+  return Math.max(parseEnvInt("AUDIT_CONCURRENCY", 4), 1);
+}
+
+function parseEnvInt(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (!value) return defaultValue;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? defaultValue : parsed;
+}
+
+/**
+ * Retry-After ヘッダ（秒数またはHTTP日付）をミリ秒に変換する
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+  return undefined;
+}
+
+/**
+ * HTTPステータスがリトライ対象か判定する（429 と 5xx）
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * 指定時間待機する（キャンセルされた場合は AuditCancelledError で中断する）
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AuditCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AuditCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 一時的なエラーの場合に指数バックオフでリトライする
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(options.signal);
+    try {
+      return await fn();
+    } catch (err) {
+      const retryable = err instanceof RetryableError && err.retryable;
+      if (!retryable || attempt >= options.retries) {
+        throw err;
+      }
+
+      // Retry-After が指定されていればそれに従い、なければ指数バックオフ（ジッター付き）
+      const backoff = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+      const delay = err.retryAfterMs !== undefined
+        ? Math.min(err.retryAfterMs, options.maxDelayMs)
+        : Math.round(backoff / 2 + Math.random() * backoff / 2);
+
+      logger.warn(
+        `${options.label ? `[${options.label}] ` : ""}一時的なエラーのため ${delay}ms 後にリトライします (${attempt + 1}/${options.retries}): ${err.message}`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * 同時実行数を制限してタスクを実行する
+ * 結果は入力と同じ順序で、成功/失敗を Promise.allSettled と同じ形式で返す
+ * キャンセルされた場合、未着手のタスクは AuditCancelledError で失敗扱いになる
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal?.aborted) {
+        results[index] = { status: "rejected", reason: new AuditCancelledError() };
+        continue;
+      }
+      try {
+        results[index] = { status: "fulfilled", value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, () => runNext());
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { CACHE_MODES } from "./audit-cache.js";
+import { SeveritySchema } from "./audit-result.js";
+
+/**
+ * audit-schemas.ts
+ *
+ * MCPツール（audit-mcp-server.ts）とJSON-RPCメソッド（audit-rpc-methods.ts）で共通のパラメータを
+ * zodスキーマとしてまとめたモジュールです。
+ * MCPツールには各スキーマの shape を渡すため、パラメータや説明を変更する場合はここだけを変更します。
+ */
+
+const CacheModeSchema = z.enum(CACHE_MODES).optional()
+  .describe("監査結果のキャッシュの扱い（use: 再利用する / refresh: 再監査して上書きする / bypass: 使用しない）");
+
+const ProfileSchema = z.string().optional().describe("監査プロファイル（.auditrc で定義、省略時はデフォルトのプロファイル）");
+
+const LlmFlag = z.boolean().optional().describe("false の場合はLLMを使わずローカルチェックのみ実行する");
+
+const SuggestFixesFlag = z.boolean().optional()
+  .describe("true の場合は指摘ごとに修正パッチを作成し、適用できることを確認したものを結果に含める");
+
+const ProvidersSchema = z.array(z.string()).optional()
+  .describe("監査に使うプロバイダ（複数指定した場合は各モデルで監査し、指摘を突き合わせる）");
+
+const MinAgreementSchema = z.number().int().min(1).optional()
+  .describe("複数のモデルで監査した場合に、指摘を採用するのに必要なモデル数（デフォルトは過半数）");
+
+const AsyncFlag = z.boolean().optional().describe("true の場合は監査をジョブとして開始し、ジョブIDをすぐに返す");
+
+const DateTimeSchema = z.string().refine(value => !Number.isNaN(Date.parse(value)), "日時として解釈できません");
+
+/**
+ * 監査（MCPの audit / JSON-RPCの tool/audit）
+ */
+export const AuditParamsSchema = z.object({
+  request: z.string().describe("監査リクエストの内容"),
+  modification_description: z.string().describe("変更内容の説明"),
+  code_changes: z.string().describe("コード差分 (diff形式など)"),
+  function_list: z.string().describe("function_list.txt の内容 (パッケージ側で管理)"),
+  changed_files: z.array(z.string()).optional().describe("変更されたファイル一覧"),
+  commit_sha: z.string().optional().describe("監査対象のコミットSHA（レポートの検索用）"),
+  branch: z.string().optional().describe("監査対象のブランチ（レポートの検索用）"),
+  llm: LlmFlag,
+  cache: CacheModeSchema,
+  profile: ProfileSchema,
+  suggest_fixes: SuggestFixesFlag,
+  providers: ProvidersSchema,
+  min_agreement: MinAgreementSchema,
+  enrich_context: z.boolean().optional()
+    .describe("true の場合はリポジトリから変更後のファイル内容・参照しているシンボルの定義・呼び出し箇所を監査に含める"),
+  repo_path: z.string().optional().describe("コンテキストを取得するリポジトリのパス（enrich_context 指定時）"),
+  async: AsyncFlag,
+});
+
+/**
+ * Gitリポジトリの差分の監査（MCPの audit_git / JSON-RPCの tool/auditGit）
+ */
+export const GitAuditParamsSchema = z.object({
+  repo_path: z.string().describe("監査するGitリポジトリのパス"),
+  source: z.enum(["auto", "staged", "working_tree", "range"]).optional()
+    .describe("差分の取得元（auto: ステージング優先、range: base...head）。base を指定した場合のデフォルトは range"),
+  base: z.string().optional().describe("比較元のref（ブランチ・タグ・コミット）"),
+  head: z.string().optional().describe("比較先のref（デフォルトは HEAD）"),
+  path: z.string().optional().describe("監査対象をこのディレクトリ配下に限定する（リポジトリルートからの相対パス）"),
+  request: z.string().optional().describe("監査リクエストの内容"),
+  modification_description: z.string().optional()
+    .describe("変更内容の説明（省略時は task_list.txt、なければコミットメッセージ）"),
+  function_list_path: z.string().optional().describe("function_list.txt のパス（デフォルトは function_list.txt）"),
+  llm: LlmFlag,
+  cache: CacheModeSchema,
+  profile: ProfileSchema,
+  suggest_fixes: SuggestFixesFlag,
+  providers: ProvidersSchema,
+  min_agreement: MinAgreementSchema,
+  enrich_context: z.boolean().optional()
+    .describe("true の場合は監査したツリーから変更後のファイル内容・参照しているシンボルの定義・呼び出し箇所を監査に含める"),
+  async: AsyncFlag,
+});
+
+/**
+ * 非同期ジョブの指定
+ */
+export const JobIdSchema = z.object({ jobId: z.string().min(1).describe("監査ジョブのID") });
+
+const FunctionListParamsSchema = z.object({
+  repo_path: z.string().describe("解析するディレクトリ（リポジトリ）のパス"),
+  path: z.string().optional().describe("対象をこのディレクトリ配下に限定する（repo_path からの相対パス）"),
+  file: z.string().optional().describe("function_list のファイル名（path からの相対パス、デフォルトは function_list.txt）"),
+});
+
+/**
+ * ソースからの function_list の生成
+ */
+export const FunctionListGenerateParamsSchema = FunctionListParamsSchema.extend({
+  write: z.boolean().optional().describe("true の場合はファイルの自動生成部分を置き換える"),
+});
+
+/**
+ * 監査レポートの function_list 更新案の反映
+ */
+export const FunctionListApplyParamsSchema = FunctionListParamsSchema.extend({
+  report_id: z.string().min(1).describe("更新案を反映する監査レポートのID"),
+});
+
+/**
+ * 保存済みレポートの検索条件
+ */
+export const ReportFilterSchema = z.object({
+  branch: z.string().optional().describe("ブランチ名"),
+  commit_sha: z.string().optional().describe("コミットSHA（前方一致）"),
+  request: z.string().optional().describe("リクエスト内容（部分一致）"),
+  status: z.enum(["success", "partial"]).optional().describe("監査結果のステータス"),
+  since: DateTimeSchema.optional().describe("この日時以降のレポート（ISO 8601）"),
+  until: DateTimeSchema.optional().describe("この日時以前のレポート（ISO 8601）"),
+  min_severity: SeveritySchema.optional().describe("この重要度以上の指摘があるレポートのみ"),
+  limit: z.number().int().positive().optional().describe("最大件数（デフォルト50）"),
+});
+
+/**
+ * 2つのレポートの比較
+ */
+export const CompareReportsParamsSchema = z.object({
+  base_id: z.string().min(1).describe("比較元（以前）のレポートID"),
+  head_id: z.string().min(1).describe("比較先（最新）のレポートID"),
+});
+
+/**
+ * 監査レポートについての追加の質問
+ */
+export const FollowupParamsSchema = z.object({
+  report_id: z.string().min(1).describe("質問する監査レポートのID"),
+  question: z.string().min(1).describe("質問（「指摘3」のように指摘の番号を指定できる）"),
+  files: z.array(z.string()).optional().describe("回答に差分を含めるファイル（省略時は質問から判断）"),
+});
+
+/**
+ * トークン数・コストの集計期間
+ */
+export const StatsParamsSchema = z.object({
+  since: DateTimeSchema.optional().describe("この日時以降のレポートを集計（ISO 8601）"),
+  until: DateTimeSchema.optional().describe("この日時以前のレポートを集計（ISO 8601）"),
+});
+
+/**
+ * キャッシュの削除
+ */
+export const CachePurgeParamsSchema = z.object({
+  older_than_days: z.number().nonnegative().optional().describe("指定した日数より古いエントリのみ削除する（省略時はすべて削除）"),
+});
+
+/**
+ * 通知先への送信のテスト
+ */
+export const NotificationTestParamsSchema = z.object({
+  report_id: z.string().min(1).describe("通知に使う監査レポートのID"),
+  notifier: z.string().optional().describe("送信する通知先の名前（省略時はすべての通知先）"),
+});
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+import type { Server } from "http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { startStdioServer } from "./audit-mcp-server.js";
+import { startHttpServer } from "./audit-http-server.js";
+import { closeAllMcpSessions } from "./audit-mcp-http.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-server.ts
+ *
+ * 監査サーバーの起動コマンドです。指定したトランスポートをまとめて起動します。
+ *
+ *  - stdio: 標準入出力のMCPサーバー（audit-mcp-server.ts）
+ *  - http:  MCP over HTTP（/mcp の Streamable HTTP と /sse の HTTP+SSE、audit-mcp-http.ts）
+ *  - rpc:   JSON-RPCのエンドポイント（POST /、audit-http-server.ts）
+ *
+ * http と rpc は同じHTTPサーバー（PORT / AUDIT_HTTP_HOST）で公開します。
+ * どのトランスポートでも、ツールは createMcpServer・監査メソッドのレジストリの同じ定義を使います。
+ *
+ * 使用例:
+ *   node dist/audit-server.js                              # 標準入出力のみ
+ *   node dist/audit-server.js --transports http,rpc        # HTTPのみ
+ *   AUDIT_TRANSPORTS=stdio,http,rpc node dist/audit-server.js
+ */
+
+const TRANSPORTS = ["stdio", "http", "rpc"] as const;
+type Transport = typeof TRANSPORTS[number];
+
+const USAGE = `使用方法: audit-server [オプション]
+
+  --transports <names>  起動するトランスポート（stdio / http / rpc をカンマ区切りで指定、デフォルトは stdio）
+                        環境変数 AUDIT_TRANSPORTS でも指定できます
+  -h, --help            このヘルプを表示する
+`;
+
+/**
+ * 引数の誤り
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * トランスポートの指定を解析する
+ */
+function parseTransports(value: string): Transport[] {
+  const names = value.split(",").map(name => name.trim()).filter(Boolean);
+  const unknown = names.filter(name => !(TRANSPORTS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new UsageError(`不明なトランスポートです: ${unknown.join(", ")}（${TRANSPORTS.join(" / ")} から指定してください）`);
+  }
+  if (names.length === 0) {
+    throw new UsageError("トランスポートを1つ以上指定してください。");
+  }
+  return [...new Set(names)] as Transport[];
+}
+
+/**
+ * コマンドライン引数を解析する（ヘルプの場合は undefined）
+ */
+function parseArgs(argv: string[]): Transport[] | undefined {
+  let value = process.env.AUDIT_TRANSPORTS || "stdio";
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") {
+      return undefined;
+    }
+    if (arg === "--transports") {
+      value = argv[++i] ?? "";
+    } else if (arg.startsWith("--transports=")) {
+      value = arg.slice("--transports=".length);
+    } else {
+      throw new UsageError(`不明なオプションです: ${arg}`);
+    }
+  }
+  return parseTransports(value);
+}
+
+/**
+ * 指定されたトランスポートを起動し、終了シグナルで停止する
+ */
+async function main(argv: string[]): Promise<void> {
+  const transports = parseArgs(argv);
+  if (!transports) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  let mcpServer: McpServer | undefined;
+  let httpServer: Server | undefined;
+  if (transports.includes("http") || transports.includes("rpc")) {
+    httpServer = await startHttpServer({ rpc: transports.includes("rpc"), mcp: transports.includes("http") });
+  }
+  if (transports.includes("stdio")) {
+    mcpServer = await startStdioServer();
+  }
+  logger.info(`起動したトランスポート: ${transports.join(", ")}`);
+
+  const shutdown = async (signal: string) => {
+    logger.info(`${signal} を受信したため、サーバーを停止します...`);
+    await closeAllMcpSessions();
+    await mcpServer?.close();
+    httpServer?.close();
+    httpServer?.closeAllConnections();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => void shutdown("SIGINT"));
+  process.once("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+try {
+  await main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof UsageError) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+  } else {
+    logger.error("サーバーを起動できませんでした:", error instanceof Error ? error.message : error);
+  }
+  process.exitCode = 1;
+}
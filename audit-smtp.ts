@@ -0,0 +1,225 @@
+import * as net from "net";
+import * as tls from "tls";
+import { randomBytes } from "crypto";
+import * as os from "os";
+
+/**
+ * audit-smtp.ts
+ *
+ * 監査結果の通知メールを送信する最小限のSMTPクライアントです（audit-notifications.ts の email）。
+ *
+ *  - secure: true の場合は接続時からTLS（通常はポート465）
+ *  - それ以外でサーバーが STARTTLS に対応している場合はTLSに切り替える
+ *  - user を指定した場合は AUTH PLAIN で認証する（TLSでない場合はローカルのサーバーのみ）
+ *
+ * 本文は UTF-8 のテキスト（Base64）で送信します。
+ */
+
+/**
+ * SMTPサーバーの接続設定
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;       // 接続時からTLSを使う
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+/**
+ * 送信するメール
+ */
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * SMTPの応答
+ */
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * SMTPの接続（コマンドを送信して応答を待つ）
+ */
+interface SmtpConnection {
+  socket: net.Socket;
+  read(): Promise<SmtpResponse>;
+  command(line: string, expected: number[]): Promise<SmtpResponse>;
+  detach(): void;
+}
+
+/**
+ * ソケットから応答を1件ずつ読み出す接続を作成する
+ */
+function openConnection(socket: net.Socket, timeoutMs: number): SmtpConnection {
+  let buffer = "";
+  let pending: SmtpResponse["lines"] = [];
+  const responses: SmtpResponse[] = [];
+  const waiting: { resolve: (response: SmtpResponse) => void; reject: (err: Error) => void }[] = [];
+  let failure: Error | undefined;
+
+  const fail = (err: Error) => {
+    failure = failure ?? err;
+    waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let index: number;
+    while ((index = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.substring(0, index);
+      buffer = buffer.substring(index + 2);
+      pending.push(line.substring(4));
+      // "250-..." は複数行の応答の途中、"250 ..." が最後の行
+      if (line.charAt(3) !== "-") {
+        const response = { code: parseInt(line.substring(0, 3), 10), lines: pending };
+        pending = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(response);
+        else responses.push(response);
+      }
+    }
+  };
+  const onError = (err: Error) => fail(err);
+  const onClose = () => fail(new Error("SMTPサーバーとの接続が切断されました"));
+  const onTimeout = () => socket.destroy(new Error(`SMTPサーバーの応答がタイムアウトしました (${timeoutMs}ms)`));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+  socket.setTimeout(timeoutMs, onTimeout);
+
+  const read = () => new Promise<SmtpResponse>((resolve, reject) => {
+    const response = responses.shift();
+    if (response) resolve(response);
+    else if (failure) reject(failure);
+    else waiting.push({ resolve, reject });
+  });
+
+  return {
+    socket,
+    read,
+    async command(line, expected) {
+      socket.write(`${line}\r\n`);
+      const response = await read();
+      if (!expected.includes(response.code)) {
+        // 認証情報をエラーメッセージに含めない
+        const sent = line.startsWith("AUTH") ? "AUTH" : line;
+        throw new Error(`SMTPサーバーがエラーを返しました (${sent}): ${response.code} ${response.lines.join(" ")}`);
+      }
+      return response;
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+      socket.setTimeout(0);
+    },
+  };
+}
+
+/**
+ * 接続を確立する（secure の場合はTLS）
+ */
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * 接続中のソケットをTLSに切り替える（STARTTLS）
+ */
+function upgradeToTls(socket: net.Socket, host: string): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once("error", reject);
+  });
+}
+
+/**
+ * ヘッダ用に非ASCII文字を含む文字列をエンコードする（RFC 2047）
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * メールのデータ（ヘッダと Base64 の本文）を作成する
+ */
+function buildMessageData(message: MailMessage): string {
+  const domain = message.from.split("@")[1]?.replace(/>.*$/, "") || os.hostname();
+  const body = Buffer.from(message.text.replace(/\r?\n/g, "\r\n"), "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * メールアドレス部分を取り出す（"名前 <user@example.com>" 形式にも対応）
+ */
+function extractAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+/**
+ * メールを送信する
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  let connection = openConnection(await connect(options), options.timeoutMs);
+  try {
+    const greeting = await connection.read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTPサーバーに接続できませんでした: ${greeting.code} ${greeting.lines.join(" ")}`);
+    }
+    const hostname = os.hostname();
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+    // STARTTLS に対応している場合はTLSに切り替えて EHLO からやり直す
+    if (!options.secure && ehlo.lines.some(line => line.toUpperCase().startsWith("STARTTLS"))) {
+      await connection.command("STARTTLS", [220]);
+      connection.detach();
+      connection = openConnection(await upgradeToTls(connection.socket, options.host), options.timeoutMs);
+      ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      // 暗号化されていない接続ではローカルのサーバー（動作確認用）以外に認証情報を送らない
+      if (!(connection.socket instanceof tls.TLSSocket) && !["localhost", "127.0.0.1", "::1"].includes(options.host)) {
+        throw new Error(`SMTPサーバーがTLSに対応していないため、認証情報を送信しませんでした (${options.host})`);
+      }
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ""}`, "utf8").toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+    }
+    await connection.command("DATA", [354]);
+    // 本文は Base64 のため、行頭の "." のエスケープは不要
+    await connection.command(`${buildMessageData(message)}\r\n.`, [250]);
+    await connection.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    connection.detach();
+    connection.socket.destroy();
+  }
+}
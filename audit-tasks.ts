@@ -0,0 +1,133 @@
+import { TraceItem, TraceLocation, TraceStatus, Traceability } from "./audit-result.js";
+import { logger } from "./audit-logger.js";
+
+/**
+ * audit-tasks.ts
+ *
+ * 修正内容（task_list.txt）を個別の要件項目に分解し、
+ * 監査結果の要件トレーサビリティ（要件項目と差分の対応表）を統合するモジュールです。
+ *
+ * 要件項目の分解:
+ *  - 箇条書き（- * + ・ •）、番号付きリスト（1. 1) (1)）、チェックボックス（- [ ]）の行を1項目とする
+ *  - 箇条書きがある場合、インデントされた続きの行は直前の項目に含め、それ以外の行（前置きなど）は無視する
+ *  - 箇条書きがない場合は空行・見出し以外の各行を1項目とする
+ */
+
+/**
+ * 要件項目
+ */
+export interface TaskItem {
+  id: string;    // T1, T2, ...
+  text: string;
+}
+
+// 要件項目の上限（これを超える項目は対応表に含めない）
+const MAX_TASK_ITEMS = 50;
+
+// 箇条書き・番号付きリストの行（チェックボックスは除いて内容を取り出す）
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]\s+|[・•]\s*|\d+[.)]\s+|\d+[．）]\s*|[（(]\d+[)）]\s*)(?:\[[ xX]\]\s+)?(.+)$/;
+
+/**
+ * 修正内容を要件項目に分解する
+ */
+export function parseTaskItems(description: string): TaskItem[] {
+  const lines = description.split(/\r?\n/);
+  const hasListItems = lines.some(line => LIST_ITEM_PATTERN.test(line));
+  const texts: string[] = [];
+
+  lines.forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;  // 空行・見出し
+    if (!hasListItems) {
+      texts.push(trimmed);
+      return;
+    }
+    const match = line.match(LIST_ITEM_PATTERN);
+    if (match) {
+      texts.push(match[1].trim());
+    } else if (/^\s/.test(line) && texts.length > 0) {
+      texts[texts.length - 1] += ` ${trimmed}`;  // 直前の項目の続き
+    }
+  });
+
+  if (texts.length > MAX_TASK_ITEMS) {
+    logger.warn(`要件項目が${texts.length}件あるため、先頭の${MAX_TASK_ITEMS}件のみ対応表に含めます`);
+  }
+  return texts.slice(0, MAX_TASK_ITEMS).map((text, index) => ({ id: `T${index + 1}`, text }));
+}
+
+// 実装状況の順序（後ろほど実装が進んでいる）
+const TRACE_STATUS_ORDER: TraceStatus[] = ["missing", "partial", "implemented"];
+
+function locationKey(location: TraceLocation): string {
+  return `${location.file}:${location.line_start ?? ""}-${location.line_end ?? ""}`;
+}
+
+function uniqueLocations<T extends TraceLocation>(locations: T[]): T[] {
+  return [...new Map(locations.map(location => [locationKey(location), location])).values()];
+}
+
+/**
+ * LLMが出力した対応表を要件項目に合わせて整える
+ * 要件項目の内容は分解した結果を使い、判定のない項目は未実装、存在しないIDの項目は除外する
+ */
+export function normalizeTraceability(traceability: Traceability | undefined, items: TaskItem[]): Traceability {
+  const byId = new Map((traceability?.items ?? []).map(item => [item.id, item]));
+  return {
+    items: items.map(item => {
+      const traced = byId.get(item.id);
+      return {
+        id: item.id,
+        text: item.text,
+        status: traced?.status ?? "missing",
+        evidence: traced?.evidence ?? [],
+        ...(traced?.note ? { note: traced.note } : {}),
+      };
+    }),
+    unmapped_changes: traceability?.unmapped_changes ?? [],
+  };
+}
+
+/**
+ * 分割して監査した結果の対応表を統合する
+ * 実装状況は最も実装が進んでいる判定を採用し、実装箇所と対応しない変更は重複を除いて連結する
+ * final（サマリー生成で変更全体から判定した対応表）を指定した場合は、その実装状況を優先する
+ */
+export function mergeTraceability(items: TaskItem[], traceabilities: Traceability[], final?: Traceability): Traceability {
+  const finalById = new Map((final?.items ?? []).map(item => [item.id, item]));
+  return {
+    items: items.map(item => {
+      const traced = traceabilities.flatMap(traceability => traceability.items.filter(entry => entry.id === item.id));
+      const status = traced
+        .map(entry => entry.status)
+        .reduce((a, b) => TRACE_STATUS_ORDER.indexOf(a) >= TRACE_STATUS_ORDER.indexOf(b) ? a : b, "missing");
+      const notes = [...new Set(traced.map(entry => entry.note).filter(Boolean))];
+      const summarized = finalById.get(item.id);
+      const merged: TraceItem = {
+        id: item.id,
+        text: item.text,
+        status: summarized?.status ?? status,
+        evidence: uniqueLocations(traced.flatMap(entry => entry.evidence)),
+      };
+      const note = summarized?.note || notes.join("\n");
+      return note ? { ...merged, note } : merged;
+    }),
+    unmapped_changes: uniqueLocations(traceabilities.flatMap(traceability => traceability.unmapped_changes)),
+  };
+}
+
+/**
+ * 対応表を1ファイル分に絞り込む（ファイル単位のキャッシュ用）
+ * そのファイルに実装箇所がない要件項目は、そのファイルでは未実装として扱う
+ */
+export function restrictTraceability(traceability: Traceability, file: string): Traceability {
+  return {
+    items: traceability.items.map(item => {
+      const evidence = item.evidence.filter(location => location.file === file);
+      return evidence.length > 0
+        ? { ...item, evidence }
+        : { id: item.id, text: item.text, status: "missing", evidence: [] };
+    }),
+    unmapped_changes: traceability.unmapped_changes.filter(change => change.file === file),
+  };
+}
@@ -0,0 +1,186 @@
+import { ChatMessage, CompletionProvider, TokenUsage } from "./audit-providers.js";
+import { estimateTokens } from "./audit-diff.js";
+import { listReports } from "./audit-reports.js";
+
+/**
+ * audit-usage.ts
+ *
+ * LLM呼び出しのトークン数・レイテンシ・コストを記録し、集計するモジュールです。
+ *
+ *  - 監査ごとに createUsageTracker で集計器を作成し、呼び出し（ファイルごと・サマリー）ごとに記録
+ *  - APIがトークン数を返さない場合は文字数から見積もる（estimated: true）
+ *  - コストはプロバイダ設定の input_cost_per_1k / output_cost_per_1k（または設定ファイルの料金表）から計算
+ *  - サーバー起動以降の累計と、保存済みレポートからの集計を getUsageStats で返す
+ */
+
+/**
+ * LLM呼び出し1回分の記録
+ */
+export interface CompletionRecord {
+  label: string;               // 呼び出しの内容（single / chunk N/M / summary など）
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;           // リトライを含む所要時間
+  cost: number;
+  contextUtilization: number;  // コンテキスト長に対する使用率（0〜1）
+  estimated: boolean;          // トークン数が見積もりの場合は true
+}
+
+/**
+ * 監査1回分の利用量
+ */
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  latencyMs: number;
+  maxContextUtilization: number;
+  estimated: boolean;          // 見積もりを含む場合は true
+  records: CompletionRecord[];
+}
+
+/**
+ * 監査ごとの集計器
+ */
+export interface UsageTracker {
+  record(label: string, provider: CompletionProvider, messages: ChatMessage[], content: string, usage: TokenUsage | undefined, latencyMs: number): CompletionRecord;
+  summary(): UsageSummary;
+}
+
+/**
+ * 累計の利用量（プロバイダ・モデルごと）
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  latencyMs: number;
+}
+
+const startedAt = new Date().toISOString();
+const totalsByModel = new Map<string, UsageTotals>();
+let auditCount = 0;
+let followupCount = 0;
+
+/**
+ * トークン数からコストを計算する
+ */
+export function calculateCost(provider: CompletionProvider, usage: TokenUsage): number {
+  return (usage.promptTokens / 1000) * (provider.inputCostPer1k ?? 0)
+    + (usage.completionTokens / 1000) * (provider.outputCostPer1k ?? 0);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, latencyMs: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: Pick<CompletionRecord, "promptTokens" | "completionTokens" | "cost" | "latencyMs">, calls = 1): void {
+  totals.calls += calls;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.cost += record.cost;
+  totals.latencyMs += record.latencyMs;
+}
+
+/**
+ * 監査ごとの集計器を作成する
+ * （kind: "followup" の場合は監査の件数ではなく、追加の質問の件数として数える）
+ */
+export function createUsageTracker(kind: "audit" | "followup" = "audit"): UsageTracker {
+  const records: CompletionRecord[] = [];
+  if (kind === "followup") {
+    followupCount++;
+  } else {
+    auditCount++;
+  }
+
+  return {
+    record(label, provider, messages, content, usage, latencyMs) {
+      const tokens = usage ?? {
+        promptTokens: estimateTokens(messages.map(message => message.content).join("\n")),
+        completionTokens: estimateTokens(content),
+      };
+      const entry: CompletionRecord = {
+        label,
+        provider: provider.name,
+        model: provider.model,
+        ...tokens,
+        latencyMs,
+        cost: calculateCost(provider, tokens),
+        contextUtilization: (tokens.promptTokens + tokens.completionTokens) / provider.contextTokens,
+        estimated: !usage,
+      };
+      records.push(entry);
+
+      const key = `${entry.provider}/${entry.model}`;
+      const totals = totalsByModel.get(key) ?? emptyTotals();
+      addToTotals(totals, entry);
+      totalsByModel.set(key, totals);
+      return entry;
+    },
+
+    summary() {
+      const totals = emptyTotals();
+      records.forEach(record => addToTotals(totals, record));
+      return {
+        calls: totals.calls,
+        promptTokens: totals.promptTokens,
+        completionTokens: totals.completionTokens,
+        totalTokens: totals.promptTokens + totals.completionTokens,
+        cost: totals.cost,
+        latencyMs: totals.latencyMs,
+        maxContextUtilization: Math.max(0, ...records.map(record => record.contextUtilization)),
+        estimated: records.some(record => record.estimated),
+        records: [...records],
+      };
+    },
+  };
+}
+
+/**
+ * 利用量の統計を取得する
+ *  - process: サーバー起動以降の累計（プロバイダ/モデルごと）
+ *  - reports: 保存済みレポートの集計（since / until で期間を指定）
+ */
+export function getUsageStats(filter: { since?: string; until?: string } = {}) {
+  const reports = listReports({ ...filter, limit: Number.MAX_SAFE_INTEGER });
+  const reportTotals = emptyTotals();
+  const reportsByModel: Record<string, UsageTotals> = {};
+  let audits = 0;
+  reports.forEach(report => {
+    const usage = report.metadata.usage;
+    if (!usage) return;
+    audits++;
+    usage.records.forEach(record => {
+      addToTotals(reportTotals, record);
+      const key = `${record.provider}/${record.model}`;
+      reportsByModel[key] = reportsByModel[key] ?? emptyTotals();
+      addToTotals(reportsByModel[key], record);
+    });
+  });
+
+  const processTotals = emptyTotals();
+  totalsByModel.forEach(totals => addToTotals(processTotals, totals, totals.calls));
+
+  return {
+    process: {
+      since: startedAt,
+      audits: auditCount,
+      followups: followupCount,
+      ...processTotals,
+      byModel: Object.fromEntries(totalsByModel),
+    },
+    reports: {
+      since: filter.since,
+      until: filter.until,
+      audits,
+      ...reportTotals,
+      byModel: reportsByModel,
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ApiClient,
+  getDailyUsage,
+  reserveAuditUsage,
+  runWithReservation,
+  settleUsage,
+} from "../audit-auth.js";
+import { AuditRequest } from "../audit-common.js";
+import { JsonRpcError, JSON_RPC_ERRORS } from "../audit-jsonrpc.js";
+import { UsageSummary } from "../audit-usage.js";
+
+/**
+ * audit-auth.ts のテスト（1日の利用量の上限）
+ *
+ * 受付時に見積もりで計上した利用量が、完了時に実際の利用量に置き換わること、
+ * 失敗した場合に取り消されること、上限を超える場合に受け付けないことを確認します。
+ */
+
+process.env.AUDIT_LOG_LEVEL = "error";
+process.env.AI_PROVIDER = "stub";
+process.env.AUDIT_PROVIDERS_CONFIG = "audit-providers.test-missing.json";
+
+let clientCount = 0;
+
+/**
+ * 利用量を他のテストと共有しないよう、テストごとに別のクライアントを作成する
+ */
+function createClient(quota: Partial<ApiClient> = {}): ApiClient {
+  clientCount += 1;
+  return { name: `client-${clientCount}`, rateLimitPerMinute: 60, ...quota };
+}
+
+const PARAMS: AuditRequest = {
+  request: "ログインAPIの修正",
+  modification_description: "トークンの検証を追加",
+  code_changes: "diff --git a/src/login.ts b/src/login.ts\n@@ -1 +1 @@\n-a\n+b\n",
+  function_list: "",
+};
+
+/**
+ * 実際の利用量（LLM呼び出しの記録）
+ */
+function usageOf(totalTokens: number, cost = 0): UsageSummary {
+  return {
+    calls: 1,
+    promptTokens: totalTokens,
+    completionTokens: 0,
+    totalTokens,
+    cost,
+    latencyMs: 0,
+    maxContextUtilization: 0,
+    estimated: false,
+    records: [],
+  };
+}
+
+test("受付時に見積もりを計上し、完了時に実際の利用量に置き換える", () => {
+  const client = createClient();
+
+  const reservation = reserveAuditUsage(client, PARAMS);
+
+  assert.ok(reservation.tokens > 0);
+  assert.equal(getDailyUsage(client).tokens, reservation.tokens);
+  assert.equal(getDailyUsage(client).requests, 1);
+
+  settleUsage(reservation, usageOf(42, 0.5));
+
+  assert.equal(getDailyUsage(client).tokens, 42);
+  assert.equal(getDailyUsage(client).cost, 0.5);
+  assert.equal(getDailyUsage(client).requests, 1);
+});
+
+test("確定は1度だけ行う", () => {
+  const client = createClient();
+  const reservation = reserveAuditUsage(client, PARAMS);
+
+  settleUsage(reservation, usageOf(42));
+  settleUsage(reservation, usageOf(42));
+  settleUsage(reservation);
+
+  assert.equal(getDailyUsage(client).tokens, 42);
+});
+
+test("キャッシュを再利用した監査（LLM呼び出しなし）は利用量に含めない", async () => {
+  const client = createClient();
+
+  await runWithReservation(reserveAuditUsage(client, PARAMS), async () => ({ usage: usageOf(0) }));
+
+  assert.equal(getDailyUsage(client).tokens, 0);
+});
+
+test("処理が失敗した場合は計上を取り消す", async () => {
+  const client = createClient();
+
+  await assert.rejects(
+    runWithReservation(reserveAuditUsage(client, PARAMS), async () => { throw new Error("監査に失敗しました"); }),
+    /監査に失敗しました/
+  );
+
+  assert.equal(getDailyUsage(client).tokens, 0);
+  assert.equal(getDailyUsage(client).cost, 0);
+});
+
+test("見積もりが1日の上限を超える場合は受け付けない", () => {
+  const reservation = reserveAuditUsage(createClient(), PARAMS);
+  const client = createClient({ dailyTokenQuota: reservation.tokens * 2 - 1 });
+
+  reserveAuditUsage(client, PARAMS);
+
+  assert.throws(() => reserveAuditUsage(client, PARAMS), (err: unknown) => {
+    assert.ok(err instanceof JsonRpcError);
+    assert.equal(err.code, JSON_RPC_ERRORS.QUOTA_EXCEEDED);
+    return true;
+  });
+  assert.equal(getDailyUsage(client).tokens, reservation.tokens);
+});
+
+test("取り消した分は上限の判定に含めない", () => {
+  const estimate = reserveAuditUsage(createClient(), PARAMS);
+  const client = createClient({ dailyTokenQuota: estimate.tokens });
+
+  settleUsage(reserveAuditUsage(client, PARAMS));
+
+  assert.doesNotThrow(() => reserveAuditUsage(client, PARAMS));
+});
@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens, parseUnifiedDiff, planAuditChunks, renderFileDiff } from "../audit-diff.js";
+
+/**
+ * audit-diff.ts のテスト
+ *
+ * unified diff の解析（追加・削除・変更・リネーム・バイナリ）と、
+ * トークン予算に収まるようにファイル・ハンク・行単位で分割するチャンクの計画を確認します。
+ */
+
+const DIFF = [
+  "diff --git a/src/app.ts b/src/app.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/app.ts",
+  "+++ b/src/app.ts",
+  "@@ -1,3 +1,4 @@ import",
+  " import { a } from \"./a.js\";",
+  "+import { b } from \"./b.js\";",
+  " ",
+  " a();",
+  "@@ -20,2 +21,2 @@ function main()",
+  "-  run(1);",
+  "+  run(2);",
+  "diff --git a/src/new.ts b/src/new.ts",
+  "new file mode 100644",
+  "--- /dev/null",
+  "+++ b/src/new.ts",
+  "@@ -0,0 +1,2 @@",
+  "+export const x = 1;",
+  "+export const y = 2;",
+  "diff --git a/src/old.ts b/src/old.ts",
+  "deleted file mode 100644",
+  "--- a/src/old.ts",
+  "+++ /dev/null",
+  "@@ -1 +0,0 @@",
+  "-export const old = true;",
+  "diff --git a/src/before.ts b/src/after.ts",
+  "similarity index 95%",
+  "rename from src/before.ts",
+  "rename to src/after.ts",
+  "diff --git a/logo.png b/logo.png",
+  "Binary files a/logo.png and b/logo.png differ",
+  "",
+].join("\n");
+
+/**
+ * 指定した行数の追加だけを含むファイルの差分
+ */
+function addedFileDiff(file: string, lines: number): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    "new file mode 100644",
+    "--- /dev/null",
+    `+++ b/${file}`,
+    `@@ -0,0 +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_, index) => `+export const value${index} = ${index}; // ${"x".repeat(40)}`),
+  ].join("\n");
+}
+
+test("ファイルごとの状態・パス・ハンクを解析する", () => {
+  const files = parseUnifiedDiff(DIFF);
+
+  assert.deepEqual(files.map(file => [file.path, file.status, file.binary]), [
+    ["src/app.ts", "modified", false],
+    ["src/new.ts", "added", false],
+    ["src/old.ts", "deleted", false],
+    ["src/after.ts", "renamed", false],
+    ["logo.png", "modified", true],
+  ]);
+
+  const [modified, added, deleted, renamed] = files;
+  assert.equal(modified.hunks.length, 2);
+  assert.deepEqual(
+    modified.hunks.map(hunk => [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines]),
+    [[1, 3, 1, 4], [20, 2, 21, 2]]
+  );
+  assert.deepEqual(modified.hunks[1].lines, ["-  run(1);", "+  run(2);"]);
+  assert.equal(added.oldPath, null);
+  assert.equal(added.newPath, "src/new.ts");
+  assert.equal(deleted.newPath, null);
+  assert.equal(deleted.hunks[0].oldLines, 1);
+  assert.equal(renamed.oldPath, "src/before.ts");
+  assert.equal(renamed.hunks.length, 0);
+});
+
+test("解析したファイルは元の差分として描画できる", () => {
+  const [modified] = parseUnifiedDiff(DIFF);
+  const expected = DIFF.split("\n").slice(0, 12).join("\n");
+
+  assert.equal(renderFileDiff(modified), expected);
+});
+
+test("空の差分は空の一覧になる", () => {
+  assert.deepEqual(parseUnifiedDiff(""), []);
+});
+
+test("予算に収まるファイルは1つのチャンクにまとめる", () => {
+  const files = parseUnifiedDiff([addedFileDiff("a.ts", 2), addedFileDiff("b.ts", 2)].join("\n"));
+
+  const chunks = planAuditChunks(files, 10000);
+
+  assert.equal(chunks.length, 1);
+  assert.deepEqual(chunks[0].parts.map(part => [part.path, part.part, part.parts]), [["a.ts", 1, 1], ["b.ts", 1, 1]]);
+});
+
+test("予算を超える場合はファイルごとに別のチャンクにする", () => {
+  const files = parseUnifiedDiff([addedFileDiff("a.ts", 5), addedFileDiff("b.ts", 5)].join("\n"));
+  const budget = estimateTokens(renderFileDiff(files[0])) + 10;
+
+  const chunks = planAuditChunks(files, budget);
+
+  assert.deepEqual(chunks.map(chunk => chunk.parts.map(part => part.path)), [["a.ts"], ["b.ts"]]);
+  chunks.forEach(chunk => assert.ok(chunk.tokens <= budget));
+});
+
+test("予算に収まらないファイルは行番号を保ったまま分割し、各パーツにファイルヘッダを付ける", () => {
+  const files = parseUnifiedDiff(addedFileDiff("large.ts", 40));
+
+  const chunks = planAuditChunks(files, 200);
+
+  assert.ok(chunks.length > 1);
+  chunks.forEach((chunk, index) => {
+    assert.equal(chunk.parts.length, 1);
+    assert.equal(chunk.parts[0].part, index + 1);
+    assert.equal(chunk.parts[0].parts, chunks.length);
+    assert.match(chunk.parts[0].diff, /^diff --git a\/large\.ts b\/large\.ts\n/);
+  });
+
+  // 分割したハンクの開始行が連続し、すべての行がいずれかのパーツに含まれる
+  const parts = chunks.map(chunk => parseUnifiedDiff(chunk.parts[0].diff)[0].hunks[0]);
+  let nextLine = 1;
+  parts.forEach(hunk => {
+    assert.equal(hunk.newStart, nextLine);
+    assert.equal(hunk.newLines, hunk.lines.length);
+    nextLine += hunk.newLines;
+  });
+  assert.equal(nextLine, 41);
+});
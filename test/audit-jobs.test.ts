@@ -0,0 +1,148 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AuditJobInfo,
+  cancelAuditJob,
+  getAuditJobStatus,
+  listAuditJobs,
+  startAuditJob,
+  takeAuditJobResult,
+} from "../audit-jobs.js";
+import { ApiClient, getDailyUsage, reserveAuditUsage } from "../audit-auth.js";
+import { AuditRequest } from "../audit-common.js";
+import { JsonRpcError, JSON_RPC_ERRORS } from "../audit-jsonrpc.js";
+
+/**
+ * audit-jobs.ts のテスト
+ *
+ * ジョブが開始したクライアントのものとして扱われること、クライアントごとの同時実行数の上限、
+ * 受付時に計上した利用量の確定・取り消しを確認します（監査はLLMを使わないローカルチェックのみ）。
+ */
+
+let workDir: string;
+let clientCount = 0;
+
+/**
+ * ジョブ・利用量を他のテストと共有しないよう、テストごとに別のクライアントを作成する
+ */
+function createClient(): ApiClient {
+  clientCount += 1;
+  return { name: `client-${clientCount}`, rateLimitPerMinute: 60 };
+}
+
+function auditRequest(request: string, overrides: Partial<AuditRequest> = {}): AuditRequest {
+  return {
+    request,
+    modification_description: "トークンの検証を追加",
+    code_changes: "diff --git a/src/login.ts b/src/login.ts\n--- a/src/login.ts\n+++ b/src/login.ts\n@@ -1 +1 @@\n-a\n+b\n",
+    function_list: "",
+    llm: false,
+    cache: "bypass",
+    ...overrides,
+  };
+}
+
+/**
+ * ジョブが完了するまで待つ
+ */
+async function waitForJob(id: string, client?: ApiClient): Promise<AuditJobInfo> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const info = getAuditJobStatus(id, client);
+    if (info.status !== "queued" && info.status !== "running") {
+      return info;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`監査ジョブが完了しません: ${id}`);
+}
+
+before(() => {
+  process.env.AUDIT_LOG_LEVEL = "error";
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-jobs-"));
+  process.env.AUDIT_REPORTS_DIR = path.join(workDir, "reports");
+  process.env.AUDIT_CACHE = "off";
+  process.env.AUDIT_PROFILES_CONFIG = path.join(workDir, ".auditrc");
+  process.env.AUDIT_PROVIDERS_CONFIG = path.join(workDir, "audit-providers.json");
+  process.env.AUDIT_NOTIFICATIONS_CONFIG = path.join(workDir, "audit-notifications.json");
+  process.env.AI_PROVIDER = "stub";
+});
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test("ジョブは開始したクライアントからのみ参照・取得できる", async () => {
+  const owner = createClient();
+  const other = createClient();
+
+  const job = startAuditJob(auditRequest("所有者の確認"), { client: owner });
+
+  assert.throws(() => getAuditJobStatus(job.id, other), /監査ジョブが見つかりません/);
+  assert.throws(() => cancelAuditJob(job.id, other), /監査ジョブが見つかりません/);
+  assert.throws(() => getAuditJobStatus(job.id), /監査ジョブが見つかりません/);
+  assert.deepEqual(listAuditJobs(other), []);
+  assert.deepEqual(listAuditJobs(owner).map(info => info.id), [job.id]);
+
+  const info = await waitForJob(job.id, owner);
+  assert.equal(info.status, "succeeded");
+  assert.throws(() => takeAuditJobResult(job.id, other), /監査ジョブが見つかりません/);
+  const result = takeAuditJobResult(job.id, owner);
+  assert.equal(result.result?.status, "success");
+  assert.throws(() => getAuditJobStatus(job.id, owner), /監査ジョブが見つかりません/);
+});
+
+test("実行待ち・実行中のジョブはクライアントごとに上限まで", async () => {
+  const client = createClient();
+  const other = createClient();
+
+  const jobs = [startAuditJob(auditRequest("1件目"), { client }), startAuditJob(auditRequest("2件目"), { client })];
+
+  assert.throws(() => startAuditJob(auditRequest("3件目"), { client }), (err: unknown) => {
+    assert.ok(err instanceof JsonRpcError);
+    assert.equal(err.code, JSON_RPC_ERRORS.RATE_LIMITED);
+    assert.equal(err.httpStatus, 429);
+    assert.deepEqual(err.data, { active_jobs: 2, max_jobs_per_client: 2 });
+    return true;
+  });
+  // 他のクライアントのジョブは数えない
+  const otherJob = startAuditJob(auditRequest("他のクライアント"), { client: other });
+
+  await Promise.all([...jobs.map(job => waitForJob(job.id, client)), waitForJob(otherJob.id, other)]);
+  // 完了したジョブは数えない
+  const next = startAuditJob(auditRequest("4件目"), { client });
+  await waitForJob(next.id, client);
+});
+
+test("完了したジョブは受付時の見積もりを実際の利用量で確定する", async () => {
+  const client = createClient();
+  const reservation = reserveAuditUsage(client, auditRequest("見積もり", { llm: true }));
+  assert.ok(getDailyUsage(client).tokens > 0);
+
+  const job = startAuditJob(auditRequest("確定"), { client, reservation });
+  await waitForJob(job.id, client);
+
+  assert.equal(reservation.settled, true);
+  assert.equal(getDailyUsage(client).tokens, 0);
+});
+
+test("キャンセルしたジョブ・上限で受け付けなかったジョブは計上を取り消す", async () => {
+  const client = createClient();
+  const reservation = reserveAuditUsage(client, auditRequest("キャンセル", { llm: true }));
+
+  const job = startAuditJob(auditRequest("キャンセル"), { client, reservation });
+  const cancelled = cancelAuditJob(job.id, client);
+  assert.equal(cancelled.status, "cancelled");
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(reservation.settled, true);
+  assert.equal(getDailyUsage(client).tokens, 0);
+
+  const running = [startAuditJob(auditRequest("1件目"), { client }), startAuditJob(auditRequest("2件目"), { client })];
+  const rejected = reserveAuditUsage(client, auditRequest("上限", { llm: true }));
+  assert.throws(() => startAuditJob(auditRequest("上限"), { client, reservation: rejected }), JsonRpcError);
+  assert.equal(rejected.settled, true);
+  assert.equal(getDailyUsage(client).tokens, 0);
+  await Promise.all(running.map(entry => waitForJob(entry.id, client)));
+});
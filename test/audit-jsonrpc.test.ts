@@ -0,0 +1,123 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { handleJsonRpcPayload, JsonRpcContext, JsonRpcError, JSON_RPC_ERRORS, registerMethod } from "../audit-jsonrpc.js";
+
+/**
+ * audit-jsonrpc.ts のテスト
+ *
+ * テスト用のメソッドを登録し、単体・バッチ・通知のリクエストと、
+ * パラメータの検証・存在しないメソッド・ハンドラのエラーの応答を確認します。
+ */
+
+process.env.AUDIT_LOG_LEVEL = "error";
+
+const CONTEXT: JsonRpcContext = { client: { name: "tester", rateLimitPerMinute: 60 } };
+const notified: string[] = [];
+
+registerMethod({
+  name: "test/add",
+  description: "2つの数値の和を返す",
+  params: z.object({ a: z.number(), b: z.number() }),
+  handler: ({ a, b }) => a + b,
+});
+
+registerMethod({
+  name: "test/notify",
+  description: "受け取ったメッセージを記録する",
+  params: z.object({ message: z.string() }),
+  handler: ({ message }, { client }) => {
+    notified.push(`${client.name}: ${message}`);
+  },
+});
+
+registerMethod({
+  name: "test/fail",
+  description: "常にエラーになる",
+  params: z.object({}),
+  handler: () => {
+    throw new JsonRpcError(JSON_RPC_ERRORS.QUOTA_EXCEEDED, "Quota exceeded: テスト", { used_tokens: 1 });
+  },
+});
+
+test("単体のリクエストに結果を返す", async () => {
+  const response = await handleJsonRpcPayload({ jsonrpc: "2.0", id: 1, method: "test/add", params: { a: 1, b: 2 } }, CONTEXT);
+
+  assert.deepEqual(response, { jsonrpc: "2.0", id: 1, result: 3 });
+});
+
+test("戻り値のないメソッドは result を null とする", async () => {
+  const response = await handleJsonRpcPayload({ jsonrpc: "2.0", id: "n", method: "test/notify", params: { message: "応答" } }, CONTEXT);
+
+  assert.deepEqual(response, { jsonrpc: "2.0", id: "n", result: null });
+});
+
+test("通知（id のないリクエスト）は実行するが応答しない", async () => {
+  notified.length = 0;
+
+  const response = await handleJsonRpcPayload({ jsonrpc: "2.0", method: "test/notify", params: { message: "通知" } }, CONTEXT);
+
+  assert.equal(response, null);
+  assert.deepEqual(notified, ["tester: 通知"]);
+});
+
+test("エラーになった通知にも応答しない", async () => {
+  assert.equal(await handleJsonRpcPayload({ jsonrpc: "2.0", method: "test/fail" }, CONTEXT), null);
+  assert.equal(await handleJsonRpcPayload({ jsonrpc: "2.0", method: "test/missing" }, CONTEXT), null);
+});
+
+test("パラメータが不正な場合は Invalid params とし、不正な項目を data に含める", async () => {
+  const response = await handleJsonRpcPayload({ jsonrpc: "2.0", id: 2, method: "test/add", params: { a: 1, b: "2" } }, CONTEXT);
+
+  assert.ok(response && !Array.isArray(response) && "error" in response);
+  assert.equal(response.error.code, JSON_RPC_ERRORS.INVALID_PARAMS);
+  assert.deepEqual((response.error.data as { path: string }[]).map(issue => issue.path), ["b"]);
+});
+
+test("存在しないメソッド・形式が不正なリクエスト・ハンドラのエラーにエラーを返す", async () => {
+  const missing = await handleJsonRpcPayload({ jsonrpc: "2.0", id: 3, method: "test/missing" }, CONTEXT);
+  const invalid = await handleJsonRpcPayload({ jsonrpc: "1.0", id: 4, method: "test/add" }, CONTEXT);
+  const failed = await handleJsonRpcPayload({ jsonrpc: "2.0", id: 5, method: "test/fail" }, CONTEXT);
+
+  assert.deepEqual(missing, {
+    jsonrpc: "2.0",
+    id: 3,
+    error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: "Method not found: test/missing" },
+  });
+  assert.ok(invalid && !Array.isArray(invalid) && "error" in invalid);
+  assert.equal(invalid.id, 4);
+  assert.equal(invalid.error.code, JSON_RPC_ERRORS.INVALID_REQUEST);
+  assert.deepEqual(failed, {
+    jsonrpc: "2.0",
+    id: 5,
+    error: { code: JSON_RPC_ERRORS.QUOTA_EXCEEDED, message: "Quota exceeded: テスト", data: { used_tokens: 1 } },
+  });
+});
+
+test("バッチはリクエストごとに処理し、通知を除いた応答を返す", async () => {
+  notified.length = 0;
+
+  const response = await handleJsonRpcPayload([
+    { jsonrpc: "2.0", id: 1, method: "test/add", params: { a: 1, b: 1 } },
+    { jsonrpc: "2.0", method: "test/notify", params: { message: "バッチ" } },
+    { jsonrpc: "2.0", id: 2, method: "test/missing" },
+    42,
+  ], CONTEXT);
+
+  assert.ok(Array.isArray(response));
+  assert.deepEqual(response.map(item => [item.id, "error" in item ? item.error.code : item.result]), [
+    [1, 2],
+    [2, JSON_RPC_ERRORS.METHOD_NOT_FOUND],
+    [null, JSON_RPC_ERRORS.INVALID_REQUEST],
+  ]);
+  assert.deepEqual(notified, ["tester: バッチ"]);
+});
+
+test("通知のみのバッチには応答せず、空のバッチは Invalid Request とする", async () => {
+  const notifications = await handleJsonRpcPayload([{ jsonrpc: "2.0", method: "test/notify", params: { message: "のみ" } }], CONTEXT);
+  const empty = await handleJsonRpcPayload([], CONTEXT);
+
+  assert.equal(notifications, null);
+  assert.ok(empty && !Array.isArray(empty) && "error" in empty);
+  assert.equal(empty.error.code, JSON_RPC_ERRORS.INVALID_REQUEST);
+});
@@ -0,0 +1,287 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { createHmac } from "crypto";
+import { AddressInfo } from "net";
+import { notifyAuditCompleted, NotificationsFile } from "../audit-notifications.js";
+import { AuditResult, Finding } from "../audit-result.js";
+import { ReportMetadata } from "../audit-reports.js";
+
+/**
+ * audit-notifications.ts のテスト
+ *
+ * Webhook / Slack の送信先はローカルの HTTP サーバー、メールは最小限の SMTP サーバーのスタブで受け取り、
+ * 署名・ペイロード・min_severity による送信の判定・SMTP のやり取りを確認します。
+ */
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+const requests: ReceivedRequest[] = [];
+const mails: ReceivedMail[] = [];
+let httpServer: http.Server;
+let smtpServer: net.Server;
+let httpBase: string;
+let smtpPort: number;
+let configDir: string;
+
+/**
+ * 最小限の SMTP サーバー（EHLO・AUTH・MAIL・RCPT・DATA・QUIT に応答し、受け取った内容を記録する）
+ */
+function createSmtpStub(): net.Server {
+  return net.createServer(socket => {
+    const mail: ReceivedMail = { commands: [], data: "" };
+    let buffer = "";
+    let inData = false;
+    socket.write("220 stub ESMTP\r\n");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.substring(0, index);
+        buffer = buffer.substring(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            mail.data += `${line}\n`;
+          }
+          continue;
+        }
+        mail.commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-stub\r\n250 AUTH PLAIN\r\n");
+        } else if (verb === "AUTH") {
+          socket.write("235 accepted\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 end with .\r\n");
+        } else if (verb === "QUIT") {
+          mails.push(mail);
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+}
+
+/**
+ * 通知設定ファイルを書き出し、AUDIT_NOTIFICATIONS_CONFIG で指定する
+ */
+function writeConfig(file: NotificationsFile): void {
+  const configPath = path.join(configDir, "audit-notifications.json");
+  fs.writeFileSync(configPath, JSON.stringify(file));
+  process.env.AUDIT_NOTIFICATIONS_CONFIG = configPath;
+}
+
+/**
+ * 指定した指摘を含む監査結果で完了を通知する
+ */
+function notify(findings: Finding[]) {
+  const auditResult: AuditResult = {
+    sections: {},
+    findings,
+    function_list_update: "",
+  };
+  const metadata: ReportMetadata = {
+    request: "ログインAPIの修正",
+    modification_description: "トークンの検証を追加",
+    changed_files: ["src/login.ts"],
+    branch: "feature/login",
+    commit_sha: "0123456789abcdef0123",
+    llm: true,
+    status: "success",
+    duration_ms: 1200,
+    finding_counts: { high: 0, medium: 0, low: 0 },
+  };
+  return notifyAuditCompleted("audit-report-test", metadata, auditResult, "reports/audit-report-test.txt");
+}
+
+const HIGH_FINDING: Finding = {
+  severity: "high",
+  category: "technical_issues",
+  file: "src/login.ts",
+  line_start: 12,
+  message: "トークンの有効期限を検証していません",
+};
+
+const LOW_FINDING: Finding = {
+  severity: "low",
+  category: "todo_fixme",
+  file: "src/login.ts",
+  line_start: 30,
+  message: "TODO コメントが残っています",
+};
+
+before(async () => {
+  process.env.AUDIT_LOG_LEVEL = "error";
+  configDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-notifications-"));
+
+  httpServer = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      requests.push({ url: req.url ?? "", headers: req.headers, body });
+      res.writeHead(200);
+      res.end("ok");
+    });
+  });
+  await new Promise<void>(resolve => httpServer.listen(0, "127.0.0.1", resolve));
+  httpBase = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+  smtpServer = createSmtpStub();
+  await new Promise<void>(resolve => smtpServer.listen(0, "127.0.0.1", resolve));
+  smtpPort = (smtpServer.address() as AddressInfo).port;
+});
+
+after(async () => {
+  await new Promise(resolve => httpServer.close(resolve));
+  await new Promise(resolve => smtpServer.close(resolve));
+  fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  mails.length = 0;
+});
+
+test("webhook には HMAC-SHA256 の署名を付けて送信する", async () => {
+  writeConfig({
+    report_url: "https://audit.example.com/reports/{{report_id}}",
+    notifiers: { hook: { type: "webhook", url: `${httpBase}/hook`, secret: "s3cret" } },
+  });
+
+  const outcomes = await notify([HIGH_FINDING]);
+
+  assert.deepEqual(outcomes, [{ notifier: "hook", type: "webhook", sent: true }]);
+  assert.equal(requests.length, 1);
+  const [request] = requests;
+  assert.equal(request.url, "/hook");
+  assert.equal(request.headers["x-audit-event"], "audit.completed");
+  const timestamp = String(request.headers["x-audit-timestamp"]);
+  const expected = `sha256=${createHmac("sha256", "s3cret").update(`${timestamp}.${request.body}`).digest("hex")}`;
+  assert.equal(request.headers["x-audit-signature"], expected);
+
+  const payload = JSON.parse(request.body);
+  assert.equal(payload.event, "audit.completed");
+  assert.equal(payload.report_id, "audit-report-test");
+  assert.equal(payload.report_url, "https://audit.example.com/reports/audit-report-test");
+  assert.equal(payload.max_severity, "high");
+  assert.deepEqual(payload.finding_counts, { high: 1, medium: 0, low: 0 });
+  assert.equal(payload.findings[0].location, "src/login.ts:12");
+});
+
+test("secret を設定しない webhook には署名を付けない", async () => {
+  writeConfig({ notifiers: { hook: { type: "webhook", url: `${httpBase}/hook` } } });
+
+  await notify([HIGH_FINDING]);
+
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].headers["x-audit-signature"], undefined);
+  assert.equal(requests[0].headers["x-audit-timestamp"], undefined);
+});
+
+test("slack には件名を太字の1行目にした text を送信する", async () => {
+  process.env.AUDIT_TEST_SLACK_URL = `${httpBase}/slack`;
+  writeConfig({
+    notifiers: { chat: { type: "slack", url_env: "AUDIT_TEST_SLACK_URL", subject: "監査 {{report_id}}: high {{high}}件" } },
+  });
+
+  const outcomes = await notify([HIGH_FINDING]);
+
+  assert.equal(outcomes[0].sent, true);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].url, "/slack");
+  const payload = JSON.parse(requests[0].body);
+  assert.deepEqual(Object.keys(payload), ["text"]);
+  const [firstLine, ...rest] = payload.text.split("\n");
+  assert.equal(firstLine, "*監査 audit-report-test: high 1件*");
+  assert.match(rest.join("\n"), /src\/login\.ts:12 トークンの有効期限を検証していません/);
+});
+
+test("min_severity 未満の指摘しかない場合は送信しない", async () => {
+  writeConfig({
+    notifiers: {
+      urgent: { type: "webhook", url: `${httpBase}/urgent`, min_severity: "high" },
+      all: { type: "webhook", url: `${httpBase}/all` },
+    },
+  });
+
+  const outcomes = await notify([LOW_FINDING]);
+
+  const urgent = outcomes.find(outcome => outcome.notifier === "urgent");
+  assert.equal(urgent?.sent, false);
+  assert.ok(urgent?.skipped);
+  assert.deepEqual(requests.map(request => request.url), ["/all"]);
+});
+
+test("min_severity の指定がある通知先も、指摘がない場合は送信しない", async () => {
+  writeConfig({ notifiers: { urgent: { type: "webhook", url: `${httpBase}/urgent`, min_severity: "low" } } });
+
+  const outcomes = await notify([]);
+
+  assert.equal(outcomes[0].sent, false);
+  assert.equal(requests.length, 0);
+});
+
+test("min_severity 以上の指摘がある場合は送信する", async () => {
+  writeConfig({ notifiers: { urgent: { type: "webhook", url: `${httpBase}/urgent`, min_severity: "medium" } } });
+
+  const outcomes = await notify([LOW_FINDING, HIGH_FINDING]);
+
+  assert.equal(outcomes[0].sent, true);
+  assert.deepEqual(requests.map(request => request.url), ["/urgent"]);
+});
+
+test("email は SMTP で認証してメールを送信する", async () => {
+  writeConfig({
+    notifiers: {
+      mail: {
+        type: "email",
+        smtp_host: "127.0.0.1",
+        smtp_port: smtpPort,
+        smtp_user: "audit",
+        smtp_password: "p@ss",
+        from: "Audit <audit@example.com>",
+        to: ["dev@example.com", "lead@example.com"],
+        subject: "audit {{report_id}}",
+        template: "指摘: {{findings}}件\n{{top_findings}}",
+      },
+    },
+  });
+
+  const outcomes = await notify([HIGH_FINDING]);
+
+  assert.deepEqual(outcomes, [{ notifier: "mail", type: "email", sent: true }]);
+  assert.equal(mails.length, 1);
+  const [mail] = mails;
+  const verbs = mail.commands.map(command => command.split(/[ :]/)[0].toUpperCase());
+  assert.deepEqual(verbs, ["EHLO", "AUTH", "MAIL", "RCPT", "RCPT", "DATA", "QUIT"]);
+  const credentials = Buffer.from(mail.commands[1].split(" ")[2], "base64").toString("utf8");
+  assert.equal(credentials, "\0audit\0p@ss");
+  assert.equal(mail.commands[2], "MAIL FROM:<audit@example.com>");
+  assert.deepEqual(mail.commands.slice(3, 5), ["RCPT TO:<dev@example.com>", "RCPT TO:<lead@example.com>"]);
+
+  const [headers, body] = mail.data.split("\n\n");
+  assert.match(headers, /^Subject: audit audit-report-test$/m);
+  assert.match(headers, /^To: dev@example\.com, lead@example\.com$/m);
+  const text = Buffer.from(body.replace(/\n/g, ""), "base64").toString("utf8");
+  assert.match(text, /^指摘: 1件\r\n/);
+  assert.match(text, /トークンの有効期限を検証していません/);
+});